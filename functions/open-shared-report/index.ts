@@ -0,0 +1,179 @@
+// Opens a share link for a visitor without an account. Share records, password hashes and view counts
+// stay on the server; the visitor only gets the analysis, the workspace's scoring and its branding.
+//
+// Runs as a Blink edge function (Deno) with the project's secret key, so it can read tables the
+// visitor's anonymous client has no access to.
+
+interface ShareRow {
+  analysis_id: string
+  user_id: string
+  password_hash: string | null
+  locked_until: string | null
+  expires_at: string | null
+  revoked_at: string | null
+}
+
+interface AnalysisRow {
+  id: string
+  url: string
+  timestamp: number
+  performance_score: number
+  seo_score: number
+  accessibility_score: number
+  design_score: number
+  ux_score: number
+  analysis_data: string
+}
+
+interface ScoringRow {
+  weights: string
+  thresholds: string
+  grades: string
+}
+
+interface BrandingRow {
+  agency_name: string
+  logo_url: string
+  primary_color: string
+  accent_color: string
+  footer_text: string
+}
+
+// Wrong passwords in a row before a link is locked, and for how long
+const MAX_FAILED_ATTEMPTS = 5
+const LOCKOUT_MS = 15 * 60 * 1000
+
+const SQL_ENDPOINT = `https://core.blink.new/api/db/${Deno.env.get('BLINK_PROJECT_ID')}/sql`
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } })
+
+const sql = async <T>(query: string, params: unknown[]): Promise<T[]> => {
+  const response = await fetch(SQL_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${Deno.env.get('BLINK_SECRET_KEY')}` },
+    body: JSON.stringify({ query, params })
+  })
+  if (!response.ok) throw new Error(`Database returned ${response.status}`)
+  const { rows } = await response.json()
+  return rows
+}
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('')
+
+// Same derivation as pbkdf2 in src/lib/hash.ts
+const pbkdf2 = async (password: string, salt: string, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: encode(salt), iterations }, key, 256)
+  return toHex(bits)
+}
+
+// Hashes are pbkdf2$<iterations>$<salt>$<key>, as createShare stores them. Links created before that
+// hold a SHA-256 digest of `${token}:${password}`.
+const verifyPassword = async (stored: string, token: string, password: string) => {
+  const [scheme, iterations, salt, key] = stored.split('$')
+  if (scheme === 'pbkdf2') return await pbkdf2(password, salt, Number(iterations)) === key
+  return toHex(await crypto.subtle.digest('SHA-256', encode(`${token}:${password}`))) === stored
+}
+
+// Counted in the database so parallel guesses can't get past the limit; reports whether the link is now locked
+const recordFailedAttempt = async (token: string) => {
+  const [{ failed_attempts }] = await sql<{ failed_attempts: number }>(
+    'UPDATE analysis_shares SET failed_attempts = COALESCE(failed_attempts, 0) + 1 WHERE id = ? RETURNING failed_attempts',
+    [token]
+  )
+  if (failed_attempts < MAX_FAILED_ATTEMPTS) return false
+
+  await sql(
+    'UPDATE analysis_shares SET failed_attempts = 0, locked_until = ? WHERE id = ?',
+    [new Date(Date.now() + LOCKOUT_MS).toISOString(), token]
+  )
+  return true
+}
+
+const openSharedReport = async (token: string, password?: string) => {
+  const [share] = await sql<ShareRow>(
+    'SELECT analysis_id, user_id, password_hash, locked_until, expires_at, revoked_at FROM analysis_shares WHERE id = ?',
+    [token]
+  )
+  if (!share) return { status: 'not-found' }
+  if (share.revoked_at) return { status: 'revoked' }
+  if (share.expires_at && new Date(share.expires_at).getTime() <= Date.now()) return { status: 'expired' }
+
+  if (share.password_hash) {
+    if (share.locked_until && new Date(share.locked_until).getTime() > Date.now()) return { status: 'locked' }
+    if (!password) return { status: 'password-required' }
+    if (!await verifyPassword(share.password_hash, token, password)) {
+      return { status: await recordFailedAttempt(token) ? 'locked' : 'wrong-password' }
+    }
+  }
+
+  const [[analysis], [scoring], [branding]] = await Promise.all([
+    sql<AnalysisRow>(
+      `SELECT id, url, timestamp, performance_score, seo_score, accessibility_score, design_score, ux_score, analysis_data
+       FROM website_analyses WHERE id = ?`,
+      [share.analysis_id]
+    ),
+    sql<ScoringRow>('SELECT weights, thresholds, grades FROM scoring_configs WHERE id = ?', [share.user_id]),
+    sql<BrandingRow>(
+      'SELECT agency_name, logo_url, primary_color, accent_color, footer_text FROM report_brandings WHERE id = ?',
+      [share.user_id]
+    )
+  ])
+  if (!analysis) return { status: 'not-found' }
+
+  // Incremented in the database so simultaneous visitors are all counted; a correct password also
+  // clears earlier wrong guesses
+  await sql(
+    'UPDATE analysis_shares SET views = COALESCE(views, 0) + 1, failed_attempts = 0, last_viewed_at = ? WHERE id = ?',
+    [new Date().toISOString(), token]
+  )
+
+  return {
+    status: 'ok',
+    analysis: {
+      id: analysis.id,
+      url: analysis.url,
+      timestamp: analysis.timestamp,
+      performanceScore: analysis.performance_score,
+      seoScore: analysis.seo_score,
+      accessibilityScore: analysis.accessibility_score,
+      designScore: analysis.design_score,
+      uxScore: analysis.ux_score,
+      analysisData: analysis.analysis_data
+    },
+    scoring: scoring ?? null,
+    branding: branding
+      ? {
+        agencyName: branding.agency_name,
+        logoUrl: branding.logo_url,
+        primaryColor: branding.primary_color,
+        accentColor: branding.accent_color,
+        footerText: branding.footer_text
+      }
+      : null
+  }
+}
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') return new Response(null, { headers: CORS_HEADERS })
+  if (request.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+
+  try {
+    const { token, password } = await request.json()
+    if (typeof token !== 'string' || !token) return json({ status: 'not-found' })
+    return json(await openSharedReport(token, typeof password === 'string' && password ? password : undefined))
+  } catch (error) {
+    console.error('Failed to open shared report:', error)
+    return json({ error: 'Failed to open shared report' }, 500)
+  }
+})
@@ -1,22 +1,75 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useLocation, useMatch, useNavigate } from 'react-router-dom'
+import type { BlinkUser } from '@blinkdotnew/sdk'
 import { blink } from './lib/blink'
+import { runAnalysis } from './lib/analyzer'
+import { createRunRecorder, deleteRun, getInterruptedRun, type AnalysisRun, type RunRecorder } from './lib/analysis-runs'
+import { crawlSite } from './lib/crawler'
+import {
+  backfillAnalysisSummaries,
+  getAnalysis,
+  listAnalyses,
+  listSiteAnalyses,
+  saveAnalysis
+} from './lib/analysis-store'
+import { getPortfolioStats, type PortfolioStats } from './lib/portfolio'
+import { hostnameOf, normalizeUrl } from './lib/url'
+import { DEFAULT_ANALYSIS_SETTINGS, withExistingCategories } from './lib/analysis-settings'
+import { categoryLabel, resultCategoryIds } from './lib/categories'
+import {
+  BUILT_IN_CATEGORIES,
+  listCustomCategories,
+  resultCategoryDefinitions,
+  type CategoryDefinition
+} from './lib/category-registry'
+import {
+  DEFAULT_SCORING,
+  getScoringConfig,
+  overallScore,
+  scoreBadgeVariant,
+  scoreColorClass,
+  scoreGrade,
+  weightOf,
+  type ScoringConfig
+} from './lib/scoring'
+import {
+  claimMonitorRun,
+  describeAlert,
+  listMonitors,
+  postRegressionWebhook,
+  saveMonitor,
+  type MonitorNotification
+} from './lib/monitors'
+import { downloadFile, reportFileName } from './lib/download'
+import { getBranding } from './lib/report-branding'
+import { printReport, renderReportHtml } from './lib/report-export'
+import { serializers, type ExportFormat } from './lib/serializers'
+import { createMonitorScheduler, systemClock, type MonitorScheduler } from './lib/monitor-scheduler'
+import { ROUTES, analysisPath, comparePath, viewForPath } from './lib/routes'
+import {
+  acceptInvitation,
+  canEdit,
+  createWorkspace,
+  listInvitations,
+  listWorkspaces,
+  removeMember,
+  type WorkspaceInvitation,
+  type WorkspaceMembership
+} from './lib/workspaces'
 import { Button } from './components/ui/button'
 import { Input } from './components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './components/ui/card'
 import { Badge } from './components/ui/badge'
 import { Progress } from './components/ui/progress'
-import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs'
 import { Alert, AlertDescription } from './components/ui/alert'
-import { Separator } from './components/ui/separator'
+import { Switch } from './components/ui/switch'
+import { Label } from './components/ui/label'
+import { Checkbox } from './components/ui/checkbox'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from './components/ui/dropdown-menu'
 import { 
   Search, 
   Globe, 
   Zap, 
-  Shield, 
-  Palette, 
-  Users, 
-  TrendingUp, 
-  CheckCircle, 
   XCircle, 
   AlertTriangle,
   Download,
@@ -24,116 +77,115 @@ import {
   Loader2,
   ExternalLink,
   Star,
-  Clock
+  Clock,
+  ChevronDown,
+  ArrowLeft,
+  LineChart,
+  GitCompare,
+  Trophy,
+  Activity,
+  FileText,
+  FileDown,
+  Printer,
+  Brush,
+  Settings2,
+  Scale,
+  RefreshCw,
+  Layers,
+  Share2
 } from 'lucide-react'
 import toast, { Toaster } from 'react-hot-toast'
+import type { AnalysisResult, AnalysisSettings } from './types/analysis'
+import { SiteReportPanel } from './components/SiteReportPanel'
+import { SiteTrends } from './components/SiteTrends'
+import { CompareView } from './components/CompareView'
+import { BenchmarkPanel } from './components/BenchmarkPanel'
+import { MonitorsPanel } from './components/MonitorsPanel'
+import { BulkAnalysisPanel } from './components/BulkAnalysisPanel'
+import { HistoryBrowser } from './components/HistoryBrowser'
+import { PortfolioDashboard } from './components/PortfolioDashboard'
+import { MonitorNotifications } from './components/MonitorNotifications'
+import { BrandingDialog } from './components/BrandingDialog'
+import { ShareDialog } from './components/ShareDialog'
+import { AnalysisSettingsDialog } from './components/AnalysisSettingsDialog'
+import { CustomCategoriesDialog } from './components/CustomCategoriesDialog'
+import { ScoreOverview, AnalysisTabs } from './components/AnalysisDetails'
+import { ScoringDialog } from './components/ScoringDialog'
+import { WorkspaceSwitcher } from './components/WorkspaceSwitcher'
+import { WorkspaceMembersDialog } from './components/WorkspaceMembersDialog'
 
-interface AnalysisResult {
-  id: string
-  url: string
-  timestamp: number
-  performance: {
-    score: number
-    metrics: {
-      loadTime: number
-      firstContentfulPaint: number
-      largestContentfulPaint: number
-      cumulativeLayoutShift: number
-    }
-    recommendations: string[]
-  }
-  seo: {
-    score: number
-    issues: Array<{
-      type: 'error' | 'warning' | 'info'
-      message: string
-      impact: 'high' | 'medium' | 'low'
-    }>
-    recommendations: string[]
-  }
-  accessibility: {
-    score: number
-    violations: Array<{
-      severity: 'critical' | 'serious' | 'moderate' | 'minor'
-      description: string
-      element: string
-    }>
-    recommendations: string[]
-  }
-  design: {
-    score: number
-    analysis: {
-      colorContrast: number
-      typography: number
-      layout: number
-      responsiveness: number
-    }
-    recommendations: string[]
-  }
-  ux: {
-    score: number
-    metrics: {
-      navigationClarity: number
-      contentReadability: number
-      mobileUsability: number
-      interactionDesign: number
-    }
-    recommendations: string[]
-  }
-}
+// Remembers the last workspace per browser so a reload lands where the user left off
+const ACTIVE_WORKSPACE_KEY = 'activeWorkspaceId'
 
 function App() {
-  const [user, setUser] = useState(null)
+  const [user, setUser] = useState<BlinkUser | null>(null)
   const [loading, setLoading] = useState(true)
+  const [workspaces, setWorkspaces] = useState<WorkspaceMembership[]>([])
+  const [workspace, setWorkspace] = useState<WorkspaceMembership | null>(null)
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([])
+  const [membersOpen, setMembersOpen] = useState(false)
   const [url, setUrl] = useState('')
   const [analyzing, setAnalyzing] = useState(false)
   const [progress, setProgress] = useState(0)
   const [currentStep, setCurrentStep] = useState('')
+  // Categories of the running analysis whose AI request hasn't finished yet
+  const [pendingCategories, setPendingCategories] = useState<string[]>([])
+  const [interruptedRun, setInterruptedRun] = useState<AnalysisRun | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
   const [result, setResult] = useState<AnalysisResult | null>(null)
+  const [siteResult, setSiteResult] = useState<AnalysisResult | null>(null)
   const [history, setHistory] = useState<AnalysisResult[]>([])
+  const [stats, setStats] = useState<PortfolioStats | null>(null)
+  const [trends, setTrends] = useState<AnalysisResult[] | null>(null)
+  const [compareSelection, setCompareSelection] = useState<AnalysisResult[]>([])
+  const [comparison, setComparison] = useState<[AnalysisResult, AnalysisResult] | null>(null)
+  const [scheduler, setScheduler] = useState<MonitorScheduler | null>(null)
+  const [notifications, setNotifications] = useState<MonitorNotification[]>([])
+  const [brandingOpen, setBrandingOpen] = useState(false)
+  const [shareOpen, setShareOpen] = useState(false)
+  const [crawlMode, setCrawlMode] = useState(false)
+  const [forceRefresh, setForceRefresh] = useState(false)
+  const [crawlMaxPages, setCrawlMaxPages] = useState(10)
+  const [crawlMaxDepth, setCrawlMaxDepth] = useState(2)
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(DEFAULT_ANALYSIS_SETTINGS)
+  const [customCategories, setCustomCategories] = useState<CategoryDefinition[]>([])
+  const [categoriesOpen, setCategoriesOpen] = useState(false)
+  const [scoring, setScoring] = useState<ScoringConfig>(DEFAULT_SCORING)
+  const [scoringOpen, setScoringOpen] = useState(false)
+  // Read by scheduled monitor runs without restarting the scheduler on every change
+  const scoringRef = useRef(scoring)
+  const analysisSettingsRef = useRef(analysisSettings)
+  const customCategoriesRef = useRef(customCategories)
+  const previousWorkspaceIdRef = useRef<string | undefined>(undefined)
+
+  const workspaceId = workspace?.id
+  // Viewers browse the workspace; only owners and editors run analyses or change its settings
+  const editable = workspace ? canEdit(workspace.role) : false
+
+  // The view, the analysis on screen, its tab, a comparison and the settings dialog all come from the URL
+  const location = useLocation()
+  const navigate = useNavigate()
+  const analysisMatch = useMatch(ROUTES.analysis)
+  const compareMatch = useMatch(ROUTES.compare)
+  const view = viewForPath(location.pathname)
+  const routeAnalysisId = analysisMatch?.params.id
+  const routeCategory = analysisMatch?.params.category
+  const compareBeforeId = compareMatch?.params.a
+  const compareAfterId = compareMatch?.params.b
+  const settingsOpen = location.pathname === ROUTES.settings && editable
 
   const loadHistory = useCallback(async () => {
-    if (!user) return
+    if (!workspaceId) return
     
     try {
-      const analyses = await blink.db.websiteAnalyses.list({
-        where: { userId: user.id },
-        orderBy: { createdAt: 'desc' },
-        limit: 10
-      })
-      
-      // Parse the stored analysis data
-      const parsedHistory = analyses.map(item => {
-        try {
-          const analysisData = JSON.parse(item.analysisData)
-          return {
-            id: item.id,
-            url: item.url,
-            timestamp: item.timestamp,
-            ...analysisData
-          }
-        } catch (error) {
-          console.error('Failed to parse analysis data:', error)
-          // Return a fallback structure
-          return {
-            id: item.id,
-            url: item.url,
-            timestamp: item.timestamp,
-            performance: { score: item.performanceScore || 0, metrics: { loadTime: 0, firstContentfulPaint: 0, largestContentfulPaint: 0, cumulativeLayoutShift: 0 }, recommendations: [] },
-            seo: { score: item.seoScore || 0, issues: [], recommendations: [] },
-            accessibility: { score: item.accessibilityScore || 0, violations: [], recommendations: [] },
-            design: { score: item.designScore || 0, analysis: { colorContrast: 0, typography: 0, layout: 0, responsiveness: 0 }, recommendations: [] },
-            ux: { score: item.uxScore || 0, metrics: { navigationClarity: 0, contentReadability: 0, mobileUsability: 0, interactionDesign: 0 }, recommendations: [] }
-          }
-        }
-      })
+      const parsedHistory = await listAnalyses(workspaceId, 10)
       
       setHistory(parsedHistory)
     } catch (error) {
       console.error('Failed to load history:', error)
       toast.error('Failed to load analysis history')
     }
-  }, [user])
+  }, [workspaceId])
 
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
@@ -143,200 +195,354 @@ function App() {
     return unsubscribe
   }, [])
 
+  // Pass a workspace id to switch to it, e.g. right after creating or joining it
+  const loadWorkspaces = useCallback(async (activeId?: string) => {
+    if (!user) return
+
+    try {
+      const [memberships, pending] = await Promise.all([listWorkspaces(user), listInvitations(user)])
+      const preferredId = activeId ?? localStorage.getItem(ACTIVE_WORKSPACE_KEY)
+      setWorkspaces(memberships)
+      setInvitations(pending)
+      setWorkspace(memberships.find(membership => membership.id === preferredId) ?? memberships[0])
+    } catch (error) {
+      console.error('Failed to load workspaces:', error)
+      toast.error('Failed to load workspaces')
+      setWorkspace(prev => prev ?? { id: user.id, name: 'Personal', personal: true, role: 'owner', createdAt: '' })
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadWorkspaces()
+  }, [loadWorkspaces])
+
+  // Results, trends and comparisons on screen belong to the workspace that was active. The first
+  // workspace to load leaves them alone, so a deep link opened on load still shows its analysis.
+  useEffect(() => {
+    if (!workspaceId) return
+
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, workspaceId)
+    const switched = previousWorkspaceIdRef.current !== undefined && previousWorkspaceIdRef.current !== workspaceId
+    previousWorkspaceIdRef.current = workspaceId
+    if (!switched) return
+
+    setResult(null)
+    setSiteResult(null)
+    setTrends(null)
+    setCompareSelection([])
+    if (routeAnalysisId || compareBeforeId) navigate(ROUTES.analyze)
+  }, [workspaceId, routeAnalysisId, compareBeforeId, navigate])
+
+  const showAnalysis = useCallback((analysis: AnalysisResult) => {
+    setResult(analysis)
+    // Pages of the crawl on screen keep their way back to its site report
+    setSiteResult(prev => analysis.siteReport
+      ? analysis
+      : prev?.siteReport?.pages.some(page => page.analysisId === analysis.id) ? prev : null)
+    setTrends(null)
+    setUrl(analysis.url)
+  }, [])
+
+  // Deep links and back/forward load whichever analysis the URL names
   useEffect(() => {
-    if (user) {
-      loadHistory()
+    if (!workspaceId || !routeAnalysisId || result?.id === routeAnalysisId) return
+    if (siteResult?.id === routeAnalysisId) {
+      showAnalysis(siteResult)
+      return
     }
-  }, [user, loadHistory])
 
-  const analyzeWebsite = async () => {
-    if (!url.trim()) {
-      toast.error('Please enter a valid URL')
+    let canceled = false
+    getAnalysis(routeAnalysisId, workspaceId)
+      .then(analysis => {
+        if (canceled) return
+        if (analysis) {
+          showAnalysis(analysis)
+        } else {
+          toast.error('Analysis not found')
+          navigate(ROUTES.analyze, { replace: true })
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load analysis:', error)
+        toast.error('Failed to load analysis')
+      })
+    return () => {
+      canceled = true
+    }
+  }, [workspaceId, routeAnalysisId, result?.id, siteResult, showAnalysis, navigate])
+
+  // Coming back to the bare analyze view clears the last analysis, unless one is running there
+  useEffect(() => {
+    if (location.pathname !== ROUTES.analyze || abortRef.current) return
+
+    setResult(null)
+    setSiteResult(null)
+    setTrends(null)
+  }, [location.key, location.pathname])
+
+  useEffect(() => {
+    if (!workspaceId || !compareBeforeId || !compareAfterId) {
+      setComparison(null)
       return
     }
 
-    // Validate URL format
-    let validUrl = url
+    let canceled = false
+    Promise.all([getAnalysis(compareBeforeId, workspaceId), getAnalysis(compareAfterId, workspaceId)])
+      .then(([before, after]) => {
+        if (canceled) return
+        if (before && after) {
+          setComparison([before, after])
+        } else {
+          toast.error('Analyses to compare were not found')
+          navigate(ROUTES.analyze, { replace: true })
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load comparison:', error)
+        toast.error('Failed to load comparison')
+      })
+    return () => {
+      canceled = true
+    }
+  }, [workspaceId, compareBeforeId, compareAfterId, navigate])
+
+  // Closes a route that was opened over another one (settings, a comparison): back to where it was opened
+  // from, or to the analyze view when the URL was visited directly
+  const leaveRoute = () => {
+    if (location.key === 'default') {
+      navigate(ROUTES.analyze, { replace: true })
+    } else {
+      navigate(-1)
+    }
+  }
+
+  const openAnalysis = (analysis: AnalysisResult) => {
+    showAnalysis(analysis)
+    navigate(analysisPath(analysis.id))
+  }
+
+  useEffect(() => {
+    if (!workspaceId) return
+
+    // Older analyses need their summary columns before server-side filters and stats can see them
+    backfillAnalysisSummaries(workspaceId)
+      .catch(error => console.error('Failed to backfill analysis summaries:', error))
+      .finally(loadHistory)
+  }, [workspaceId, loadHistory])
+
+  const loadStats = useCallback(async () => {
+    if (!workspaceId) return
+
     try {
-      if (!url.startsWith('http://') && !url.startsWith('https://')) {
-        validUrl = `https://${url}`
-      }
-      new URL(validUrl)
-    } catch {
+      setStats(await getPortfolioStats(workspaceId, scoring.grades))
+    } catch (error) {
+      console.error('Failed to load portfolio stats:', error)
+    }
+  }, [workspaceId, scoring.grades])
+
+  // Recomputed whenever the recent history reloads, i.e. after every save or delete
+  useEffect(() => {
+    loadStats()
+  }, [loadStats, history])
+
+  const loadCustomCategories = useCallback(async () => {
+    if (!workspaceId) return
+
+    try {
+      const categories = await listCustomCategories(workspaceId)
+      setCustomCategories(categories)
+      setAnalysisSettings(prev => withExistingCategories(prev, categories))
+    } catch (error) {
+      console.error('Failed to load custom categories:', error)
+      toast.error('Failed to load custom categories')
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    loadCustomCategories()
+  }, [loadCustomCategories])
+
+  useEffect(() => {
+    if (!workspaceId) return
+
+    getScoringConfig(workspaceId)
+      .then(setScoring)
+      .catch(error => {
+        console.error('Failed to load scoring:', error)
+        toast.error('Failed to load scoring settings')
+      })
+  }, [workspaceId])
+
+  useEffect(() => {
+    scoringRef.current = scoring
+    analysisSettingsRef.current = analysisSettings
+    customCategoriesRef.current = customCategories
+  }, [scoring, analysisSettings, customCategories])
+
+  const loadInterruptedRun = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setInterruptedRun(await getInterruptedRun(user.id))
+    } catch (error) {
+      console.error('Failed to load interrupted analysis:', error)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadInterruptedRun()
+  }, [loadInterruptedRun])
+
+  // The active workspace's monitors are checked in the background while the app is open, by members
+  // who are allowed to save analyses to it
+  useEffect(() => {
+    if (!workspaceId || !editable) return
+
+    const monitorScheduler = createMonitorScheduler({
+      clock: systemClock,
+      loadMonitors: () => listMonitors(workspaceId),
+      saveMonitor: (monitor) => saveMonitor(monitor, workspaceId),
+      claimRun: claimMonitorRun,
+      runAnalysis: async (monitorUrl) => {
+        const analysisResult = await runAnalysis(monitorUrl, {
+          settings: analysisSettingsRef.current,
+          customCategories: customCategoriesRef.current,
+          scoring: scoringRef.current,
+          cache: { workspaceId }
+        })
+        await saveAnalysis(analysisResult, workspaceId)
+        await loadHistory()
+        return analysisResult
+      },
+      getAnalysis: (id) => getAnalysis(id, workspaceId),
+      onRegression: async (monitor, analysisResult, alerts) => {
+        const messages = alerts.map(describeAlert)
+        setNotifications(prev => [{
+          id: `notification_${crypto.randomUUID()}`,
+          monitorId: monitor.id,
+          url: monitor.url,
+          analysisId: analysisResult.id,
+          messages,
+          createdAt: Date.now(),
+          read: false
+        }, ...prev])
+        toast.error(`Regression on ${hostnameOf(monitor.url)}: ${messages[0]}`)
+
+        try {
+          await postRegressionWebhook(monitor, analysisResult, alerts)
+        } catch (error) {
+          console.error('Failed to deliver regression webhook:', error)
+        }
+      },
+      onError: (monitor, error) => console.error(`Monitor run failed for ${monitor.url}:`, error)
+    })
+
+    monitorScheduler.start()
+    setScheduler(monitorScheduler)
+    return () => {
+      monitorScheduler.stop()
+      setScheduler(null)
+    }
+  }, [workspaceId, editable, loadHistory])
+
+  const openNotification = async (notification: MonitorNotification) => {
+    setNotifications(prev => prev.map(item => item.id === notification.id ? { ...item, read: true } : item))
+
+    navigate(analysisPath(notification.analysisId))
+  }
+
+  // Pass an interrupted run to pick it up from its last checkpoint
+  const analyzeWebsite = async (resumeRun?: AnalysisRun, refresh = forceRefresh) => {
+    if (!user || !workspaceId) return
+
+    const validUrl = resumeRun ? resumeRun.url : normalizeUrl(url)
+    if (!validUrl) {
       toast.error('Please enter a valid URL')
       return
     }
 
+    const controller = new AbortController()
+    abortRef.current = controller
     setAnalyzing(true)
     setProgress(0)
     setResult(null)
+    setSiteResult(null)
+    setTrends(null)
+    setInterruptedRun(null)
+    if (resumeRun) setUrl(resumeRun.url)
+    if (location.pathname !== ROUTES.analyze) navigate(ROUTES.analyze)
 
+    let recorder: RunRecorder | null = null
     try {
-      // Step 1: Scrape website content
-      setCurrentStep('Analyzing website content...')
-      setProgress(20)
-      
-      const { markdown, metadata } = await blink.data.scrape(validUrl)
-      
-      // Step 2: Take screenshot for visual analysis
-      setCurrentStep('Capturing website screenshot...')
-      setProgress(40)
-      
-      const screenshotUrl = await blink.data.screenshot(validUrl, {
-        fullPage: true,
-        width: 1920,
-        height: 1080
-      })
-
-      // Step 3: AI Analysis
-      setCurrentStep('Running AI analysis...')
-      setProgress(60)
-
-      const analysisPrompt = `
-        Analyze this website comprehensively and provide detailed insights:
-        
-        URL: ${validUrl}
-        Title: ${metadata.title || 'No title'}
-        Description: ${metadata.description || 'No description'}
-        
-        Content Preview:
-        ${markdown.substring(0, 2000)}...
-        
-        Please analyze and score (0-100) the following areas:
-        1. Performance (load speed, optimization)
-        2. SEO (meta tags, structure, content)
-        3. Accessibility (WCAG compliance, usability)
-        4. Design (visual appeal, consistency, branding)
-        5. User Experience (navigation, content clarity, mobile-friendliness)
-        
-        For each area, provide specific recommendations for improvement.
-        Also identify any critical issues that need immediate attention.
-        
-        Provide realistic scores and detailed, actionable recommendations.
-      `
-
-      const { object: analysis } = await blink.ai.generateObject({
-        prompt: analysisPrompt,
-        schema: {
-          type: 'object',
-          properties: {
-            performance: {
-              type: 'object',
-              properties: {
-                score: { type: 'number' },
-                metrics: {
-                  type: 'object',
-                  properties: {
-                    loadTime: { type: 'number' },
-                    firstContentfulPaint: { type: 'number' },
-                    largestContentfulPaint: { type: 'number' },
-                    cumulativeLayoutShift: { type: 'number' }
-                  }
-                },
-                recommendations: { type: 'array', items: { type: 'string' } }
-              }
-            },
-            seo: {
-              type: 'object',
-              properties: {
-                score: { type: 'number' },
-                issues: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      type: { type: 'string' },
-                      message: { type: 'string' },
-                      impact: { type: 'string' }
-                    }
-                  }
-                },
-                recommendations: { type: 'array', items: { type: 'string' } }
-              }
-            },
-            accessibility: {
-              type: 'object',
-              properties: {
-                score: { type: 'number' },
-                violations: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      severity: { type: 'string' },
-                      description: { type: 'string' },
-                      element: { type: 'string' }
-                    }
-                  }
-                },
-                recommendations: { type: 'array', items: { type: 'string' } }
-              }
-            },
-            design: {
-              type: 'object',
-              properties: {
-                score: { type: 'number' },
-                analysis: {
-                  type: 'object',
-                  properties: {
-                    colorContrast: { type: 'number' },
-                    typography: { type: 'number' },
-                    layout: { type: 'number' },
-                    responsiveness: { type: 'number' }
-                  }
-                },
-                recommendations: { type: 'array', items: { type: 'string' } }
-              }
-            },
-            ux: {
-              type: 'object',
-              properties: {
-                score: { type: 'number' },
-                metrics: {
-                  type: 'object',
-                  properties: {
-                    navigationClarity: { type: 'number' },
-                    contentReadability: { type: 'number' },
-                    mobileUsability: { type: 'number' },
-                    interactionDesign: { type: 'number' }
-                  }
-                },
-                recommendations: { type: 'array', items: { type: 'string' } }
-              }
-            }
+      let finishedId: string
+      if (crawlMode && !resumeRun) {
+        const { site, pages } = await crawlSite(validUrl, {
+          maxPages: crawlMaxPages,
+          maxDepth: crawlMaxDepth,
+          settings: analysisSettings,
+          customCategories,
+          scoring,
+          cache: { workspaceId, forceRefresh: refresh },
+          signal: controller.signal,
+          onPageStart: (pageUrl, index, total) => {
+            setCurrentStep(`Analyzing page ${index + 1} of ${total}: ${pageUrl}`)
+            setProgress(Math.round((index / total) * 90))
           }
+        })
+
+        setCurrentStep('Saving site report...')
+        await saveAnalysis(site, workspaceId, { kind: 'crawl' })
+        await Promise.all(pages.map(page => saveAnalysis(page, workspaceId, { parentId: site.id })))
+
+        setProgress(100)
+        setResult(site)
+        setSiteResult(site)
+        finishedId = site.id
+      } else {
+        // Single-page runs are checkpointed so a reload can resume them
+        const run = resumeRun ?? {
+          id: `run_${Date.now()}`,
+          url: validUrl,
+          workspaceId,
+          settings: analysisSettings,
+          customCategories,
+          scoring
         }
-      })
+        recorder = createRunRecorder(run, user.id)
+        const analysisResult = await runAnalysis(validUrl, {
+          settings: run.settings,
+          customCategories: run.customCategories,
+          scoring: run.scoring,
+          resume: resumeRun?.checkpoint,
+          // A resumed run saves to the workspace it was started in
+          cache: { workspaceId: run.workspaceId, forceRefresh: refresh },
+          signal: controller.signal,
+          onCheckpoint: recorder.checkpoint,
+          onStep: (step, stepProgress) => {
+            setCurrentStep(step)
+            setProgress(stepProgress)
+          },
+          onPartialResult: (partialResult, pending) => {
+            setResult(partialResult)
+            setPendingCategories(pending)
+          }
+        })
 
-      // Step 4: Save results
-      setCurrentStep('Saving analysis results...')
-      setProgress(80)
+        // Step 4: Save results
+        setCurrentStep('Saving analysis results...')
+        setProgress(90)
 
-      const analysisResult: AnalysisResult = {
-        id: `analysis_${Date.now()}`,
-        url: validUrl,
-        timestamp: Date.now(),
-        ...analysis
-      }
+        await saveAnalysis(analysisResult, run.workspaceId)
+        await recorder.discard()
 
-      // Save to database
-      await blink.db.websiteAnalyses.create({
-        id: analysisResult.id,
-        userId: user.id,
-        url: analysisResult.url,
-        timestamp: analysisResult.timestamp,
-        performanceScore: analysisResult.performance.score,
-        seoScore: analysisResult.seo.score,
-        accessibilityScore: analysisResult.accessibility.score,
-        designScore: analysisResult.design.score,
-        uxScore: analysisResult.ux.score,
-        analysisData: JSON.stringify(analysisResult),
-        createdAt: new Date().toISOString()
-      })
+        setProgress(100)
+        setCurrentStep('Analysis complete!')
+        setResult(analysisResult)
+        finishedId = analysisResult.id
+      }
 
-      setProgress(100)
-      setCurrentStep('Analysis complete!')
-      setResult(analysisResult)
+      // The saved analysis gets its own URL, unless the user has moved on to another view meanwhile
+      if (window.location.pathname === ROUTES.analyze) navigate(analysisPath(finishedId), { replace: true })
       
       // Refresh history
       await loadHistory()
@@ -344,63 +550,154 @@ function App() {
       toast.success('Website analysis completed!')
 
     } catch (error) {
-      console.error('Analysis failed:', error)
-      toast.error('Analysis failed. Please try again.')
+      setResult(null)
+      if (controller.signal.aborted) {
+        // A canceled run is not offered for resuming after a reload
+        await recorder?.discard()
+        toast('Analysis canceled')
+      } else {
+        console.error('Analysis failed:', error)
+        toast.error('Analysis failed. Please try again.')
+        // Whatever finished before the failure stays checkpointed and can be resumed
+        await loadInterruptedRun()
+      }
     } finally {
+      abortRef.current = null
       setAnalyzing(false)
       setProgress(0)
       setCurrentStep('')
+      setPendingCategories([])
     }
   }
 
-  const getScoreColor = (score: number) => {
-    if (score >= 80) return 'text-green-600'
-    if (score >= 60) return 'text-yellow-600'
-    return 'text-red-600'
+  const cancelAnalysis = () => {
+    abortRef.current?.abort()
   }
 
-  const getScoreBadgeVariant = (score: number): "default" | "secondary" | "destructive" => {
-    if (score >= 80) return 'default'
-    if (score >= 60) return 'secondary'
-    return 'destructive'
+  const discardInterruptedRun = async () => {
+    if (!interruptedRun) return
+
+    try {
+      await deleteRun(interruptedRun.id)
+      setInterruptedRun(null)
+    } catch (error) {
+      console.error('Failed to discard interrupted analysis:', error)
+      toast.error('Failed to discard interrupted analysis')
+    }
   }
 
-  const loadHistoryItem = (item: AnalysisResult) => {
-    setResult(item)
-    setUrl(item.url)
+  const loadTrends = async () => {
+    if (!workspaceId || !result) return
+
+    try {
+      setTrends(await listSiteAnalyses(workspaceId, hostnameOf(result.url)))
+    } catch (error) {
+      console.error('Failed to load trends:', error)
+      toast.error('Failed to load site trends')
+    }
   }
 
-  const exportReport = () => {
-    if (!result) return
-    
-    const reportData = {
-      url: result.url,
-      timestamp: new Date(result.timestamp).toISOString(),
-      scores: {
-        performance: result.performance.score,
-        seo: result.seo.score,
-        accessibility: result.accessibility.score,
-        design: result.design.score,
-        ux: result.ux.score,
-        overall: Math.round((result.performance.score + result.seo.score + result.accessibility.score + result.design.score + result.ux.score) / 5)
-      },
-      analysis: result
+  const isSelectedForCompare = (item: AnalysisResult) =>
+    compareSelection.some(selected => selected.id === item.id)
+
+  // Keeps at most two analyses selected, dropping the oldest pick
+  const toggleCompare = (item: AnalysisResult) => {
+    setCompareSelection(selection => selection.some(selected => selected.id === item.id)
+      ? selection.filter(selected => selected.id !== item.id)
+      : [...selection, item].slice(-2))
+  }
+
+  const startComparison = () => {
+    if (compareSelection.length !== 2) return
+    const [first, second] = [...compareSelection].sort((a, b) => a.timestamp - b.timestamp)
+    navigate(comparePath(first.id, second.id))
+  }
+
+  const openCrawlPage = (analysisId: string) => {
+    navigate(analysisPath(analysisId))
+  }
+
+
+  const getScoreColor = (score: number) => scoreColorClass(score, scoring.thresholds)
+
+  const getScoreBadgeVariant = (score: number) => scoreBadgeVariant(score, scoring.thresholds)
+
+  const getGrade = (score: number) => scoreGrade(score, scoring.grades)
+
+  const isPending = (categoryId: string) => pendingCategories.includes(categoryId)
+
+  // Custom categories only join the result once scored, so pending ones come from their definitions
+  const overviewCategories = result
+    ? [...resultCategoryDefinitions(result), ...customCategories.filter(category => isPending(category.id))]
+    : []
+
+  // e.g. "Performance ×2, SEO ×1", so a historic overall score can be traced back to its weights
+  const describeWeights = (analysis: AnalysisResult) =>
+    resultCategoryIds(analysis)
+      .map(id => `${categoryLabel(analysis, id)} ×${weightOf(analysis.weights ?? {}, id)}`)
+      .join(', ')
+
+  const exportReport = async (format: ExportFormat | 'html' | 'print') => {
+    if (!result || !workspaceId) return
+
+    if (format !== 'html' && format !== 'print') {
+      const serializer = serializers[format]
+      downloadFile(serializer.serialize(result), reportFileName(result, serializer.extension), serializer.mimeType)
+      toast.success('Report exported successfully!')
+      return
+    }
+
+    try {
+      const html = renderReportHtml(result, await getBranding(workspaceId), scoring)
+      if (format === 'html') {
+        downloadFile(html, reportFileName(result, 'html'), 'text/html')
+        toast.success('Report exported successfully!')
+      } else {
+        await printReport(html)
+      }
+    } catch (error) {
+      console.error('Failed to export report:', error)
+      toast.error('Failed to export report')
     }
-    
-    const blob = new Blob([JSON.stringify(reportData, null, 2)], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `website-analysis-${new Date(result.timestamp).toISOString().split('T')[0]}.json`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
-    
-    toast.success('Report exported successfully!')
   }
 
-  if (loading) {
+  const createNewWorkspace = async (name: string) => {
+    if (!user) return
+
+    try {
+      const created = await createWorkspace(name, user)
+      await loadWorkspaces(created.id)
+      toast.success(`Created ${created.name}`)
+    } catch (error) {
+      console.error('Failed to create workspace:', error)
+      toast.error('Failed to create workspace')
+    }
+  }
+
+  const joinWorkspace = async (invitation: WorkspaceInvitation) => {
+    if (!user) return
+
+    try {
+      await acceptInvitation(invitation.member, user)
+      await loadWorkspaces(invitation.workspace.id)
+      toast.success(`Joined ${invitation.workspace.name}`)
+    } catch (error) {
+      console.error('Failed to accept invitation:', error)
+      toast.error('Failed to accept invitation')
+    }
+  }
+
+  const declineInvitation = async (invitation: WorkspaceInvitation) => {
+    try {
+      await removeMember(invitation.member.id)
+      setInvitations(prev => prev.filter(item => item.member.id !== invitation.member.id))
+    } catch (error) {
+      console.error('Failed to decline invitation:', error)
+      toast.error('Failed to decline invitation')
+    }
+  }
+
+  if (loading || (user && !workspace)) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5 flex items-center justify-center">
         <div className="text-center">
@@ -437,9 +734,56 @@ function App() {
     )
   }
 
+  if (!workspace) return null
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
       <Toaster position="top-right" />
+      <WorkspaceMembersDialog
+        user={user}
+        workspace={workspace}
+        open={membersOpen}
+        onOpenChange={setMembersOpen}
+        onChanged={() => loadWorkspaces(workspace.id)}
+        onDeleted={() => loadWorkspaces(user.id)}
+      />
+      <BrandingDialog workspaceId={workspace.id} open={brandingOpen} onOpenChange={setBrandingOpen} />
+      {result && (
+        <ShareDialog
+          analysis={result}
+          workspaceId={workspace.id}
+          userId={user.id}
+          open={shareOpen}
+          onOpenChange={setShareOpen}
+        />
+      )}
+      <AnalysisSettingsDialog
+        workspaceId={workspace.id}
+        open={settingsOpen}
+        onOpenChange={(open) => !open && leaveRoute()}
+        settings={analysisSettings}
+        onApply={setAnalysisSettings}
+        customCategories={customCategories}
+        onManageCategories={() => {
+          leaveRoute()
+          setCategoriesOpen(true)
+        }}
+      />
+      <CustomCategoriesDialog
+        workspaceId={workspace.id}
+        open={categoriesOpen}
+        onOpenChange={setCategoriesOpen}
+        categories={customCategories}
+        onChange={loadCustomCategories}
+      />
+      <ScoringDialog
+        workspaceId={workspace.id}
+        open={scoringOpen}
+        onOpenChange={setScoringOpen}
+        categories={[...BUILT_IN_CATEGORIES, ...customCategories]}
+        config={scoring}
+        onSaved={setScoring}
+      />
       
       {/* Header */}
       <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-50">
@@ -455,6 +799,44 @@ function App() {
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              <nav className="flex items-center space-x-1">
+                <Button variant={view === 'analyze' ? 'secondary' : 'ghost'} size="sm" onClick={() => navigate(result && !analyzing ? analysisPath(result.id) : ROUTES.analyze)}>
+                  <Search className="h-4 w-4 mr-2" />
+                  Analyze
+                </Button>
+                <Button variant={view === 'history' ? 'secondary' : 'ghost'} size="sm" onClick={() => navigate(ROUTES.history)}>
+                  <History className="h-4 w-4 mr-2" />
+                  History
+                </Button>
+                <Button variant={view === 'bulk' ? 'secondary' : 'ghost'} size="sm" onClick={() => navigate(ROUTES.bulk)}>
+                  <Layers className="h-4 w-4 mr-2" />
+                  Bulk
+                </Button>
+                <Button variant={view === 'benchmarks' ? 'secondary' : 'ghost'} size="sm" onClick={() => navigate(ROUTES.benchmarks)}>
+                  <Trophy className="h-4 w-4 mr-2" />
+                  Benchmarks
+                </Button>
+                <Button variant={view === 'monitors' ? 'secondary' : 'ghost'} size="sm" onClick={() => navigate(ROUTES.monitors)}>
+                  <Activity className="h-4 w-4 mr-2" />
+                  Monitors
+                </Button>
+              </nav>
+              <MonitorNotifications
+                notifications={notifications}
+                onOpen={openNotification}
+                onMarkAllRead={() => setNotifications(prev => prev.map(item => ({ ...item, read: true })))}
+              />
+              <WorkspaceSwitcher
+                workspaces={workspaces}
+                current={workspace}
+                invitations={invitations}
+                disabled={analyzing}
+                onSelect={setWorkspace}
+                onCreate={createNewWorkspace}
+                onManage={() => setMembersOpen(true)}
+                onAccept={joinWorkspace}
+                onDecline={declineInvitation}
+              />
               <span className="text-sm text-muted-foreground hidden sm:block">Welcome, {user.email}</span>
               <Button variant="outline" size="sm" onClick={() => blink.auth.logout()}>
                 Sign Out
@@ -466,8 +848,55 @@ function App() {
 
       <div className="container mx-auto px-4 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          {view === 'history' && (
+            <div className="lg:col-span-3">
+              <HistoryBrowser
+                workspaceId={workspace.id}
+                customCategories={customCategories}
+                grades={scoring.grades}
+                getScoreColor={getScoreColor}
+                getGrade={getGrade}
+                onOpen={openAnalysis}
+                onChanged={loadHistory}
+                readOnly={!editable}
+              />
+            </div>
+          )}
+
+          {/* Kept mounted so a running batch survives switching views */}
+          <div className={`lg:col-span-3 ${view === 'bulk' ? '' : 'hidden'}`}>
+            <BulkAnalysisPanel
+              workspaceId={workspace.id}
+              settings={analysisSettings}
+              customCategories={customCategories}
+              scoring={scoring}
+              getScoreColor={getScoreColor}
+              onSaved={loadHistory}
+              onOpen={openAnalysis}
+              readOnly={!editable}
+            />
+          </div>
+
+          {/* Kept mounted so a running benchmark survives switching views */}
+          <div className={`lg:col-span-3 ${view === 'benchmarks' ? '' : 'hidden'}`}>
+            <BenchmarkPanel
+              workspaceId={workspace.id}
+              settings={analysisSettings}
+              customCategories={customCategories}
+              scoring={scoring}
+              getScoreColor={getScoreColor}
+              readOnly={!editable}
+            />
+          </div>
+
+          {view === 'monitors' && (
+            <div className="lg:col-span-3">
+              <MonitorsPanel workspaceId={workspace.id} scheduler={scheduler} readOnly={!editable} />
+            </div>
+          )}
+
           {/* Main Analysis Panel */}
-          <div className="lg:col-span-3 space-y-6">
+          <div className={`lg:col-span-3 space-y-6 ${view === 'analyze' ? '' : 'hidden'}`}>
             {/* URL Input Section */}
             <Card>
               <CardHeader>
@@ -485,13 +914,13 @@ function App() {
                     placeholder="https://example.com"
                     value={url}
                     onChange={(e) => setUrl(e.target.value)}
-                    onKeyPress={(e) => e.key === 'Enter' && !analyzing && analyzeWebsite()}
+                    onKeyPress={(e) => e.key === 'Enter' && !analyzing && editable && analyzeWebsite()}
                     disabled={analyzing}
                     className="flex-1"
                   />
                   <Button 
-                    onClick={analyzeWebsite} 
-                    disabled={analyzing || !url.trim()}
+                    onClick={() => analyzeWebsite()} 
+                    disabled={analyzing || !editable || !url.trim()}
                     className="px-8"
                   >
                     {analyzing ? (
@@ -506,8 +935,79 @@ function App() {
                       </>
                     )}
                   </Button>
+                  {analyzing && (
+                    <Button variant="outline" onClick={cancelAnalysis}>
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
+                  <Button variant="outline" onClick={() => navigate(ROUTES.settings)} disabled={analyzing || !editable} title="Analysis settings">
+                    <Settings2 className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" onClick={() => setScoringOpen(true)} disabled={analyzing || !editable} title="Scoring">
+                    <Scale className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="mt-4 flex flex-wrap items-center gap-4 text-sm">
+                  <div className="flex items-center space-x-2">
+                    <Switch id="crawl-mode" checked={crawlMode} onCheckedChange={setCrawlMode} disabled={analyzing} />
+                    <Label htmlFor="crawl-mode">Crawl site</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Switch id="force-refresh" checked={forceRefresh} onCheckedChange={setForceRefresh} disabled={analyzing} />
+                    <Label htmlFor="force-refresh">Force refresh</Label>
+                  </div>
+                  {crawlMode && (
+                    <>
+                      <div className="flex items-center space-x-2">
+                        <Label htmlFor="crawl-max-pages" className="text-muted-foreground">Max pages</Label>
+                        <Input
+                          id="crawl-max-pages"
+                          type="number"
+                          min={1}
+                          max={50}
+                          value={crawlMaxPages}
+                          onChange={(e) => setCrawlMaxPages(Math.min(50, Math.max(1, Number(e.target.value) || 1)))}
+                          disabled={analyzing}
+                          className="h-8 w-20"
+                        />
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Label htmlFor="crawl-max-depth" className="text-muted-foreground">Max depth</Label>
+                        <Input
+                          id="crawl-max-depth"
+                          type="number"
+                          min={0}
+                          max={5}
+                          value={crawlMaxDepth}
+                          onChange={(e) => setCrawlMaxDepth(Math.min(5, Math.max(0, Number(e.target.value) || 0)))}
+                          disabled={analyzing}
+                          className="h-8 w-20"
+                        />
+                      </div>
+                    </>
+                  )}
                 </div>
 
+                {interruptedRun && !analyzing && (
+                  <Alert className="mt-4">
+                    <History className="h-4 w-4" />
+                    <AlertDescription className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                      <span>
+                        An analysis of {hostnameOf(interruptedRun.url)} was interrupted
+                        {interruptedRun.checkpoint.page ? ' after the page was captured' : ''}
+                        {Object.keys(interruptedRun.checkpoint.completed).length > 0 &&
+                          ` with ${Object.keys(interruptedRun.checkpoint.completed).length} categories finished`}.
+                      </span>
+                      <span className="flex space-x-2">
+                        <Button size="sm" onClick={() => analyzeWebsite(interruptedRun)}>Resume</Button>
+                        <Button size="sm" variant="ghost" onClick={discardInterruptedRun}>Discard</Button>
+                      </span>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 {analyzing && (
                   <div className="mt-6 space-y-3">
                     <div className="flex items-center justify-between text-sm">
@@ -520,325 +1020,162 @@ function App() {
               </CardContent>
             </Card>
 
+            {comparison && (
+              <CompareView
+                before={comparison[0]}
+                after={comparison[1]}
+                onClose={leaveRoute}
+              />
+            )}
+
             {/* Analysis Results */}
             {result && (
               <div className="space-y-6">
-                {/* Overview Cards */}
-                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-                  <Card>
-                    <CardContent className="p-4 text-center">
-                      <div className="flex items-center justify-center mb-2">
-                        <Zap className="h-5 w-5 text-orange-500" />
-                      </div>
-                      <div className={`text-2xl font-bold ${getScoreColor(result.performance.score)}`}>
-                        {result.performance.score}
-                      </div>
-                      <div className="text-xs text-muted-foreground">Performance</div>
-                    </CardContent>
-                  </Card>
-
-                  <Card>
-                    <CardContent className="p-4 text-center">
-                      <div className="flex items-center justify-center mb-2">
-                        <TrendingUp className="h-5 w-5 text-blue-500" />
-                      </div>
-                      <div className={`text-2xl font-bold ${getScoreColor(result.seo.score)}`}>
-                        {result.seo.score}
-                      </div>
-                      <div className="text-xs text-muted-foreground">SEO</div>
-                    </CardContent>
-                  </Card>
-
-                  <Card>
-                    <CardContent className="p-4 text-center">
-                      <div className="flex items-center justify-center mb-2">
-                        <Shield className="h-5 w-5 text-green-500" />
-                      </div>
-                      <div className={`text-2xl font-bold ${getScoreColor(result.accessibility.score)}`}>
-                        {result.accessibility.score}
-                      </div>
-                      <div className="text-xs text-muted-foreground">Accessibility</div>
-                    </CardContent>
-                  </Card>
-
-                  <Card>
-                    <CardContent className="p-4 text-center">
-                      <div className="flex items-center justify-center mb-2">
-                        <Palette className="h-5 w-5 text-purple-500" />
-                      </div>
-                      <div className={`text-2xl font-bold ${getScoreColor(result.design.score)}`}>
-                        {result.design.score}
-                      </div>
-                      <div className="text-xs text-muted-foreground">Design</div>
-                    </CardContent>
-                  </Card>
+                {siteResult && result !== siteResult && (
+                  <Button variant="ghost" size="sm" onClick={() => navigate(analysisPath(siteResult.id))}>
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Back to site report for {new URL(siteResult.url).hostname}
+                  </Button>
+                )}
 
-                  <Card>
-                    <CardContent className="p-4 text-center">
-                      <div className="flex items-center justify-center mb-2">
-                        <Users className="h-5 w-5 text-pink-500" />
-                      </div>
-                      <div className={`text-2xl font-bold ${getScoreColor(result.ux.score)}`}>
-                        {result.ux.score}
-                      </div>
-                      <div className="text-xs text-muted-foreground">User Experience</div>
-                    </CardContent>
-                  </Card>
-                </div>
+                {/* Overview Cards */}
+                <ScoreOverview
+                  result={result}
+                  categories={overviewCategories}
+                  pendingCategories={pendingCategories}
+                  getScoreColor={getScoreColor}
+                />
 
                 {/* Detailed Analysis */}
-                <Card>
-                  <CardHeader>
-                    <div className="flex flex-col sm:flex-row sm:items-center justify-between space-y-4 sm:space-y-0">
-                      <div>
-                        <CardTitle>Detailed Analysis</CardTitle>
-                        <CardDescription>
-                          Comprehensive insights and recommendations for {result.url}
-                        </CardDescription>
-                      </div>
-                      <div className="flex flex-col sm:flex-row items-stretch sm:items-center space-y-2 sm:space-y-0 sm:space-x-2">
-                        <Button variant="outline" size="sm" onClick={exportReport}>
-                          <Download className="h-4 w-4 mr-2" />
-                          Export Report
-                        </Button>
-                        <Button variant="outline" size="sm" onClick={() => window.open(result.url, '_blank')}>
-                          <ExternalLink className="h-4 w-4 mr-2" />
-                          Visit Site
-                        </Button>
-                      </div>
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <Tabs defaultValue="performance" className="w-full">
-                      <TabsList className="grid w-full grid-cols-5">
-                        <TabsTrigger value="performance">Performance</TabsTrigger>
-                        <TabsTrigger value="seo">SEO</TabsTrigger>
-                        <TabsTrigger value="accessibility">Accessibility</TabsTrigger>
-                        <TabsTrigger value="design">Design</TabsTrigger>
-                        <TabsTrigger value="ux">UX</TabsTrigger>
-                      </TabsList>
-
-                      <TabsContent value="performance" className="space-y-4">
-                        <div className="flex items-center justify-between">
-                          <h3 className="text-lg font-semibold">Performance Analysis</h3>
-                          <Badge variant={getScoreBadgeVariant(result.performance.score)}>
-                            Score: {result.performance.score}/100
-                          </Badge>
-                        </div>
-                        
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                          <div className="text-center p-3 bg-muted/50 rounded-lg">
-                            <div className="text-sm text-muted-foreground">Load Time</div>
-                            <div className="text-lg font-semibold">{result.performance.metrics.loadTime}s</div>
-                          </div>
-                          <div className="text-center p-3 bg-muted/50 rounded-lg">
-                            <div className="text-sm text-muted-foreground">FCP</div>
-                            <div className="text-lg font-semibold">{result.performance.metrics.firstContentfulPaint}s</div>
-                          </div>
-                          <div className="text-center p-3 bg-muted/50 rounded-lg">
-                            <div className="text-sm text-muted-foreground">LCP</div>
-                            <div className="text-lg font-semibold">{result.performance.metrics.largestContentfulPaint}s</div>
-                          </div>
-                          <div className="text-center p-3 bg-muted/50 rounded-lg">
-                            <div className="text-sm text-muted-foreground">CLS</div>
-                            <div className="text-lg font-semibold">{result.performance.metrics.cumulativeLayoutShift}</div>
-                          </div>
-                        </div>
-
-                        <div>
-                          <h4 className="font-medium mb-3">Recommendations</h4>
-                          <div className="space-y-2">
-                            {result.performance.recommendations.map((rec, index) => (
-                              <Alert key={index}>
-                                <CheckCircle className="h-4 w-4" />
-                                <AlertDescription>{rec}</AlertDescription>
-                              </Alert>
-                            ))}
-                          </div>
-                        </div>
-                      </TabsContent>
-
-                      <TabsContent value="seo" className="space-y-4">
-                        <div className="flex items-center justify-between">
-                          <h3 className="text-lg font-semibold">SEO Analysis</h3>
-                          <Badge variant={getScoreBadgeVariant(result.seo.score)}>
-                            Score: {result.seo.score}/100
-                          </Badge>
-                        </div>
-
-                        {result.seo.issues.length > 0 && (
-                          <div>
-                            <h4 className="font-medium mb-3">Issues Found</h4>
-                            <div className="space-y-2">
-                              {result.seo.issues.map((issue, index) => (
-                                <Alert key={index} variant={issue.type === 'error' ? 'destructive' : 'default'}>
-                                  {issue.type === 'error' ? (
-                                    <XCircle className="h-4 w-4" />
-                                  ) : issue.type === 'warning' ? (
-                                    <AlertTriangle className="h-4 w-4" />
-                                  ) : (
-                                    <CheckCircle className="h-4 w-4" />
-                                  )}
-                                  <AlertDescription>
-                                    <div className="flex items-center justify-between">
-                                      <span>{issue.message}</span>
-                                      <Badge variant="outline" className="text-xs">
-                                        {issue.impact} impact
-                                      </Badge>
-                                    </div>
-                                  </AlertDescription>
-                                </Alert>
-                              ))}
-                            </div>
-                          </div>
-                        )}
-
+                {result.siteReport ? (
+                  <SiteReportPanel
+                    report={result.siteReport}
+                    categories={overviewCategories}
+                    getScoreColor={getScoreColor}
+                    onOpenPage={openCrawlPage}
+                  />
+                ) : (
+                  <Card>
+                    <CardHeader>
+                      <div className="flex flex-col sm:flex-row sm:items-center justify-between space-y-4 sm:space-y-0">
                         <div>
-                          <h4 className="font-medium mb-3">Recommendations</h4>
-                          <div className="space-y-2">
-                            {result.seo.recommendations.map((rec, index) => (
-                              <Alert key={index}>
-                                <CheckCircle className="h-4 w-4" />
-                                <AlertDescription>{rec}</AlertDescription>
-                              </Alert>
-                            ))}
+                          <div className="flex items-center space-x-2">
+                            <CardTitle>Detailed Analysis</CardTitle>
+                            {pendingCategories.length === 0 && (
+                              <Badge variant={getScoreBadgeVariant(overallScore(result))} title={`Weights: ${describeWeights(result)}`}>
+                                {overallScore(result)} · Grade {getGrade(overallScore(result))}
+                              </Badge>
+                            )}
                           </div>
+                          <CardDescription>
+                            Comprehensive insights and recommendations for {result.url}
+                          </CardDescription>
                         </div>
-                      </TabsContent>
-
-                      <TabsContent value="accessibility" className="space-y-4">
-                        <div className="flex items-center justify-between">
-                          <h3 className="text-lg font-semibold">Accessibility Analysis</h3>
-                          <Badge variant={getScoreBadgeVariant(result.accessibility.score)}>
-                            Score: {result.accessibility.score}/100
-                          </Badge>
-                        </div>
-
-                        {result.accessibility.violations.length > 0 && (
-                          <div>
-                            <h4 className="font-medium mb-3">Violations</h4>
-                            <div className="space-y-2">
-                              {result.accessibility.violations.map((violation, index) => (
-                                <Alert key={index} variant={violation.severity === 'critical' ? 'destructive' : 'default'}>
-                                  {violation.severity === 'critical' ? (
-                                    <XCircle className="h-4 w-4" />
-                                  ) : (
-                                    <AlertTriangle className="h-4 w-4" />
-                                  )}
-                                  <AlertDescription>
-                                    <div className="space-y-1">
-                                      <div className="flex items-center justify-between">
-                                        <span>{violation.description}</span>
-                                        <Badge variant="outline" className="text-xs">
-                                          {violation.severity}
-                                        </Badge>
-                                      </div>
-                                      <div className="text-xs text-muted-foreground">
-                                        Element: {violation.element}
-                                      </div>
-                                    </div>
-                                  </AlertDescription>
-                                </Alert>
+                        <div className="flex flex-col sm:flex-row items-stretch sm:items-center space-y-2 sm:space-y-0 sm:space-x-2">
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="outline" size="sm" disabled={analyzing}>
+                                <Download className="h-4 w-4 mr-2" />
+                                Export Report
+                                <ChevronDown className="h-4 w-4 ml-2" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => exportReport('html')}>
+                                <FileText className="h-4 w-4 mr-2" />
+                                Client report (HTML)
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => exportReport('print')}>
+                                <Printer className="h-4 w-4 mr-2" />
+                                Print client report
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                              {(Object.keys(serializers) as ExportFormat[]).map(format => (
+                                <DropdownMenuItem key={format} onClick={() => exportReport(format)}>
+                                  <FileDown className="h-4 w-4 mr-2" />
+                                  {serializers[format].label}
+                                </DropdownMenuItem>
                               ))}
-                            </div>
-                          </div>
-                        )}
-
-                        <div>
-                          <h4 className="font-medium mb-3">Recommendations</h4>
-                          <div className="space-y-2">
-                            {result.accessibility.recommendations.map((rec, index) => (
-                              <Alert key={index}>
-                                <CheckCircle className="h-4 w-4" />
-                                <AlertDescription>{rec}</AlertDescription>
-                              </Alert>
-                            ))}
-                          </div>
-                        </div>
-                      </TabsContent>
-
-                      <TabsContent value="design" className="space-y-4">
-                        <div className="flex items-center justify-between">
-                          <h3 className="text-lg font-semibold">Design Analysis</h3>
-                          <Badge variant={getScoreBadgeVariant(result.design.score)}>
-                            Score: {result.design.score}/100
-                          </Badge>
-                        </div>
-
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                          <div className="text-center p-3 bg-muted/50 rounded-lg">
-                            <div className="text-sm text-muted-foreground">Color Contrast</div>
-                            <div className="text-lg font-semibold">{result.design.analysis.colorContrast}/100</div>
-                          </div>
-                          <div className="text-center p-3 bg-muted/50 rounded-lg">
-                            <div className="text-sm text-muted-foreground">Typography</div>
-                            <div className="text-lg font-semibold">{result.design.analysis.typography}/100</div>
-                          </div>
-                          <div className="text-center p-3 bg-muted/50 rounded-lg">
-                            <div className="text-sm text-muted-foreground">Layout</div>
-                            <div className="text-lg font-semibold">{result.design.analysis.layout}/100</div>
-                          </div>
-                          <div className="text-center p-3 bg-muted/50 rounded-lg">
-                            <div className="text-sm text-muted-foreground">Responsiveness</div>
-                            <div className="text-lg font-semibold">{result.design.analysis.responsiveness}/100</div>
-                          </div>
-                        </div>
-
-                        <div>
-                          <h4 className="font-medium mb-3">Recommendations</h4>
-                          <div className="space-y-2">
-                            {result.design.recommendations.map((rec, index) => (
-                              <Alert key={index}>
-                                <CheckCircle className="h-4 w-4" />
-                                <AlertDescription>{rec}</AlertDescription>
-                              </Alert>
-                            ))}
-                          </div>
-                        </div>
-                      </TabsContent>
-
-                      <TabsContent value="ux" className="space-y-4">
-                        <div className="flex items-center justify-between">
-                          <h3 className="text-lg font-semibold">User Experience Analysis</h3>
-                          <Badge variant={getScoreBadgeVariant(result.ux.score)}>
-                            Score: {result.ux.score}/100
-                          </Badge>
-                        </div>
-
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                          <div className="text-center p-3 bg-muted/50 rounded-lg">
-                            <div className="text-sm text-muted-foreground">Navigation</div>
-                            <div className="text-lg font-semibold">{result.ux.metrics.navigationClarity}/100</div>
-                          </div>
-                          <div className="text-center p-3 bg-muted/50 rounded-lg">
-                            <div className="text-sm text-muted-foreground">Readability</div>
-                            <div className="text-lg font-semibold">{result.ux.metrics.contentReadability}/100</div>
-                          </div>
-                          <div className="text-center p-3 bg-muted/50 rounded-lg">
-                            <div className="text-sm text-muted-foreground">Mobile</div>
-                            <div className="text-lg font-semibold">{result.ux.metrics.mobileUsability}/100</div>
-                          </div>
-                          <div className="text-center p-3 bg-muted/50 rounded-lg">
-                            <div className="text-sm text-muted-foreground">Interaction</div>
-                            <div className="text-lg font-semibold">{result.ux.metrics.interactionDesign}/100</div>
-                          </div>
+                              {editable && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem onClick={() => setBrandingOpen(true)}>
+                                    <Brush className="h-4 w-4 mr-2" />
+                                    Report branding...
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                          {editable && (
+                            <Button variant="outline" size="sm" onClick={() => setShareOpen(true)} disabled={analyzing}>
+                              <Share2 className="h-4 w-4 mr-2" />
+                              Share
+                            </Button>
+                          )}
+                          <Button variant="outline" size="sm" onClick={() => toggleCompare(result)} disabled={analyzing}>
+                            <GitCompare className="h-4 w-4 mr-2" />
+                            {isSelectedForCompare(result) ? 'Remove from Compare' : 'Add to Compare'}
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={loadTrends}>
+                            <LineChart className="h-4 w-4 mr-2" />
+                            View Trends
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => window.open(result.url, '_blank')}>
+                            <ExternalLink className="h-4 w-4 mr-2" />
+                            Visit Site
+                          </Button>
                         </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      {result.cachedFrom && (
+                        <Alert className="mb-4">
+                          <History className="h-4 w-4" />
+                          <AlertDescription className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                            <span>
+                              Page content is unchanged, so the analysis from{' '}
+                              {new Date(result.cachedFrom.timestamp).toLocaleString()} was reused
+                            </span>
+                            <Button size="sm" variant="outline" onClick={() => analyzeWebsite(undefined, true)} disabled={analyzing || !editable}>
+                              <RefreshCw className="h-4 w-4 mr-2" />
+                              Refresh
+                            </Button>
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                      {result.validationWarnings && result.validationWarnings.length > 0 && (
+                        <Alert className="mb-4">
+                          <AlertTriangle className="h-4 w-4" />
+                          <AlertDescription>
+                            <details>
+                              <summary className="cursor-pointer">
+                                Some AI output was missing or invalid and has been corrected or left out ({result.validationWarnings.length})
+                              </summary>
+                              <ul className="mt-2 list-disc pl-4 text-xs text-muted-foreground">
+                                {result.validationWarnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                              </ul>
+                            </details>
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                      {/* Tabs of a saved analysis are part of its URL; a running one switches tabs in place */}
+                      <AnalysisTabs
+                        key={result.id}
+                        result={result}
+                        pendingCategories={pendingCategories}
+                        category={routeCategory}
+                        onCategoryChange={routeAnalysisId === result.id
+                          ? (category) => navigate(analysisPath(result.id, category))
+                          : undefined}
+                        getScoreColor={getScoreColor}
+                        getScoreBadgeVariant={getScoreBadgeVariant}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
 
-                        <div>
-                          <h4 className="font-medium mb-3">Recommendations</h4>
-                          <div className="space-y-2">
-                            {result.ux.recommendations.map((rec, index) => (
-                              <Alert key={index}>
-                                <CheckCircle className="h-4 w-4" />
-                                <AlertDescription>{rec}</AlertDescription>
-                              </Alert>
-                            ))}
-                          </div>
-                        </div>
-                      </TabsContent>
-                    </Tabs>
-                  </CardContent>
-                </Card>
+                {trends && <SiteTrends hostname={hostnameOf(result.url)} analyses={trends} />}
               </div>
             )}
           </div>
@@ -864,16 +1201,24 @@ function App() {
                       <div
                         key={item.id}
                         className="p-3 border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors"
-                        onClick={() => loadHistoryItem(item)}
+                        onClick={() => openAnalysis(item)}
                       >
                         <div className="flex items-center justify-between mb-2">
-                          <div className="text-sm font-medium truncate">
-                            {new URL(item.url).hostname}
+                          <div className="flex items-center space-x-2 min-w-0">
+                            <Checkbox
+                              checked={isSelectedForCompare(item)}
+                              onCheckedChange={() => toggleCompare(item)}
+                              onClick={(e) => e.stopPropagation()}
+                              aria-label="Select for comparison"
+                            />
+                            <div className="text-sm font-medium truncate">
+                              {new URL(item.url).hostname}
+                            </div>
                           </div>
                           <div className="flex items-center space-x-1">
                             <Star className="h-3 w-3 text-yellow-500" />
-                            <span className="text-xs">
-                              {Math.round((item.performance.score + item.seo.score + item.accessibility.score + item.design.score + item.ux.score) / 5)}
+                            <span className="text-xs" title={`Weights: ${describeWeights(item)}`}>
+                              {overallScore(item)} ({getGrade(overallScore(item))})
                             </span>
                           </div>
                         </div>
@@ -885,42 +1230,24 @@ function App() {
                     ))}
                   </div>
                 )}
+                {stats && stats.total > history.length && (
+                  <Button variant="ghost" size="sm" className="mt-3 w-full" onClick={() => navigate(ROUTES.history)}>
+                    View all {stats.total} analyses
+                  </Button>
+                )}
+                {compareSelection.length > 0 && (
+                  <div className="mt-4 flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">{compareSelection.length} of 2 selected</span>
+                    <Button size="sm" onClick={startComparison} disabled={compareSelection.length !== 2}>
+                      <GitCompare className="h-4 w-4 mr-2" />
+                      Compare
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
-            {/* Quick Stats */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Quick Stats</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-muted-foreground">Total Analyses</span>
-                  <span className="font-semibold">{history.length}</span>
-                </div>
-                <Separator />
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-muted-foreground">Average Score</span>
-                  <span className="font-semibold">
-                    {history.length > 0 
-                      ? Math.round(
-                          history.reduce((acc, item) => 
-                            acc + (item.performance.score + item.seo.score + item.accessibility.score + item.design.score + item.ux.score) / 5, 0
-                          ) / history.length
-                        )
-                      : 0
-                    }
-                  </span>
-                </div>
-                <Separator />
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-muted-foreground">Best Category</span>
-                  <span className="font-semibold">
-                    {history.length > 0 ? 'Design' : 'N/A'}
-                  </span>
-                </div>
-              </CardContent>
-            </Card>
+            <PortfolioDashboard stats={stats} getScoreColor={getScoreColor} />
           </div>
         </div>
       </div>
@@ -0,0 +1,311 @@
+import { useState } from 'react'
+import { Card, CardContent } from './ui/card'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Alert, AlertDescription } from './ui/alert'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible'
+import { AlertTriangle, CheckCircle, ChevronDown, Loader2, XCircle } from 'lucide-react'
+import { CategoryIcon } from './CategoryIcon'
+import { DesignAnnotations } from './DesignAnnotations'
+import { DeviceGallery } from './DeviceGallery'
+import { ResourceWaterfall } from './ResourceWaterfall'
+import { categoryRecommendations, categoryScore, resultCategoryIds, subMetricValues } from '../lib/categories'
+import { formatSubMetric, resultCategoryDefinitions, type CategoryDefinition } from '../lib/category-registry'
+import type { ScoreBadgeVariant } from '../lib/scoring'
+import type { AnalysisResult } from '../types/analysis'
+
+interface ScoreOverviewProps {
+  result: AnalysisResult
+  categories: CategoryDefinition[]
+  // Categories still being analyzed show a spinner instead of a score
+  pendingCategories?: string[]
+  getScoreColor: (score: number) => string
+}
+
+interface AnalysisTabsProps {
+  result: AnalysisResult
+  pendingCategories?: string[]
+  // When set, the parent owns the selected tab (e.g. in the URL); otherwise the tabs keep it themselves
+  category?: string
+  onCategoryChange?: (category: string) => void
+  getScoreColor: (score: number) => string
+  getScoreBadgeVariant: (score: number) => ScoreBadgeVariant
+}
+
+export function ScoreOverview({ result, categories, pendingCategories = [], getScoreColor }: ScoreOverviewProps) {
+  const isPending = (categoryId: string) => pendingCategories.includes(categoryId)
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+      {categories.map(category => (
+        <Card key={category.id}>
+          <CardContent className="p-4 text-center">
+            <div className="flex items-center justify-center mb-2">
+              <CategoryIcon icon={category.icon} className={`h-5 w-5 ${category.color}`} />
+            </div>
+            {isPending(category.id) ? (
+              <div className="flex h-8 items-center justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className={`text-2xl font-bold ${getScoreColor(categoryScore(result, category.id))}`}>
+                {categoryScore(result, category.id)}
+              </div>
+            )}
+            <div className="text-xs text-muted-foreground">{category.label}</div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
+
+interface CategoryPanelProps {
+  result: AnalysisResult
+  category: CategoryDefinition
+  getScoreColor: (score: number) => string
+  getScoreBadgeVariant: (score: number) => ScoreBadgeVariant
+}
+
+function Recommendations({ items }: { items: string[] }) {
+  return (
+    <div>
+      <h4 className="font-medium mb-3">Recommendations</h4>
+      <div className="space-y-2">
+        {items.map((rec, index) => (
+          <Alert key={index}>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>{rec}</AlertDescription>
+          </Alert>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function SeoIssues({ issues }: { issues: AnalysisResult['seo']['issues'] }) {
+  if (issues.length === 0) return null
+
+  return (
+    <div>
+      <h4 className="font-medium mb-3">Issues Found</h4>
+      <div className="space-y-2">
+        {issues.map((issue, index) => (
+          <Alert key={index} variant={issue.type === 'error' ? 'destructive' : 'default'}>
+            {issue.type === 'error' ? (
+              <XCircle className="h-4 w-4" />
+            ) : issue.type === 'warning' ? (
+              <AlertTriangle className="h-4 w-4" />
+            ) : (
+              <CheckCircle className="h-4 w-4" />
+            )}
+            <AlertDescription>
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span>{issue.message}</span>
+                  <div className="flex items-center space-x-1">
+                    {issue.ruleId && (
+                      <Badge variant="secondary" className="text-xs font-mono">
+                        {issue.ruleId}
+                      </Badge>
+                    )}
+                    <Badge variant="outline" className="text-xs">
+                      {issue.impact} impact
+                    </Badge>
+                  </div>
+                </div>
+                {issue.evidence && (
+                  <code className="block text-xs text-muted-foreground break-all">
+                    {issue.evidence}
+                  </code>
+                )}
+              </div>
+            </AlertDescription>
+          </Alert>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function AccessibilityViolations({ violations }: { violations: AnalysisResult['accessibility']['violations'] }) {
+  if (violations.length === 0) return null
+
+  return (
+    <div>
+      <h4 className="font-medium mb-3">Violations</h4>
+      <div className="space-y-2">
+        {violations.map((violation, index) => (
+          <Alert key={index} variant={violation.severity === 'critical' ? 'destructive' : 'default'}>
+            {violation.severity === 'critical' ? (
+              <XCircle className="h-4 w-4" />
+            ) : (
+              <AlertTriangle className="h-4 w-4" />
+            )}
+            <AlertDescription>
+              <Collapsible className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span>{violation.description}</span>
+                  <div className="flex items-center space-x-1">
+                    {violation.wcag?.map(criterion => (
+                      <Badge key={criterion} variant="secondary" className="text-xs">
+                        WCAG {criterion}
+                      </Badge>
+                    ))}
+                    <Badge variant="outline" className="text-xs">
+                      {violation.severity}
+                    </Badge>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <code className="truncate">Element: {violation.element}</code>
+                  {(violation.html || violation.help) && (
+                    <CollapsibleTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+                        Details
+                        <ChevronDown className="h-3 w-3 ml-1" />
+                      </Button>
+                    </CollapsibleTrigger>
+                  )}
+                </div>
+                <CollapsibleContent className="space-y-2 pt-2">
+                  {violation.html && (
+                    <pre className="text-xs bg-muted/50 rounded p-2 whitespace-pre-wrap break-all">
+                      {violation.html}
+                    </pre>
+                  )}
+                  {violation.help && (
+                    <div className="text-xs">
+                      <span className="font-medium">How to fix:</span> {violation.help}
+                    </div>
+                  )}
+                </CollapsibleContent>
+              </Collapsible>
+            </AlertDescription>
+          </Alert>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Header, score and sub-metrics come from the category's definition; a few built-ins add their audit details
+function CategoryPanel({ result, category, getScoreColor, getScoreBadgeVariant }: CategoryPanelProps) {
+  const score = categoryScore(result, category.id)
+  const values = subMetricValues(result, category.id)
+  // Estimated runs have no measured-only metrics, and INP needs field data that not every site has
+  const subMetrics = category.subMetrics.filter(subMetric => typeof values[subMetric.key] === 'number')
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <h3 className="text-lg font-semibold">{category.label} Analysis</h3>
+          {category.id === 'performance' && (
+            <Badge variant="outline" className="text-xs">
+              {result.performance.source === 'measured'
+                ? `Measured · ${result.performance.provider}`
+                : 'Estimated by AI'}
+            </Badge>
+          )}
+        </div>
+        <Badge variant={getScoreBadgeVariant(score)}>
+          Score: {score}/100
+        </Badge>
+      </div>
+
+      {subMetrics.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {subMetrics.map(subMetric => (
+            <div key={subMetric.key} className="text-center p-3 bg-muted/50 rounded-lg">
+              <div className="text-sm text-muted-foreground">{subMetric.label}</div>
+              <div className="text-lg font-semibold">{formatSubMetric(subMetric, values[subMetric.key]!)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {category.id === 'performance' && result.performance.waterfall && result.performance.waterfall.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-3">Resource Waterfall</h4>
+          <ResourceWaterfall resources={result.performance.waterfall} />
+        </div>
+      )}
+
+      {category.id === 'seo' && <SeoIssues issues={result.seo.issues} />}
+
+      {category.id === 'accessibility' && <AccessibilityViolations violations={result.accessibility.violations} />}
+
+      {category.id === 'design' && result.design.devices && result.design.devices.length > 0 && (
+        <DeviceGallery key={`devices-${result.id}`} devices={result.design.devices} getScoreColor={getScoreColor} />
+      )}
+
+      {/* Design recommendations are pinned to the screenshot instead of listed */}
+      {category.id === 'design' ? (
+        <DesignAnnotations
+          key={result.id}
+          screenshotUrl={result.screenshotUrl}
+          annotations={result.design.annotations ?? []}
+          recommendations={result.design.recommendations}
+        />
+      ) : (
+        <Recommendations items={categoryRecommendations(result, category.id)} />
+      )}
+    </>
+  )
+}
+
+// Per-category findings for a single-page analysis, shared by the app and public report links
+export function AnalysisTabs({
+  result,
+  pendingCategories = [],
+  category: selectedCategory,
+  onCategoryChange,
+  getScoreColor,
+  getScoreBadgeVariant
+}: AnalysisTabsProps) {
+  const [pickedCategory, setPickedCategory] = useState<string>()
+  const isPending = (categoryId: string) => pendingCategories.includes(categoryId)
+  const isReady = (categoryId: string | undefined): categoryId is string =>
+    categoryId !== undefined && resultCategoryIds(result).includes(categoryId) && !isPending(categoryId)
+  const requestedCategory = onCategoryChange ? selectedCategory : pickedCategory
+  // Unknown or still-running categories fall back to the first finished one
+  const activeCategory = isReady(requestedCategory) ? requestedCategory : resultCategoryIds(result).find(id => !isPending(id))
+
+  return (
+    <Tabs
+      value={activeCategory}
+      onValueChange={onCategoryChange ?? setPickedCategory}
+      className="w-full"
+    >
+      <TabsList
+        className="grid w-full h-auto"
+        style={{ gridTemplateColumns: `repeat(${Math.min(resultCategoryIds(result).length, 5)}, minmax(0, 1fr))` }}
+      >
+        {resultCategoryDefinitions(result).map(category => (
+          <TabsTrigger
+            key={category.id}
+            value={category.id}
+            disabled={isPending(category.id)}
+            className="truncate"
+          >
+            {isPending(category.id) && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+            {category.shortLabel}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+
+      {resultCategoryDefinitions(result).map(category => (
+        <TabsContent key={category.id} value={category.id} className="space-y-4">
+          <CategoryPanel
+            result={result}
+            category={category}
+            getScoreColor={getScoreColor}
+            getScoreBadgeVariant={getScoreBadgeVariant}
+          />
+        </TabsContent>
+      ))}
+    </Tabs>
+  )
+}
@@ -0,0 +1,326 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from './ui/form'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { RadioGroup, RadioGroupItem } from './ui/radio-group'
+import { Checkbox } from './ui/checkbox'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Save, Tags, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import {
+  CONTENT_DEPTH_LIMITS,
+  DEFAULT_ANALYSIS_SETTINGS,
+  MAX_CACHE_TTL_HOURS,
+  MODEL_OPTIONS,
+  analysisSettingsSchema,
+  deletePreset,
+  listPresets,
+  savePreset,
+  type AnalysisPreset
+} from '../lib/analysis-settings'
+import { BUILT_IN_CATEGORIES, type CategoryDefinition } from '../lib/category-registry'
+import { DEFAULT_DEVICE_PROFILES } from '../lib/responsive-audit'
+import type { AnalysisSettings } from '../types/analysis'
+
+interface AnalysisSettingsDialogProps {
+  workspaceId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  settings: AnalysisSettings
+  onApply: (settings: AnalysisSettings) => void
+  customCategories: CategoryDefinition[]
+  onManageCategories: () => void
+}
+
+const toggleValue = <T extends string>(values: T[], value: T, checked: boolean) =>
+  checked ? [...values, value] : values.filter(item => item !== value)
+
+export function AnalysisSettingsDialog({
+  workspaceId,
+  open,
+  onOpenChange,
+  settings,
+  onApply,
+  customCategories,
+  onManageCategories
+}: AnalysisSettingsDialogProps) {
+  const [presets, setPresets] = useState<AnalysisPreset[]>([])
+  const [presetName, setPresetName] = useState('')
+
+  const form = useForm<AnalysisSettings>({
+    resolver: zodResolver(analysisSettingsSchema),
+    defaultValues: settings
+  })
+
+  const loadPresets = useCallback(async () => {
+    try {
+      setPresets(await listPresets(workspaceId))
+    } catch (error) {
+      console.error('Failed to load presets:', error)
+      toast.error('Failed to load presets')
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    if (!open) return
+    form.reset(settings)
+    loadPresets()
+  }, [open, settings, form, loadPresets])
+
+  const applyPreset = (presetId: string) => {
+    const preset = presets.find(item => item.id === presetId)
+    if (preset) {
+      form.reset(preset.settings)
+      setPresetName(preset.name)
+    }
+  }
+
+  const saveAsPreset = form.handleSubmit(async (values) => {
+    const name = presetName.trim()
+    if (!name) {
+      toast.error('Please enter a preset name')
+      return
+    }
+
+    // Saving under an existing name overwrites that preset
+    const existing = presets.find(preset => preset.name === name)
+    try {
+      await savePreset({
+        id: existing?.id ?? `preset_${crypto.randomUUID()}`,
+        name,
+        settings: values,
+        createdAt: existing?.createdAt ?? new Date().toISOString()
+      }, workspaceId)
+      await loadPresets()
+      toast.success(`Preset "${name}" saved`)
+    } catch (error) {
+      console.error('Failed to save preset:', error)
+      toast.error('Failed to save preset')
+    }
+  })
+
+  const removePreset = async () => {
+    const preset = presets.find(item => item.name === presetName.trim())
+    if (!preset) return
+
+    try {
+      await deletePreset(preset.id)
+      setPresetName('')
+      await loadPresets()
+    } catch (error) {
+      console.error('Failed to delete preset:', error)
+      toast.error('Failed to delete preset')
+    }
+  }
+
+  const apply = form.handleSubmit((values) => {
+    onApply(values)
+    onOpenChange(false)
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Analysis Settings</DialogTitle>
+          <DialogDescription>Choose what each run covers and how its findings are written</DialogDescription>
+        </DialogHeader>
+
+        {presets.length > 0 && (
+          <div className="space-y-2">
+            <Label>Preset</Label>
+            <Select onValueChange={applyPreset}>
+              <SelectTrigger>
+                <SelectValue placeholder="Load a saved preset" />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={apply} className="space-y-5">
+            <FormField
+              control={form.control}
+              name="categories"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center justify-between">
+                    <FormLabel>Categories</FormLabel>
+                    <Button type="button" variant="ghost" size="sm" onClick={onManageCategories}>
+                      <Tags className="h-4 w-4 mr-2" />
+                      Manage custom
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {[...BUILT_IN_CATEGORIES, ...customCategories].map(category => (
+                      <label key={category.id} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(category.id)}
+                          onCheckedChange={(checked) => field.onChange(toggleValue(field.value, category.id, checked === true))}
+                        />
+                        <span className="truncate">{category.label}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="contentDepth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Content depth</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={CONTENT_DEPTH_LIMITS.min}
+                      max={CONTENT_DEPTH_LIMITS.max}
+                      step={500}
+                      value={field.value}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormDescription>Characters of page content sent to the model</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="model"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Model</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {MODEL_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="audience"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Audience</FormLabel>
+                  <FormControl>
+                    <RadioGroup value={field.value} onValueChange={field.onChange} className="flex space-x-6">
+                      <label className="flex items-center space-x-2 text-sm">
+                        <RadioGroupItem value="developer" />
+                        <span>Developers</span>
+                      </label>
+                      <label className="flex items-center space-x-2 text-sm">
+                        <RadioGroupItem value="marketing" />
+                        <span>Marketing</span>
+                      </label>
+                    </RadioGroup>
+                  </FormControl>
+                  <FormDescription>Sets the tone and level of detail of recommendations</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="deviceIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Devices</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {DEFAULT_DEVICE_PROFILES.map(device => (
+                      <label key={device.id} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(device.id)}
+                          onCheckedChange={(checked) => field.onChange(toggleValue(field.value, device.id, checked === true))}
+                        />
+                        <span>{device.label}</span>
+                        <span className="text-muted-foreground">{device.width}x{device.height}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <FormDescription>Screenshots and responsive checks run at each selected size</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="cacheTtlHours"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reuse results for (hours)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={MAX_CACHE_TTL_HOURS}
+                      value={field.value}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    A page whose content hasn't changed reuses its last analysis instead of rerunning the AI; 0 always reruns
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2 border-t pt-4">
+              <Label htmlFor="preset-name">Save as preset</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="preset-name"
+                  placeholder="Marketing quick scan"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                />
+                <Button type="button" variant="outline" onClick={saveAsPreset}>
+                  <Save className="h-4 w-4" />
+                </Button>
+                {presets.some(preset => preset.name === presetName.trim()) && (
+                  <Button type="button" variant="outline" onClick={removePreset}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => form.reset(DEFAULT_ANALYSIS_SETTINGS)}>
+                Reset to defaults
+              </Button>
+              <Button type="submit">Apply</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,360 @@
+import { useCallback, useEffect, useState } from 'react'
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Progress } from './ui/progress'
+import { Alert, AlertDescription } from './ui/alert'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart'
+import { AlertTriangle, Loader2, Play, Plus, Trash2, Trophy } from 'lucide-react'
+import toast from 'react-hot-toast'
+import {
+  benchmarkCategories,
+  deleteBenchmark,
+  findClientGaps,
+  listBenchmarks,
+  rankCategory,
+  runBenchmark,
+  saveBenchmark,
+  type Benchmark
+} from '../lib/benchmarks'
+import { CATEGORY_LABELS, isBuiltInCategory } from '../lib/categories'
+import { hostnameOf, normalizeUrl } from '../lib/url'
+import type { CategoryDefinition } from '../lib/category-registry'
+import type { ScoringConfig } from '../lib/scoring'
+import type { AnalysisSettings } from '../types/analysis'
+
+interface BenchmarkPanelProps {
+  workspaceId: string
+  // Every site is analyzed with the workspace's current settings, like a bulk run
+  settings: AnalysisSettings
+  customCategories: CategoryDefinition[]
+  scoring: ScoringConfig
+  getScoreColor: (score: number) => string
+  readOnly?: boolean
+}
+
+const MAX_COMPETITORS = 5
+const CHART_COLORS = ['--chart-1', '--chart-2', '--chart-3', '--chart-4', '--chart-5']
+
+export function BenchmarkPanel({
+  workspaceId,
+  settings,
+  customCategories,
+  scoring,
+  getScoreColor,
+  readOnly = false
+}: BenchmarkPanelProps) {
+  const [benchmarks, setBenchmarks] = useState<Benchmark[]>([])
+  const [selected, setSelected] = useState<Benchmark | null>(null)
+  const [name, setName] = useState('')
+  const [clientUrl, setClientUrl] = useState('')
+  const [competitorInput, setCompetitorInput] = useState('')
+  const [running, setRunning] = useState(false)
+  const [progress, setProgress] = useState(0)
+
+  const loadBenchmarks = useCallback(async () => {
+    try {
+      setBenchmarks(await listBenchmarks(workspaceId))
+    } catch (error) {
+      console.error('Failed to load benchmarks:', error)
+      toast.error('Failed to load benchmarks')
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    loadBenchmarks()
+  }, [loadBenchmarks])
+
+  const execute = async (benchmark: Benchmark) => {
+    setRunning(true)
+    setProgress(0)
+    setSelected(benchmark)
+
+    try {
+      const updated = await runBenchmark(benchmark, workspaceId, { settings, customCategories, scoring }, (completed, total) => {
+        setProgress(Math.round((completed / total) * 100))
+      })
+      setSelected(updated)
+      await loadBenchmarks()
+      toast.success(`Benchmark "${updated.name}" completed!`)
+    } catch (error) {
+      console.error('Benchmark failed:', error)
+      toast.error('Benchmark failed. Please try again.')
+    } finally {
+      setRunning(false)
+      setProgress(0)
+    }
+  }
+
+  const createBenchmark = async () => {
+    const client = normalizeUrl(clientUrl)
+    const competitors = competitorInput
+      .split(/[\n,]/)
+      .map(normalizeUrl)
+      .filter((competitor): competitor is string => competitor !== null)
+
+    if (!name.trim() || !client) {
+      toast.error('Please enter a name and a valid client URL')
+      return
+    }
+    if (competitors.length === 0 || competitors.length > MAX_COMPETITORS) {
+      toast.error(`Please enter between 1 and ${MAX_COMPETITORS} competitor URLs`)
+      return
+    }
+
+    const benchmark: Benchmark = {
+      id: `benchmark_${crypto.randomUUID()}`,
+      name: name.trim(),
+      clientUrl: client,
+      competitorUrls: competitors,
+      entries: [],
+      lastRunAt: null,
+      createdAt: new Date().toISOString()
+    }
+
+    try {
+      await saveBenchmark(benchmark, workspaceId)
+      setName('')
+      setClientUrl('')
+      setCompetitorInput('')
+      await execute(benchmark)
+    } catch (error) {
+      console.error('Failed to save benchmark:', error)
+      toast.error('Failed to save benchmark')
+    }
+  }
+
+  const removeBenchmark = async (benchmark: Benchmark) => {
+    try {
+      await deleteBenchmark(benchmark.id)
+      if (selected?.id === benchmark.id) setSelected(null)
+      await loadBenchmarks()
+    } catch (error) {
+      console.error('Failed to delete benchmark:', error)
+      toast.error('Failed to delete benchmark')
+    }
+  }
+
+  // Custom categories deleted since the run fall back to their id
+  const labelOf = (id: string) => isBuiltInCategory(id)
+    ? CATEGORY_LABELS[id]
+    : customCategories.find(category => category.id === id)?.label ?? id
+
+  const scoredEntries = selected?.entries.filter(entry => entry.scores) ?? []
+  const categories = selected ? benchmarkCategories(selected) : []
+  const chartConfig: ChartConfig = Object.fromEntries(scoredEntries.map((entry, index) => [
+    `site${index}`,
+    { label: hostnameOf(entry.url), color: `hsl(var(${CHART_COLORS[index % CHART_COLORS.length]}))` }
+  ]))
+  const radarData = categories.map(id => ({
+    category: labelOf(id),
+    ...Object.fromEntries(scoredEntries.map((entry, index) => [`site${index}`, entry.scores![id]]))
+  }))
+  const gaps = selected ? findClientGaps(selected) : []
+
+  return (
+    <div className="space-y-6">
+      {!readOnly && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Trophy className="h-5 w-5" />
+              <span>New Benchmark</span>
+            </CardTitle>
+            <CardDescription>
+              Compare a client site against up to {MAX_COMPETITORS} competitors across the categories in your analysis settings
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="benchmark-name">Name</Label>
+                <Input
+                  id="benchmark-name"
+                  placeholder="Q3 competitor review"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={running}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="benchmark-client">Client URL</Label>
+                <Input
+                  id="benchmark-client"
+                  placeholder="https://client.com"
+                  value={clientUrl}
+                  onChange={(e) => setClientUrl(e.target.value)}
+                  disabled={running}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="benchmark-competitors">Competitor URLs (one per line)</Label>
+              <Textarea
+                id="benchmark-competitors"
+                placeholder={'https://competitor-one.com\nhttps://competitor-two.com'}
+                value={competitorInput}
+                onChange={(e) => setCompetitorInput(e.target.value)}
+                disabled={running}
+                rows={4}
+              />
+            </div>
+            <Button onClick={createBenchmark} disabled={running}>
+              {running ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+              Create and Run
+            </Button>
+            {running && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Analyzing sites...</span>
+                  <span className="font-medium">{progress}%</span>
+                </div>
+                <Progress value={progress} className="h-2" />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {benchmarks.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Saved Benchmarks</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {benchmarks.map(benchmark => (
+              <div
+                key={benchmark.id}
+                className={`flex items-center justify-between p-3 border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors ${selected?.id === benchmark.id ? 'bg-muted/50' : ''}`}
+                onClick={() => setSelected(benchmark)}
+              >
+                <div>
+                  <div className="text-sm font-medium">{benchmark.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {hostnameOf(benchmark.clientUrl)} vs {benchmark.competitorUrls.length} competitors
+                    {benchmark.lastRunAt && ` · last run ${new Date(benchmark.lastRunAt).toLocaleDateString()}`}
+                  </div>
+                </div>
+                {!readOnly && (
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={running}
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        execute(benchmark)
+                      }}
+                    >
+                      <Play className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={running}
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        removeBenchmark(benchmark)
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {selected && scoredEntries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selected.name}</CardTitle>
+            <CardDescription>
+              {hostnameOf(selected.clientUrl)} against {selected.competitorUrls.map(hostnameOf).join(', ')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {gaps.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Where the client is behind</h4>
+                {gaps.map(gap => (
+                  <Alert key={gap.category}>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      {labelOf(gap.category)}: {hostnameOf(selected.clientUrl)} scores {gap.clientScore}, {gap.gap} points
+                      behind {hostnameOf(gap.leaderUrl)} ({gap.leaderScore})
+                    </AlertDescription>
+                  </Alert>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <h4 className="font-medium mb-3">All Categories</h4>
+              <ChartContainer config={chartConfig} className="mx-auto aspect-square max-h-80">
+                <RadarChart data={radarData}>
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <PolarGrid />
+                  <PolarAngleAxis dataKey="category" />
+                  <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+                  {scoredEntries.map((_entry, index) => (
+                    <Radar
+                      key={index}
+                      dataKey={`site${index}`}
+                      stroke={`var(--color-site${index})`}
+                      fill={`var(--color-site${index})`}
+                      fillOpacity={0.15}
+                    />
+                  ))}
+                  <ChartLegend content={<ChartLegendContent />} />
+                </RadarChart>
+              </ChartContainer>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {categories.map(id => (
+                <div key={id}>
+                  <h4 className="font-medium mb-2">{labelOf(id)}</h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12">#</TableHead>
+                        <TableHead>Site</TableHead>
+                        <TableHead className="text-right">Score</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rankCategory(selected, id).map(row => (
+                        <TableRow key={row.url}>
+                          <TableCell>{row.rank}</TableCell>
+                          <TableCell>
+                            {hostnameOf(row.url)}
+                            {row.isClient && <Badge variant="secondary" className="ml-2 text-xs">client</Badge>}
+                          </TableCell>
+                          <TableCell className={`text-right font-semibold ${getScoreColor(row.score)}`}>{row.score}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ))}
+            </div>
+
+            {selected.entries.some(entry => entry.error) && (
+              <p className="text-xs text-muted-foreground">
+                Failed: {selected.entries.filter(entry => entry.error).map(entry => hostnameOf(entry.url)).join(', ')}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Loader2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { DEFAULT_BRANDING, getBranding, isHexColor, saveBranding, type ReportBranding } from '../lib/report-branding'
+
+interface BrandingDialogProps {
+  workspaceId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function BrandingDialog({ workspaceId, open, onOpenChange }: BrandingDialogProps) {
+  const [branding, setBranding] = useState<ReportBranding>(DEFAULT_BRANDING)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+
+    getBranding(workspaceId)
+      .then(setBranding)
+      .catch(error => {
+        console.error('Failed to load branding:', error)
+        toast.error('Failed to load report branding')
+      })
+  }, [open, workspaceId])
+
+  const update = (field: keyof ReportBranding, value: string) => {
+    setBranding(prev => ({ ...prev, [field]: value }))
+  }
+
+  const save = async () => {
+    if (!isHexColor(branding.primaryColor) || !isHexColor(branding.accentColor)) {
+      toast.error('Colors must be hex colors like #2563eb')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await saveBranding(workspaceId, branding)
+      toast.success('Report branding saved')
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to save branding:', error)
+      toast.error('Failed to save report branding')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report Branding</DialogTitle>
+          <DialogDescription>Applied to every client report exported or printed from this workspace</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="branding-agency">Agency name</Label>
+            <Input id="branding-agency" value={branding.agencyName} onChange={(e) => update('agencyName', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="branding-logo">Logo URL</Label>
+            <Input
+              id="branding-logo"
+              placeholder="https://agency.com/logo.png"
+              value={branding.logoUrl}
+              onChange={(e) => update('logoUrl', e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="branding-primary">Primary color</Label>
+              <Input
+                id="branding-primary"
+                type="color"
+                value={branding.primaryColor}
+                onChange={(e) => update('primaryColor', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="branding-accent">Accent color</Label>
+              <Input
+                id="branding-accent"
+                type="color"
+                value={branding.accentColor}
+                onChange={(e) => update('accentColor', e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="branding-footer">Footer text</Label>
+            <Input id="branding-footer" value={branding.footerText} onChange={(e) => update('footerText', e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={save} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,323 @@
+import { useRef, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Progress } from './ui/progress'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { ArrowDown, ArrowUp, ArrowUpDown, Download, ExternalLink, Layers, Loader2, Play, Upload, XCircle } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { runAnalysis } from '../lib/analyzer'
+import { saveAnalysis } from '../lib/analysis-store'
+import {
+  DEFAULT_BULK_CONCURRENCY,
+  MAX_BULK_CONCURRENCY,
+  MAX_BULK_URLS,
+  bulkCategoryColumns,
+  bulkJobScore,
+  bulkResultsCsv,
+  createBulkJobs,
+  parseUrlCsv,
+  parseUrlText,
+  runBulkQueue,
+  sortBulkJobs,
+  type BulkJob,
+  type BulkJobStatus,
+  type BulkSort
+} from '../lib/bulk-queue'
+import { downloadFile } from '../lib/download'
+import { hostnameOf } from '../lib/url'
+import type { CategoryDefinition } from '../lib/category-registry'
+import type { ScoringConfig } from '../lib/scoring'
+import type { AnalysisResult, AnalysisSettings } from '../types/analysis'
+
+interface BulkAnalysisPanelProps {
+  workspaceId: string
+  settings: AnalysisSettings
+  customCategories: CategoryDefinition[]
+  scoring: ScoringConfig
+  getScoreColor: (score: number) => string
+  onSaved: () => void
+  onOpen: (result: AnalysisResult) => void
+  readOnly?: boolean
+}
+
+const STATUS_VARIANTS: Record<BulkJobStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  running: 'secondary',
+  retrying: 'secondary',
+  done: 'default',
+  failed: 'destructive',
+  canceled: 'outline'
+}
+
+const isFinished = (job: BulkJob) => job.status === 'done' || job.status === 'failed' || job.status === 'canceled'
+
+export function BulkAnalysisPanel({
+  workspaceId,
+  settings,
+  customCategories,
+  scoring,
+  getScoreColor,
+  onSaved,
+  onOpen,
+  readOnly = false
+}: BulkAnalysisPanelProps) {
+  const [input, setInput] = useState('')
+  const [concurrency, setConcurrency] = useState(DEFAULT_BULK_CONCURRENCY)
+  const [jobs, setJobs] = useState<BulkJob[]>([])
+  const [running, setRunning] = useState(false)
+  const [sort, setSort] = useState<BulkSort>({ column: 'overall', direction: 'desc' })
+  const abortRef = useRef<AbortController | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const parsed = parseUrlText(input)
+  const finished = jobs.filter(isFinished).length
+  const columns = bulkCategoryColumns(jobs)
+
+  const importCsv = async (file: File) => {
+    try {
+      const { urls, invalid, duplicates } = parseUrlCsv(await file.text())
+      setInput(urls.join('\n'))
+      toast.success(
+        `Imported ${urls.length} URLs${invalid.length > 0 ? `, skipped ${invalid.length} invalid` : ''}` +
+        `${duplicates > 0 ? `, ${duplicates} duplicates` : ''}`
+      )
+    } catch (error) {
+      console.error('Failed to read CSV:', error)
+      toast.error('Failed to read CSV')
+    }
+  }
+
+  const analyze = async (url: string, signal: AbortSignal) => {
+    const result = await runAnalysis(url, {
+      settings,
+      customCategories,
+      scoring,
+      cache: { workspaceId },
+      signal
+    })
+    await saveAnalysis(result, workspaceId)
+    return result
+  }
+
+  const start = async () => {
+    if (parsed.urls.length === 0) {
+      toast.error('Please enter at least one valid URL')
+      return
+    }
+    if (parsed.urls.length > MAX_BULK_URLS) {
+      toast.error(`Please enter at most ${MAX_BULK_URLS} URLs`)
+      return
+    }
+
+    const queued = createBulkJobs(parsed.urls)
+    const controller = new AbortController()
+    abortRef.current = controller
+    setJobs(queued)
+    setRunning(true)
+
+    try {
+      const results = await runBulkQueue(queued, {
+        concurrency,
+        analyze,
+        signal: controller.signal,
+        onUpdate: (job) => setJobs(prev => prev.map(item => item.id === job.id ? job : item))
+      })
+      const failed = results.filter(job => job.status === 'failed').length
+      if (controller.signal.aborted) {
+        toast('Bulk analysis canceled')
+      } else if (failed > 0) {
+        toast.error(`${failed} of ${results.length} analyses failed`)
+      } else {
+        toast.success(`Analyzed ${results.length} websites`)
+      }
+    } catch (error) {
+      console.error('Bulk analysis failed:', error)
+      toast.error('Bulk analysis failed')
+    } finally {
+      abortRef.current = null
+      setRunning(false)
+      onSaved()
+    }
+  }
+
+  const toggleSort = (column: string) => {
+    setSort(prev => prev.column === column
+      ? { column, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { column, direction: column === 'url' || column === 'status' ? 'asc' : 'desc' })
+  }
+
+  const exportCsv = () => {
+    downloadFile(
+      bulkResultsCsv(sortBulkJobs(jobs, sort), scoring.grades),
+      `bulk-analysis-${new Date().toISOString().split('T')[0]}.csv`,
+      'text/csv'
+    )
+  }
+
+  const sortHeader = (column: string, label: string, className = '') => {
+    const Icon = sort.column !== column ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown
+    return (
+      <TableHead key={column} className={className}>
+        <button type="button" className="inline-flex items-center space-x-1" onClick={() => toggleSort(column)}>
+          <span className="truncate max-w-32">{label}</span>
+          <Icon className="h-3 w-3 shrink-0" />
+        </button>
+      </TableHead>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Layers className="h-5 w-5" />
+            <span>Bulk Analysis</span>
+          </CardTitle>
+          <CardDescription>
+            Analyze up to {MAX_BULK_URLS} websites with the current analysis settings; results are saved to your history
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="bulk-urls">URLs (one per line or comma-separated)</Label>
+              <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} disabled={running}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) importCsv(file)
+                  e.target.value = ''
+                }}
+              />
+            </div>
+            <Textarea
+              id="bulk-urls"
+              placeholder={'client-one.com\nhttps://client-two.com/landing'}
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              disabled={running}
+              rows={6}
+            />
+            {input.trim() && (
+              <p className="text-xs text-muted-foreground">
+                {parsed.urls.length} valid
+                {parsed.duplicates > 0 && `, ${parsed.duplicates} duplicates removed`}
+                {parsed.invalid.length > 0 && (
+                  <span className="text-destructive">
+                    , {parsed.invalid.length} invalid: {parsed.invalid.slice(0, 5).join(', ')}
+                    {parsed.invalid.length > 5 && '...'}
+                  </span>
+                )}
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-concurrency">Parallel analyses</Label>
+              <Input
+                id="bulk-concurrency"
+                type="number"
+                min={1}
+                max={MAX_BULK_CONCURRENCY}
+                value={concurrency}
+                onChange={(e) => setConcurrency(Math.min(MAX_BULK_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+                disabled={running}
+                className="w-24"
+              />
+            </div>
+            {running ? (
+              <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+                <XCircle className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            ) : (
+              <Button onClick={start} disabled={readOnly || parsed.urls.length === 0}>
+                <Play className="h-4 w-4 mr-2" />
+                Analyze {parsed.urls.length > 0 ? parsed.urls.length : ''} URLs
+              </Button>
+            )}
+          </div>
+
+          {running && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">{finished} of {jobs.length} finished</span>
+                <span className="font-medium">{Math.round((finished / Math.max(jobs.length, 1)) * 100)}%</span>
+              </div>
+              <Progress value={(finished / Math.max(jobs.length, 1)) * 100} className="h-2" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {jobs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Results</CardTitle>
+              <Button variant="outline" size="sm" onClick={exportCsv} disabled={running}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {sortHeader('url', 'Site')}
+                  {sortHeader('status', 'Status')}
+                  {sortHeader('overall', 'Overall', 'text-right')}
+                  {columns.map(column => sortHeader(column.id, column.label, 'text-right'))}
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortBulkJobs(jobs, sort).map(job => (
+                  <TableRow key={job.id}>
+                    <TableCell className="max-w-48 truncate" title={job.url}>{hostnameOf(job.url)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[job.status]} title={job.status === 'done' ? undefined : job.error}>
+                        {(job.status === 'running' || job.status === 'retrying') && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+                        {job.status}
+                        {job.attempts > 1 && ` (${job.attempts})`}
+                      </Badge>
+                    </TableCell>
+                    {['overall', ...columns.map(column => column.id)].map(column => {
+                      const score = bulkJobScore(job, column)
+                      return (
+                        <TableCell key={column} className={`text-right font-semibold ${score === undefined ? 'text-muted-foreground' : getScoreColor(score)}`}>
+                          {score ?? '-'}
+                        </TableCell>
+                      )
+                    })}
+                    <TableCell>
+                      {job.result && (
+                        <Button variant="ghost" size="sm" onClick={() => onOpen(job.result!)} title="Open analysis">
+                          <ExternalLink className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
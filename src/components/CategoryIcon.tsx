@@ -0,0 +1,50 @@
+import {
+  Award,
+  FileText,
+  Gauge,
+  Globe,
+  Heart,
+  Leaf,
+  Lock,
+  MessageSquare,
+  Palette,
+  Scale,
+  Shield,
+  ShoppingCart,
+  Star,
+  Target,
+  TrendingUp,
+  Users,
+  Zap
+} from 'lucide-react'
+
+// Keys match CATEGORY_ICON_NAMES in the category registry
+const CATEGORY_ICONS: Record<string, typeof Gauge> = {
+  Zap,
+  TrendingUp,
+  Shield,
+  Palette,
+  Users,
+  Gauge,
+  Star,
+  Heart,
+  Target,
+  Lock,
+  Globe,
+  ShoppingCart,
+  MessageSquare,
+  FileText,
+  Award,
+  Leaf,
+  Scale
+}
+
+interface CategoryIconProps {
+  icon: string
+  className?: string
+}
+
+export function CategoryIcon({ icon, className }: CategoryIconProps) {
+  const Icon = CATEGORY_ICONS[icon] ?? Gauge
+  return <Icon className={className} />
+}
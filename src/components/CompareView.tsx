@@ -0,0 +1,130 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { X } from 'lucide-react'
+import { compareAnalyses, type FindingStatus, type ValueDelta } from '../lib/compare'
+import type { AnalysisResult } from '../types/analysis'
+
+interface CompareViewProps {
+  before: AnalysisResult
+  after: AnalysisResult
+  onClose: () => void
+}
+
+const TREND_CLASSES: Record<ValueDelta['trend'], string> = {
+  better: 'text-green-600',
+  worse: 'text-red-600',
+  same: 'text-muted-foreground'
+}
+
+const STATUS_VARIANTS: Record<FindingStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  new: 'destructive',
+  resolved: 'default',
+  unchanged: 'outline'
+}
+
+const describe = (analysis: AnalysisResult) =>
+  `${new URL(analysis.url).hostname} · ${new Date(analysis.timestamp).toLocaleDateString()}`
+
+function DeltaRow({ value }: { value: ValueDelta }) {
+  return (
+    <TableRow>
+      <TableCell>{value.label}</TableCell>
+      <TableCell className="text-right">{value.before}</TableCell>
+      <TableCell className="text-right">{value.after}</TableCell>
+      <TableCell className={`text-right font-semibold ${TREND_CLASSES[value.trend]}`}>
+        {value.delta > 0 ? `+${value.delta}` : value.delta}
+      </TableCell>
+    </TableRow>
+  )
+}
+
+export function CompareView({ before, after, onClose }: CompareViewProps) {
+  const comparison = compareAnalyses(before, after)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>Comparison</CardTitle>
+            <CardDescription>
+              {describe(before)} → {describe(after)}
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {comparison.map(({ category, label, score }) => (
+            <div key={category} className="text-center p-3 bg-muted/50 rounded-lg">
+              <div className="text-xs text-muted-foreground">{label}</div>
+              <div className="text-lg font-semibold">
+                {score.before} → {score.after}
+              </div>
+              <div className={`text-sm font-medium ${TREND_CLASSES[score.trend]}`}>
+                {score.delta > 0 ? `+${score.delta}` : score.delta}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Tabs defaultValue={comparison[0]?.category} className="w-full">
+          <TabsList
+            className="grid w-full h-auto"
+            style={{ gridTemplateColumns: `repeat(${Math.min(comparison.length, 5)}, minmax(0, 1fr))` }}
+          >
+            {comparison.map(({ category, label }) => (
+              <TabsTrigger key={category} value={category} className="truncate">{label}</TabsTrigger>
+            ))}
+          </TabsList>
+
+          {comparison.map(({ category, score, subMetrics, findings }) => (
+            <TabsContent key={category} value={category} className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Metric</TableHead>
+                    <TableHead className="text-right">Before</TableHead>
+                    <TableHead className="text-right">After</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <DeltaRow value={score} />
+                  {subMetrics.map(value => <DeltaRow key={value.key} value={value} />)}
+                </TableBody>
+              </Table>
+
+              {(['new', 'resolved', 'unchanged'] as FindingStatus[]).map(status => {
+                const matching = findings.filter(finding => finding.status === status)
+                if (matching.length === 0) return null
+                return (
+                  <div key={status}>
+                    <h4 className="font-medium mb-2 capitalize">{status} ({matching.length})</h4>
+                    <div className="space-y-1">
+                      {matching.map((finding, index) => (
+                        <div key={index} className="flex items-start justify-between text-sm p-2 border rounded-lg">
+                          <span>{finding.text}</span>
+                          <div className="flex items-center space-x-1 ml-2 shrink-0">
+                            <Badge variant="outline" className="text-xs">{finding.kind}</Badge>
+                            <Badge variant={STATUS_VARIANTS[status]} className="text-xs">{status}</Badge>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })}
+            </TabsContent>
+          ))}
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
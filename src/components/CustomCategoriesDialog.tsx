@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from './ui/form'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { Pencil, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { CategoryIcon } from './CategoryIcon'
+import {
+  BUILT_IN_CATEGORIES,
+  CATEGORY_ICON_NAMES,
+  CUSTOM_CATEGORY_COLOR,
+  deleteCustomCategory,
+  saveCustomCategory,
+  subMetricKey,
+  type CategoryDefinition
+} from '../lib/category-registry'
+
+interface CustomCategoriesDialogProps {
+  workspaceId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  categories: CategoryDefinition[]
+  onChange: () => void
+}
+
+const MAX_SUB_METRICS = 6
+
+// Comma-separated labels, with duplicates and labels that produce no key dropped
+const parseSubMetrics = (value: string) => {
+  const labels = value.split(',').map(label => label.trim()).filter(Boolean)
+  const subMetrics = labels.map(label => ({ key: subMetricKey(label), label })).filter(subMetric => subMetric.key)
+  return subMetrics.filter((subMetric, index) => subMetrics.findIndex(item => item.key === subMetric.key) === index)
+}
+
+const categoryFormSchema = z.object({
+  label: z
+    .string()
+    .trim()
+    .min(1, 'Enter a name')
+    .refine(
+      label => !BUILT_IN_CATEGORIES.some(category => category.label.toLowerCase() === label.toLowerCase()),
+      'A built-in category already uses this name'
+    ),
+  icon: z.string().min(1),
+  rubric: z.string().trim().min(20, 'Describe how the category should be scored'),
+  subMetrics: z
+    .string()
+    .refine(value => parseSubMetrics(value).length <= MAX_SUB_METRICS, `Use at most ${MAX_SUB_METRICS} sub-metrics`)
+})
+
+type CategoryFormValues = z.infer<typeof categoryFormSchema>
+
+const EMPTY_FORM: CategoryFormValues = { label: '', icon: 'Gauge', rubric: '', subMetrics: '' }
+
+const toFormValues = (category: CategoryDefinition): CategoryFormValues => ({
+  label: category.label,
+  icon: category.icon,
+  rubric: category.rubric,
+  subMetrics: category.subMetrics.map(subMetric => subMetric.label).join(', ')
+})
+
+export function CustomCategoriesDialog({ workspaceId, open, onOpenChange, categories, onChange }: CustomCategoriesDialogProps) {
+  const [editing, setEditing] = useState<CategoryDefinition | null>(null)
+
+  const form = useForm<CategoryFormValues>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: EMPTY_FORM
+  })
+
+  useEffect(() => {
+    if (!open) return
+    setEditing(null)
+    form.reset(EMPTY_FORM)
+  }, [open, form])
+
+  const startEditing = (category: CategoryDefinition) => {
+    setEditing(category)
+    form.reset(toFormValues(category))
+  }
+
+  const cancelEditing = () => {
+    setEditing(null)
+    form.reset(EMPTY_FORM)
+  }
+
+  const save = form.handleSubmit(async (values) => {
+    const label = values.label.trim()
+    if (categories.some(category => category.id !== editing?.id && category.label.toLowerCase() === label.toLowerCase())) {
+      form.setError('label', { message: 'A custom category already uses this name' })
+      return
+    }
+
+    try {
+      await saveCustomCategory({
+        id: editing?.id ?? `category_${crypto.randomUUID()}`,
+        label,
+        shortLabel: label,
+        icon: values.icon,
+        color: CUSTOM_CATEGORY_COLOR,
+        builtIn: false,
+        rubric: values.rubric.trim(),
+        subMetrics: parseSubMetrics(values.subMetrics),
+        createdAt: editing?.createdAt ?? new Date().toISOString()
+      }, workspaceId)
+      toast.success(`Category "${label}" saved`)
+      cancelEditing()
+      onChange()
+    } catch (error) {
+      console.error('Failed to save category:', error)
+      toast.error('Failed to save category')
+    }
+  })
+
+  const remove = async (category: CategoryDefinition) => {
+    try {
+      await deleteCustomCategory(category.id, workspaceId)
+      if (editing?.id === category.id) cancelEditing()
+      onChange()
+    } catch (error) {
+      console.error('Failed to delete category:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to delete category')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Custom Categories</DialogTitle>
+          <DialogDescription>Score sites on your own criteria alongside the built-in categories</DialogDescription>
+        </DialogHeader>
+
+        {categories.length > 0 && (
+          <div className="space-y-2">
+            {categories.map(category => (
+              <div key={category.id} className="flex items-center justify-between p-2 border rounded-lg">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <CategoryIcon icon={category.icon} className={`h-4 w-4 shrink-0 ${category.color}`} />
+                  <span className="font-medium text-sm truncate">{category.label}</span>
+                  {category.subMetrics.length > 0 && (
+                    <Badge variant="secondary">{category.subMetrics.length} sub-metrics</Badge>
+                  )}
+                </div>
+                <div className="flex space-x-1">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => startEditing(category)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => remove(category)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={save} className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="label"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Trust Signals" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="icon"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Icon</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CATEGORY_ICON_NAMES.map(name => (
+                          <SelectItem key={name} value={name}>
+                            <span className="flex items-center space-x-2">
+                              <CategoryIcon icon={name} className="h-4 w-4" />
+                              <span>{name}</span>
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="rubric"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Scoring rubric</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      rows={4}
+                      placeholder="Score how much the page builds trust: testimonials, reviews, security badges, clear contact details..."
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>Sent to the model as the instructions for scoring this category</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="subMetrics"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sub-metrics</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Testimonials, Security badges, Contact details" {...field} />
+                  </FormControl>
+                  <FormDescription>Optional, comma-separated; each is scored 0-100</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              {editing && (
+                <Button type="button" variant="ghost" onClick={cancelEditing}>Cancel</Button>
+              )}
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {editing ? 'Update Category' : 'Add Category'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import { Alert, AlertDescription } from './ui/alert'
+import { CheckCircle, ImageOff } from 'lucide-react'
+import type { DesignAnnotation } from '../types/analysis'
+
+interface DesignAnnotationsProps {
+  screenshotUrl?: string
+  annotations: DesignAnnotation[]
+  recommendations: string[]
+}
+
+const percent = (value: number) => `${value * 100}%`
+
+export function DesignAnnotations({ screenshotUrl, annotations, recommendations }: DesignAnnotationsProps) {
+  const [hovered, setHovered] = useState<number | null>(null)
+  const [imageFailed, setImageFailed] = useState(false)
+
+  // Hovering either a box or a recommendation highlights both sides of the link
+  const activeRecommendation = hovered === null ? null : annotations[hovered]?.recommendationIndex ?? null
+  const isActive = (annotation: DesignAnnotation) => annotation.recommendationIndex === activeRecommendation
+
+  return (
+    <div className="space-y-4">
+      {screenshotUrl && (
+        <div>
+          <h4 className="font-medium mb-3">Screenshot</h4>
+          {imageFailed ? (
+            <div className="flex items-center justify-center h-32 border rounded-lg text-sm text-muted-foreground">
+              <ImageOff className="h-4 w-4 mr-2" />
+              Screenshot is no longer available
+            </div>
+          ) : (
+            <div className="max-h-[600px] overflow-y-auto border rounded-lg">
+              <div className="relative">
+                <img
+                  src={screenshotUrl}
+                  alt="Captured screenshot of the analyzed page"
+                  className="w-full block"
+                  onError={() => setImageFailed(true)}
+                />
+                {annotations.map((annotation, index) => (
+                  <div
+                    key={index}
+                    className={`absolute border-2 rounded transition-colors ${isActive(annotation) ? 'border-red-500 bg-red-500/20' : 'border-red-500/60 bg-red-500/5'}`}
+                    style={{
+                      left: percent(annotation.box.x),
+                      top: percent(annotation.box.y),
+                      width: percent(annotation.box.width),
+                      height: percent(annotation.box.height)
+                    }}
+                    title={`${annotation.label}: ${annotation.detail}`}
+                    onMouseEnter={() => setHovered(index)}
+                    onMouseLeave={() => setHovered(null)}
+                  >
+                    <span className="absolute -top-3 -left-3 h-6 w-6 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
+                      {index + 1}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-medium mb-3">Recommendations</h4>
+        <div className="space-y-2">
+          {recommendations.map((rec, index) => {
+            const linked = annotations
+              .map((annotation, annotationIndex) => ({ annotation, annotationIndex }))
+              .filter(({ annotation }) => annotation.recommendationIndex === index)
+
+            return (
+              <Alert
+                key={index}
+                className={activeRecommendation === index ? 'border-red-500 bg-red-500/5' : ''}
+                onMouseEnter={() => linked.length > 0 && setHovered(linked[0].annotationIndex)}
+                onMouseLeave={() => linked.length > 0 && setHovered(null)}
+              >
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {linked.length > 0 && (
+                    <span className="font-medium mr-1">
+                      {linked.map(({ annotationIndex }) => `#${annotationIndex + 1}`).join(', ')}
+                    </span>
+                  )}
+                  {rec}
+                  {linked.map(({ annotation, annotationIndex }) => (
+                    <span key={annotationIndex} className="block text-xs text-muted-foreground mt-1">
+                      {annotation.label}: {annotation.detail}
+                    </span>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
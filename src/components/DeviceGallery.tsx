@@ -0,0 +1,96 @@
+import { useState } from 'react'
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group'
+import { Badge } from './ui/badge'
+import { CheckCircle, ImageOff, Monitor, Smartphone, Tablet, XCircle } from 'lucide-react'
+import type { DeviceCheck, DeviceResult } from '../types/analysis'
+
+interface DeviceGalleryProps {
+  devices: DeviceResult[]
+  getScoreColor: (score: number) => string
+}
+
+const CHECK_LABELS: Record<DeviceCheck['type'], string> = {
+  'horizontal-overflow': 'Overflow',
+  'tap-target': 'Tap target',
+  'viewport-meta': 'Viewport'
+}
+
+const deviceIcon = (result: DeviceResult) => {
+  if (!result.device.touch) return Monitor
+  return result.device.width < 600 ? Smartphone : Tablet
+}
+
+export function DeviceGallery({ devices, getScoreColor }: DeviceGalleryProps) {
+  const [selectedId, setSelectedId] = useState(devices[0]?.device.id)
+  const selected = devices.find(result => result.device.id === selectedId) ?? devices[0]
+  if (!selected) return null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Devices</h4>
+        <ToggleGroup type="single" value={selected.device.id} onValueChange={(value) => value && setSelectedId(value)}>
+          {devices.map(result => {
+            const Icon = deviceIcon(result)
+            return (
+              <ToggleGroupItem key={result.device.id} value={result.device.id} aria-label={result.device.label} className="px-3">
+                <Icon className="h-4 w-4 mr-2" />
+                {result.device.label}
+                <span className={`ml-2 font-semibold ${getScoreColor(result.score)}`}>{result.score}</span>
+              </ToggleGroupItem>
+            )
+          })}
+        </ToggleGroup>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="flex justify-center bg-muted/50 rounded-lg p-4">
+          {selected.screenshotUrl ? (
+            <div
+              className="max-h-[520px] overflow-y-auto border rounded-lg bg-background"
+              style={{ width: '100%', maxWidth: Math.min(selected.device.width, 420) }}
+            >
+              <img
+                src={selected.screenshotUrl}
+                alt={`${selected.device.label} screenshot`}
+                className="w-full block"
+              />
+            </div>
+          ) : (
+            <div className="flex items-center text-sm text-muted-foreground py-16">
+              <ImageOff className="h-4 w-4 mr-2" />
+              No screenshot captured
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="text-sm text-muted-foreground">
+            {selected.device.width}x{selected.device.height}
+            {selected.device.touch ? ' · touch' : ''}
+            {selected.pageWidth !== undefined && ` · page renders ${selected.pageWidth}px wide`}
+          </div>
+          {selected.checks.length === 0 ? (
+            <div className="flex items-center space-x-2 text-sm text-green-600">
+              <CheckCircle className="h-4 w-4" />
+              <span>No responsive problems found</span>
+            </div>
+          ) : (
+            selected.checks.map((check, index) => (
+              <div key={index} className="flex items-start space-x-3 p-3 border rounded-lg">
+                <XCircle className="h-4 w-4 text-red-500 mt-0.5 shrink-0" />
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline" className="text-xs">{CHECK_LABELS[check.type]}</Badge>
+                  </div>
+                  <p className="text-sm">{check.message}</p>
+                  {check.selector && <code className="block text-xs text-muted-foreground truncate">{check.selector}</code>}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
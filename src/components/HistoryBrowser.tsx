@@ -0,0 +1,413 @@
+import { useCallback, useEffect, useRef, useState, type MouseEvent } from 'react'
+import type { DateRange } from 'react-day-picker'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Checkbox } from './ui/checkbox'
+import { Slider } from './ui/slider'
+import { Calendar } from './ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from './ui/pagination'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog'
+import { CalendarDays, Download, ExternalLink, History, Loader2, Search, SlidersHorizontal, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import {
+  DEFAULT_ANALYSIS_QUERY,
+  deleteAnalyses,
+  queryAnalyses,
+  type AnalysisPage,
+  type AnalysisQuery,
+  type AnalysisSort
+} from '../lib/analysis-store'
+import { overallScore, type GradeBand } from '../lib/scoring'
+import { BUILT_IN_CATEGORIES, type CategoryDefinition } from '../lib/category-registry'
+import { analysesSummaryCsv } from '../lib/serializers'
+import { downloadFile } from '../lib/download'
+import { hostnameOf } from '../lib/url'
+import type { AnalysisResult } from '../types/analysis'
+
+interface HistoryBrowserProps {
+  workspaceId: string
+  customCategories: CategoryDefinition[]
+  grades: GradeBand[]
+  getScoreColor: (score: number) => string
+  getGrade: (score: number) => string
+  onOpen: (result: AnalysisResult) => void
+  // Called after analyses are deleted so the sidebar and stats can refresh
+  onChanged: () => void
+  // Viewers can browse and export but not delete
+  readOnly?: boolean
+}
+
+const PAGE_SIZE = 20
+const SEARCH_DELAY_MS = 300
+
+const SORT_OPTIONS: Array<{ value: AnalysisSort; label: string }> = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'score-desc', label: 'Highest score' },
+  { value: 'score-asc', label: 'Lowest score' },
+  { value: 'url', label: 'URL (A-Z)' }
+]
+
+// First, last, and the current page with its neighbours; null marks a gap
+const pageNumbers = (page: number, pageCount: number) => {
+  const pages = [...new Set([1, page - 1, page, page + 1, pageCount])]
+    .filter(number => number >= 1 && number <= pageCount)
+    .sort((a, b) => a - b)
+  return pages.flatMap((number, index) => index > 0 && number - pages[index - 1] > 1 ? [null, number] : [number])
+}
+
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999).getTime()
+
+const describeRange = (range: DateRange | undefined) => {
+  if (!range?.from) return 'Any date'
+  const from = range.from.toLocaleDateString()
+  return range.to && range.to.getTime() !== range.from.getTime() ? `${from} - ${range.to.toLocaleDateString()}` : from
+}
+
+export function HistoryBrowser({
+  workspaceId,
+  customCategories,
+  grades,
+  getScoreColor,
+  getGrade,
+  onOpen,
+  onChanged,
+  readOnly = false
+}: HistoryBrowserProps) {
+  const [query, setQuery] = useState<AnalysisQuery>(DEFAULT_ANALYSIS_QUERY)
+  const [search, setSearch] = useState('')
+  const [range, setRange] = useState<DateRange | undefined>()
+  const [page, setPage] = useState(1)
+  const [data, setData] = useState<AnalysisPage>({ items: [], total: 0 })
+  const [loading, setLoading] = useState(false)
+  const [selected, setSelected] = useState<string[]>([])
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const latestLoadRef = useRef(0)
+
+  const pageCount = Math.max(1, Math.ceil(data.total / PAGE_SIZE))
+  const categories = [...BUILT_IN_CATEGORIES, ...customCategories]
+
+  // Every filter change starts again from the first page
+  const updateQuery = (patch: Partial<AnalysisQuery>) => {
+    setQuery(prev => ({ ...prev, ...patch }))
+    setPage(1)
+  }
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(prev => prev.search === search ? prev : { ...prev, search })
+      setPage(1)
+    }, SEARCH_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  // Responses can arrive out of order while filters change quickly; only the latest load is applied
+  const load = useCallback(async () => {
+    const loadId = ++latestLoadRef.current
+    setLoading(true)
+    try {
+      const next = await queryAnalyses(workspaceId, query, page, PAGE_SIZE)
+      if (loadId === latestLoadRef.current) setData(next)
+    } catch (error) {
+      if (loadId !== latestLoadRef.current) return
+      console.error('Failed to load history:', error)
+      toast.error('Failed to load analysis history')
+    } finally {
+      if (loadId === latestLoadRef.current) setLoading(false)
+    }
+  }, [workspaceId, query, page])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  useEffect(() => {
+    setSelected([])
+  }, [query, page])
+
+  const selectRange = (next: DateRange | undefined) => {
+    setRange(next)
+    updateQuery({
+      from: next?.from?.getTime(),
+      to: next?.from ? endOfDay(next.to ?? next.from) : undefined
+    })
+  }
+
+  const toggleCategory = (id: string, checked: boolean) => {
+    updateQuery({ categories: checked ? [...query.categories, id] : query.categories.filter(item => item !== id) })
+  }
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, id] : prev.filter(item => item !== id))
+  }
+
+  const allSelected = data.items.length > 0 && data.items.every(item => selected.includes(item.id))
+
+  const resetFilters = () => {
+    setSearch('')
+    setRange(undefined)
+    updateQuery(DEFAULT_ANALYSIS_QUERY)
+  }
+
+  const exportSelected = () => {
+    const results = data.items.filter(item => selected.includes(item.id))
+    downloadFile(
+      analysesSummaryCsv(results, grades),
+      `analysis-history-${new Date().toISOString().split('T')[0]}.csv`,
+      'text/csv'
+    )
+  }
+
+  const removeSelected = async () => {
+    try {
+      await deleteAnalyses(selected)
+      toast.success(`Deleted ${selected.length} ${selected.length === 1 ? 'analysis' : 'analyses'}`)
+      setSelected([])
+      // The last page may now be empty
+      if (page > 1 && selected.length === data.items.length) {
+        setPage(page - 1)
+      } else {
+        await load()
+      }
+      onChanged()
+    } catch (error) {
+      console.error('Failed to delete analyses:', error)
+      toast.error('Failed to delete analyses')
+    } finally {
+      setConfirmDelete(false)
+    }
+  }
+
+  const goTo = (target: number) => (e: MouseEvent) => {
+    e.preventDefault()
+    if (target >= 1 && target <= pageCount) setPage(target)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Analysis History</span>
+        </CardTitle>
+        <CardDescription>
+          {data.total} {data.total === 1 ? 'analysis matches' : 'analyses match'} the current filters
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-48">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by URL or hostname"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline">
+                <CalendarDays className="h-4 w-4 mr-2" />
+                {describeRange(range)}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar mode="range" selected={range} onSelect={selectRange} numberOfMonths={2} />
+            </PopoverContent>
+          </Popover>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline">
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                Filters
+                {(query.categories.length > 0 || query.minScore > 0 || query.maxScore < 100) && ' *'}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 space-y-4" align="end">
+              <div className="space-y-3">
+                <div className="flex items-center justify-between text-sm">
+                  <Label>Overall score</Label>
+                  <span className="text-muted-foreground">{query.minScore} - {query.maxScore}</span>
+                </div>
+                <Slider
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={[query.minScore, query.maxScore]}
+                  onValueChange={([minScore, maxScore]) => updateQuery({ minScore, maxScore })}
+                  aria-label="Overall score range"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Covers categories</Label>
+                {categories.map(category => (
+                  <label key={category.id} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={query.categories.includes(category.id)}
+                      onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+                    />
+                    <span className="truncate">{category.label}</span>
+                  </label>
+                ))}
+              </div>
+            </PopoverContent>
+          </Popover>
+
+          <Select value={query.sort} onValueChange={(sort) => updateQuery({ sort: sort as AnalysisSort })}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button variant="ghost" onClick={resetFilters}>Reset</Button>
+        </div>
+
+        {selected.length > 0 && (
+          <div className="flex items-center justify-between p-2 border rounded-lg text-sm">
+            <span className="text-muted-foreground">{selected.length} selected</span>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={exportSelected}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+              {!readOnly && (
+                <Button variant="outline" size="sm" onClick={() => setConfirmDelete(true)}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => setSelected(checked === true ? data.items.map(item => item.id) : [])}
+                  aria-label="Select all on this page"
+                />
+              </TableHead>
+              <TableHead>Site</TableHead>
+              <TableHead>Analyzed</TableHead>
+              <TableHead className="text-right">Overall</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading && data.items.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8">
+                  <Loader2 className="h-5 w-5 animate-spin mx-auto text-muted-foreground" />
+                </TableCell>
+              </TableRow>
+            )}
+            {!loading && data.items.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  No analyses match these filters
+                </TableCell>
+              </TableRow>
+            )}
+            {data.items.map(item => (
+              <TableRow key={item.id} className={loading ? 'opacity-60' : ''}>
+                <TableCell>
+                  <Checkbox
+                    checked={selected.includes(item.id)}
+                    onCheckedChange={(checked) => toggleSelected(item.id, checked === true)}
+                    aria-label={`Select ${hostnameOf(item.url)}`}
+                  />
+                </TableCell>
+                <TableCell className="max-w-64">
+                  <div className="font-medium truncate">
+                    {hostnameOf(item.url)}
+                    {item.siteReport && <span className="ml-2 text-xs text-muted-foreground">site crawl</span>}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">{item.url}</div>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{new Date(item.timestamp).toLocaleString()}</TableCell>
+                <TableCell className={`text-right font-semibold ${getScoreColor(overallScore(item))}`}>
+                  {overallScore(item)} ({getGrade(overallScore(item))})
+                </TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="sm" onClick={() => onOpen(item)} title="Open analysis">
+                    <ExternalLink className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {pageCount > 1 && (
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious href="#" onClick={goTo(page - 1)} aria-disabled={page === 1} />
+              </PaginationItem>
+              {pageNumbers(page, pageCount).map((number, index) => (
+                <PaginationItem key={number ?? `gap-${index}`}>
+                  {number === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink href="#" isActive={number === page} onClick={goTo(number)}>{number}</PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext href="#" onClick={goTo(page + 1)} aria-disabled={page === pageCount} />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selected.length} {selected.length === 1 ? 'analysis' : 'analyses'}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Site crawls are deleted together with their pages. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={removeSelected}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
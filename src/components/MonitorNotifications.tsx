@@ -0,0 +1,63 @@
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Button } from './ui/button'
+import { Bell } from 'lucide-react'
+import type { MonitorNotification } from '../lib/monitors'
+import { hostnameOf } from '../lib/url'
+
+interface MonitorNotificationsProps {
+  notifications: MonitorNotification[]
+  onOpen: (notification: MonitorNotification) => void
+  onMarkAllRead: () => void
+}
+
+export function MonitorNotifications({ notifications, onOpen, onMarkAllRead }: MonitorNotificationsProps) {
+  const unread = notifications.filter(notification => !notification.read).length
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Regression alerts">
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span className="absolute -top-1 -right-1 h-4 min-w-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4">
+              {unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="text-sm font-medium">Regression Alerts</span>
+          {unread > 0 && (
+            <Button variant="ghost" size="sm" className="h-auto p-0 text-xs" onClick={onMarkAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No regressions detected</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                className={`w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-muted/50 transition-colors ${notification.read ? '' : 'bg-muted/30'}`}
+                onClick={() => onOpen(notification)}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{hostnameOf(notification.url)}</span>
+                  <span className="text-xs text-muted-foreground">{new Date(notification.createdAt).toLocaleString()}</span>
+                </div>
+                <ul className="mt-1 space-y-0.5">
+                  {notification.messages.map((message, index) => (
+                    <li key={index} className="text-xs text-muted-foreground">{message}</li>
+                  ))}
+                </ul>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,242 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Switch } from './ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Activity, Loader2, Play, Plus, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import {
+  SCHEDULE_INTERVALS,
+  deleteMonitor,
+  listMonitors,
+  saveMonitor,
+  type Monitor,
+  type MonitorSchedule
+} from '../lib/monitors'
+import type { MonitorScheduler } from '../lib/monitor-scheduler'
+import { hostnameOf, normalizeUrl } from '../lib/url'
+
+interface MonitorsPanelProps {
+  workspaceId: string
+  scheduler: MonitorScheduler | null
+  // Viewers see the workspace's monitors but can't change or run them
+  readOnly?: boolean
+}
+
+const DEFAULT_THRESHOLD = 5
+
+export function MonitorsPanel({ workspaceId, scheduler, readOnly = false }: MonitorsPanelProps) {
+  const [monitors, setMonitors] = useState<Monitor[]>([])
+  const [url, setUrl] = useState('')
+  const [schedule, setSchedule] = useState<MonitorSchedule>('daily')
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD)
+  const [webhookUrl, setWebhookUrl] = useState('')
+  const [runningId, setRunningId] = useState<string | null>(null)
+
+  const loadMonitors = useCallback(async () => {
+    try {
+      setMonitors(await listMonitors(workspaceId))
+    } catch (error) {
+      console.error('Failed to load monitors:', error)
+      toast.error('Failed to load monitors')
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    loadMonitors()
+  }, [loadMonitors])
+
+  const createMonitor = async () => {
+    const validUrl = normalizeUrl(url)
+    if (!validUrl) {
+      toast.error('Please enter a valid URL')
+      return
+    }
+    const validWebhook = webhookUrl.trim() ? normalizeUrl(webhookUrl) : null
+    if (webhookUrl.trim() && !validWebhook) {
+      toast.error('Please enter a valid webhook URL')
+      return
+    }
+
+    // A new monitor is due immediately so its first run sets the baseline
+    const monitor: Monitor = {
+      id: `monitor_${crypto.randomUUID()}`,
+      url: validUrl,
+      schedule,
+      threshold: Math.max(1, threshold),
+      webhookUrl: validWebhook ?? undefined,
+      enabled: true,
+      lastRunAt: null,
+      lastAnalysisId: null,
+      nextRunAt: Date.now(),
+      createdAt: new Date().toISOString()
+    }
+
+    try {
+      await saveMonitor(monitor, workspaceId)
+      setUrl('')
+      setWebhookUrl('')
+      await loadMonitors()
+      toast.success(`Monitoring ${hostnameOf(validUrl)} ${schedule}`)
+      scheduler?.tick()
+    } catch (error) {
+      console.error('Failed to save monitor:', error)
+      toast.error('Failed to save monitor')
+    }
+  }
+
+  const toggleMonitor = async (monitor: Monitor, enabled: boolean) => {
+    try {
+      await saveMonitor({ ...monitor, enabled }, workspaceId)
+      await loadMonitors()
+    } catch (error) {
+      console.error('Failed to update monitor:', error)
+      toast.error('Failed to update monitor')
+    }
+  }
+
+  const runMonitor = async (monitor: Monitor) => {
+    if (!scheduler) return
+
+    setRunningId(monitor.id)
+    try {
+      await scheduler.runNow(monitor)
+      await loadMonitors()
+      toast.success(`Checked ${hostnameOf(monitor.url)}`)
+    } catch (error) {
+      console.error('Monitor run failed:', error)
+      toast.error('Monitor run failed. Please try again.')
+    } finally {
+      setRunningId(null)
+    }
+  }
+
+  const removeMonitor = async (monitor: Monitor) => {
+    try {
+      await deleteMonitor(monitor.id)
+      await loadMonitors()
+    } catch (error) {
+      console.error('Failed to delete monitor:', error)
+      toast.error('Failed to delete monitor')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {!readOnly && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Activity className="h-5 w-5" />
+              <span>New Monitor</span>
+            </CardTitle>
+            <CardDescription>
+              Re-analyze a URL on a schedule and get alerted when scores regress. Checks run while the app is open.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="monitor-url">URL</Label>
+                <Input
+                  id="monitor-url"
+                  placeholder="https://example.com"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="monitor-schedule">Schedule</Label>
+                <Select value={schedule} onValueChange={(value) => setSchedule(value as MonitorSchedule)}>
+                  <SelectTrigger id="monitor-schedule">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SCHEDULE_INTERVALS) as MonitorSchedule[]).map(option => (
+                      <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="monitor-threshold">Alert on score drop of (points)</Label>
+                <Input
+                  id="monitor-threshold"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value) || DEFAULT_THRESHOLD)}
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="monitor-webhook">Webhook URL (optional)</Label>
+                <Input
+                  id="monitor-webhook"
+                  placeholder="https://hooks.example.com/regressions"
+                  value={webhookUrl}
+                  onChange={(e) => setWebhookUrl(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button onClick={createMonitor}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Monitor
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {monitors.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Monitors</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {monitors.map(monitor => (
+              <div key={monitor.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-medium">{hostnameOf(monitor.url)}</span>
+                    <Badge variant="outline" className="text-xs capitalize">{monitor.schedule}</Badge>
+                    {monitor.webhookUrl && <Badge variant="secondary" className="text-xs">webhook</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Alerts on drops of {monitor.threshold}+ points
+                    {monitor.lastRunAt ? ` · last run ${new Date(monitor.lastRunAt).toLocaleString()}` : ' · not run yet'}
+                    {monitor.enabled && ` · next run ${new Date(monitor.nextRunAt).toLocaleString()}`}
+                  </div>
+                </div>
+                {!readOnly && (
+                  <div className="flex items-center space-x-1">
+                    <Switch
+                      checked={monitor.enabled}
+                      onCheckedChange={(checked) => toggleMonitor(monitor, checked)}
+                      aria-label="Enable monitor"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={runningId !== null || !scheduler}
+                      onClick={() => runMonitor(monitor)}
+                    >
+                      {runningId === monitor.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="ghost" size="sm" disabled={runningId === monitor.id} onClick={() => removeMonitor(monitor)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Separator } from './ui/separator'
+import { Badge } from './ui/badge'
+import { BarChart3, TrendingUp } from 'lucide-react'
+import type { PortfolioStats } from '../lib/portfolio'
+
+interface PortfolioDashboardProps {
+  stats: PortfolioStats | null
+  getScoreColor: (score: number) => string
+}
+
+export function PortfolioDashboard({ stats, getScoreColor }: PortfolioDashboardProps) {
+  const largestBand = Math.max(1, ...(stats?.distribution.map(band => band.count) ?? []))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <BarChart3 className="h-5 w-5" />
+          <span>Portfolio</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">Total Analyses</span>
+          <span className="font-semibold">{stats?.total ?? 0}</span>
+        </div>
+        <Separator />
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">Average Score</span>
+          <span className={`font-semibold ${stats && stats.total > 0 ? getScoreColor(stats.averageScore) : ''}`}>
+            {stats?.averageScore ?? 0}
+          </span>
+        </div>
+        <Separator />
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">Best Category</span>
+          <span className="font-semibold text-right">
+            {stats?.best ? `${stats.best.label} (${Math.round(stats.best.average)})` : 'N/A'}
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">Worst Category</span>
+          <span className="font-semibold text-right">
+            {stats?.worst ? `${stats.worst.label} (${Math.round(stats.worst.average)})` : 'N/A'}
+          </span>
+        </div>
+
+        {stats && stats.total > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Score Distribution</h4>
+              {stats.distribution.map(band => (
+                <div key={band.grade} className="grid grid-cols-[1.5rem_1fr_2rem] items-center gap-2 text-xs">
+                  <span className="font-semibold" title={`${band.min}-${band.max}`}>{band.grade}</span>
+                  <div className="h-2 rounded-full bg-muted overflow-hidden">
+                    <div className="h-full bg-primary" style={{ width: `${(band.count / largestBand) * 100}%` }} />
+                  </div>
+                  <span className="text-right text-muted-foreground">{band.count}</span>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Most Analyzed Sites</h4>
+              {stats.topSites.map(site => (
+                <div key={site.hostname} className="flex items-center justify-between text-xs">
+                  <span className="truncate mr-2">{site.hostname}</span>
+                  <span className="flex items-center space-x-2 shrink-0">
+                    <span className="text-muted-foreground">{site.analyses}×</span>
+                    <span className={`font-semibold ${getScoreColor(site.latestScore)}`}>{site.latestScore}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {stats.recurringIssues.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Recurring Issues</h4>
+                  {stats.recurringIssues.map(issue => (
+                    <div key={issue.key} className="flex items-start justify-between gap-2 text-xs">
+                      <span className="line-clamp-2">{issue.label}</span>
+                      <Badge variant="secondary" className="shrink-0">{issue.sites} sites</Badge>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {stats.streaks.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Improvement Streaks</h4>
+                  {stats.streaks.map(streak => (
+                    <div key={streak.hostname} className="flex items-center justify-between text-xs">
+                      <span className="truncate mr-2">{streak.hostname}</span>
+                      <span className="flex items-center space-x-1 shrink-0 text-green-600">
+                        <TrendingUp className="h-3 w-3" />
+                        <span>{streak.runs} {streak.runs === 1 ? 'run' : 'runs'}, +{streak.gain}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,31 @@
+import type { ResourceTiming } from '../types/analysis'
+
+interface ResourceWaterfallProps {
+  resources: ResourceTiming[]
+}
+
+export function ResourceWaterfall({ resources }: ResourceWaterfallProps) {
+  const totalTime = Math.max(...resources.map(resource => resource.endTime), 1)
+
+  return (
+    <div className="space-y-1">
+      {resources.map((resource, index) => (
+        <div key={index} className="flex items-center space-x-2 text-xs">
+          <span className="w-1/3 truncate text-muted-foreground" title={resource.url}>
+            {resource.url}
+          </span>
+          <div className="relative flex-1 h-3 bg-muted/50 rounded">
+            <div
+              className="absolute h-3 bg-primary/60 rounded"
+              style={{
+                left: `${(resource.startTime / totalTime) * 100}%`,
+                width: `${Math.max(((resource.endTime - resource.startTime) / totalTime) * 100, 0.5)}%`
+              }}
+            />
+          </div>
+          <span className="w-16 text-right">{resource.endTime - resource.startTime}ms</span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Slider } from './ui/slider'
+import { Alert, AlertDescription } from './ui/alert'
+import { AlertTriangle, Loader2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { CategoryIcon } from './CategoryIcon'
+import {
+  DEFAULT_SCORING,
+  MAX_CATEGORY_WEIGHT,
+  saveScoringConfig,
+  validateScoring,
+  weightOf,
+  type ScoringConfig
+} from '../lib/scoring'
+import type { CategoryDefinition } from '../lib/category-registry'
+
+interface ScoringDialogProps {
+  workspaceId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  categories: CategoryDefinition[]
+  config: ScoringConfig
+  onSaved: (config: ScoringConfig) => void
+}
+
+export function ScoringDialog({ workspaceId, open, onOpenChange, categories, config, onSaved }: ScoringDialogProps) {
+  const [draft, setDraft] = useState<ScoringConfig>(config)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) setDraft(config)
+  }, [open, config])
+
+  const errors = validateScoring(draft)
+  const totalWeight = categories.reduce((sum, category) => sum + weightOf(draft.weights, category.id), 0)
+
+  const setWeight = (id: string, weight: number) => {
+    setDraft(prev => ({ ...prev, weights: { ...prev.weights, [id]: weight } }))
+  }
+
+  const setThreshold = (field: keyof ScoringConfig['thresholds'], value: number) => {
+    setDraft(prev => ({ ...prev, thresholds: { ...prev.thresholds, [field]: value } }))
+  }
+
+  const setGradeMin = (index: number, min: number) => {
+    setDraft(prev => ({
+      ...prev,
+      grades: prev.grades.map((band, bandIndex) => bandIndex === index ? { ...band, min } : band)
+    }))
+  }
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      await saveScoringConfig(workspaceId, draft)
+      onSaved(draft)
+      toast.success('Scoring saved; new analyses will use these weights')
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to save scoring:', error)
+      toast.error('Failed to save scoring')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scoring</DialogTitle>
+          <DialogDescription>
+            How the overall score and grade are computed. Saved analyses keep the weights they were scored with.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-3">
+            <Label>Category weights</Label>
+            {categories.map(category => {
+              const weight = weightOf(draft.weights, category.id)
+              return (
+                <div key={category.id} className="grid grid-cols-[1fr_2fr_3.5rem] items-center gap-3 text-sm">
+                  <span className="flex items-center space-x-2 min-w-0">
+                    <CategoryIcon icon={category.icon} className={`h-4 w-4 shrink-0 ${category.color}`} />
+                    <span className="truncate">{category.label}</span>
+                  </span>
+                  <Slider
+                    min={0}
+                    max={MAX_CATEGORY_WEIGHT}
+                    step={0.5}
+                    value={[weight]}
+                    onValueChange={([value]) => setWeight(category.id, value)}
+                    aria-label={`${category.label} weight`}
+                  />
+                  <span className="text-right text-muted-foreground">
+                    {totalWeight > 0 ? Math.round((weight / totalWeight) * 100) : 0}%
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="threshold-good">Good from</Label>
+              <Input
+                id="threshold-good"
+                type="number"
+                min={0}
+                max={100}
+                value={draft.thresholds.good}
+                onChange={(e) => setThreshold('good', Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="threshold-fair">Fair from</Label>
+              <Input
+                id="threshold-fair"
+                type="number"
+                min={0}
+                max={100}
+                value={draft.thresholds.fair}
+                onChange={(e) => setThreshold('fair', Number(e.target.value))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Grade minimums</Label>
+            <div className="grid grid-cols-5 gap-2">
+              {draft.grades.map((band, index) => (
+                <div key={band.grade} className="space-y-1 text-center">
+                  <div className="text-sm font-semibold">{band.grade}</div>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={band.min}
+                    disabled={index === draft.grades.length - 1}
+                    onChange={(e) => setGradeMin(index, Number(e.target.value))}
+                    aria-label={`Minimum score for grade ${band.grade}`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{errors.join('. ')}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setDraft(DEFAULT_SCORING)}>Reset to defaults</Button>
+          <Button onClick={save} disabled={saving || errors.length > 0}>
+            {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
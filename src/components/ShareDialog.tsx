@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Calendar } from './ui/calendar'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Separator } from './ui/separator'
+import { CalendarDays, Copy, Eye, Link2, Loader2, Lock } from 'lucide-react'
+import toast from 'react-hot-toast'
+import {
+  createShare,
+  listShares,
+  revokeShare,
+  shareStatus,
+  shareUrl,
+  type AnalysisShare,
+  type ShareStatus
+} from '../lib/shares'
+import { hostnameOf } from '../lib/url'
+import type { AnalysisResult } from '../types/analysis'
+
+interface ShareDialogProps {
+  analysis: AnalysisResult
+  workspaceId: string
+  userId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const STATUS_VARIANTS: Record<ShareStatus, 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  expired: 'secondary',
+  revoked: 'outline'
+}
+
+const startOfToday = () => {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+}
+
+// Links stay valid through the whole expiry day
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999)
+
+export function ShareDialog({ analysis, workspaceId, userId, open, onOpenChange }: ShareDialogProps) {
+  const [shares, setShares] = useState<AnalysisShare[]>([])
+  const [password, setPassword] = useState('')
+  const [expiresOn, setExpiresOn] = useState<Date | undefined>()
+  const [creating, setCreating] = useState(false)
+
+  const loadShares = useCallback(async () => {
+    try {
+      setShares(await listShares(analysis.id))
+    } catch (error) {
+      console.error('Failed to load share links:', error)
+      toast.error('Failed to load share links')
+    }
+  }, [analysis.id])
+
+  useEffect(() => {
+    if (open) loadShares()
+  }, [open, loadShares])
+
+  const copyLink = async (share: AnalysisShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share))
+      toast.success('Link copied to clipboard')
+    } catch (error) {
+      console.error('Failed to copy link:', error)
+      toast.error('Failed to copy link')
+    }
+  }
+
+  const create = async () => {
+    setCreating(true)
+    try {
+      const share = await createShare(analysis.id, workspaceId, {
+        password: password || undefined,
+        expiresAt: expiresOn ? endOfDay(expiresOn).toISOString() : null
+      }, userId)
+      setPassword('')
+      setExpiresOn(undefined)
+      await loadShares()
+      await copyLink(share)
+    } catch (error) {
+      console.error('Failed to create share link:', error)
+      toast.error('Failed to create share link')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const revoke = async (share: AnalysisShare) => {
+    try {
+      await revokeShare(share.id)
+      await loadShares()
+      toast.success('Link revoked')
+    } catch (error) {
+      console.error('Failed to revoke share link:', error)
+      toast.error('Failed to revoke share link')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Share Report</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view this analysis of {hostnameOf(analysis.url)} without signing in
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Password (optional)</Label>
+              <Input
+                id="share-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start font-normal">
+                    <CalendarDays className="h-4 w-4 mr-2" />
+                    {expiresOn ? expiresOn.toLocaleDateString() : 'Never'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <Calendar
+                    mode="single"
+                    selected={expiresOn}
+                    onSelect={setExpiresOn}
+                    disabled={{ before: startOfToday() }}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+          <Button onClick={create} disabled={creating}>
+            {creating ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Link2 className="h-4 w-4 mr-2" />}
+            Create and Copy Link
+          </Button>
+
+          {shares.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {shares.map(share => {
+                  const status = shareStatus(share)
+                  return (
+                    <div key={share.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <Badge variant={STATUS_VARIANTS[status]} className="capitalize">{status}</Badge>
+                          {share.hasPassword && <Lock className="h-3 w-3 text-muted-foreground" />}
+                          <span className="text-xs text-muted-foreground truncate">…{share.id.slice(-8)}</span>
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Created {new Date(share.createdAt).toLocaleDateString()}
+                          {share.expiresAt && ` · expires ${new Date(share.expiresAt).toLocaleDateString()}`}
+                          {' · '}
+                          <Eye className="inline h-3 w-3" /> {share.views} {share.views === 1 ? 'view' : 'views'}
+                          {share.lastViewedAt && `, last ${new Date(share.lastViewedAt).toLocaleString()}`}
+                        </div>
+                      </div>
+                      {status === 'active' && (
+                        <div className="flex items-center space-x-1 shrink-0">
+                          <Button variant="ghost" size="sm" onClick={() => copyLink(share)} title="Copy link">
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => revoke(share)}>
+                            Revoke
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Alert, AlertDescription } from './ui/alert'
+import { Globe, Loader2, Lock, XCircle } from 'lucide-react'
+import { ScoreOverview, AnalysisTabs } from './AnalysisDetails'
+import { SiteReportPanel } from './SiteReportPanel'
+import { openSharedReport, type SharedReport } from '../lib/shares'
+import { resultCategoryDefinitions } from '../lib/category-registry'
+import { overallScore, scoreBadgeVariant, scoreColorClass, scoreGrade } from '../lib/scoring'
+
+const UNAVAILABLE_MESSAGES = {
+  'not-found': 'This report link does not exist or the analysis was deleted.',
+  expired: 'This report link has expired. Ask the sender for a new one.',
+  revoked: 'This report link was revoked by its owner.'
+}
+
+// Read-only report for visitors without an account, reached through a share link
+export function SharedReportView() {
+  const { token = '' } = useParams()
+  const [report, setReport] = useState<SharedReport | null>(null)
+  const [password, setPassword] = useState('')
+  const [unlocking, setUnlocking] = useState(false)
+
+  const load = useCallback(async (attempt?: string) => {
+    try {
+      setReport(await openSharedReport(token, attempt))
+    } catch (error) {
+      console.error('Failed to load shared report:', error)
+      setReport({ status: 'not-found' })
+    }
+  }, [token])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const unlock = async () => {
+    setUnlocking(true)
+    await load(password)
+    setUnlocking(false)
+  }
+
+  if (!report) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-primary" />
+          <p className="text-muted-foreground">Loading report...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (report.status === 'password-required' || report.status === 'wrong-password' || report.status === 'locked') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
+              <Lock className="h-6 w-6 text-primary" />
+            </div>
+            <CardTitle>Protected Report</CardTitle>
+            <CardDescription>Enter the password you were given to view this report</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="shared-report-password">Password</Label>
+              <Input
+                id="shared-report-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && password && unlock()}
+              />
+              {report.status === 'wrong-password' && !unlocking && (
+                <p className="text-sm text-destructive">Incorrect password</p>
+              )}
+              {report.status === 'locked' && !unlocking && (
+                <p className="text-sm text-destructive">Too many incorrect passwords. Try again in 15 minutes.</p>
+              )}
+            </div>
+            <Button onClick={unlock} disabled={unlocking || !password} className="w-full">
+              {unlocking && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              View Report
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (report.status !== 'ok') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5 flex items-center justify-center p-4">
+        <Alert className="max-w-md">
+          <XCircle className="h-4 w-4" />
+          <AlertDescription>{UNAVAILABLE_MESSAGES[report.status]}</AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  const { result, scoring, branding } = report
+
+  const getScoreColor = (score: number) => scoreColorClass(score, scoring.thresholds)
+
+  const getScoreBadgeVariant = (score: number) => scoreBadgeVariant(score, scoring.thresholds)
+
+  const score = overallScore(result)
+  const categories = resultCategoryDefinitions(result)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center space-x-3">
+          {branding.logoUrl ? (
+            <img src={branding.logoUrl} alt={branding.agencyName} className="h-10 max-w-40 object-contain" />
+          ) : (
+            <div className="h-10 w-10 rounded-lg flex items-center justify-center" style={{ backgroundColor: branding.primaryColor }}>
+              <Globe className="h-6 w-6 text-white" />
+            </div>
+          )}
+          <h1 className="text-xl font-semibold">{branding.agencyName}</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <div>
+            <h2 className="text-2xl font-semibold break-all">{result.url}</h2>
+            <p className="text-sm text-muted-foreground">Analyzed {new Date(result.timestamp).toLocaleString()}</p>
+          </div>
+          <Badge variant={getScoreBadgeVariant(score)} className="text-base px-3 py-1 self-start sm:self-auto">
+            {score} · Grade {scoreGrade(score, scoring.grades)}
+          </Badge>
+        </div>
+
+        <ScoreOverview result={result} categories={categories} getScoreColor={getScoreColor} />
+
+        {result.siteReport ? (
+          <SiteReportPanel report={result.siteReport} categories={categories} getScoreColor={getScoreColor} />
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Detailed Analysis</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AnalysisTabs result={result} getScoreColor={getScoreColor} getScoreBadgeVariant={getScoreBadgeVariant} />
+            </CardContent>
+          </Card>
+        )}
+
+        {branding.footerText && (
+          <p className="text-center text-xs text-muted-foreground">{branding.footerText}</p>
+        )}
+      </main>
+    </div>
+  )
+}
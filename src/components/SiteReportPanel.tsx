@@ -0,0 +1,122 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Alert, AlertDescription } from './ui/alert'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { AlertTriangle, XCircle } from 'lucide-react'
+import type { CategoryDefinition } from '../lib/category-registry'
+import type { SiteReport } from '../types/analysis'
+
+interface SiteReportPanelProps {
+  report: SiteReport
+  // The categories of the site result; a page may have analyzed only some of them
+  categories: CategoryDefinition[]
+  getScoreColor: (score: number) => string
+  // Rows are only clickable when set; shared reports show the table without page drill-down
+  onOpenPage?: (analysisId: string) => void
+}
+
+export function SiteReportPanel({ report, categories, getScoreColor, onOpenPage }: SiteReportPanelProps) {
+  return (
+    <div className="space-y-6">
+      {report.sitewideIssues.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Sitewide Issues</CardTitle>
+            <CardDescription>Problems that span more than a single page</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {report.sitewideIssues.map((issue, index) => (
+              <Alert key={index} variant={issue.type === 'broken-link' ? 'destructive' : 'default'}>
+                {issue.type === 'broken-link' ? <XCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+                <AlertDescription>
+                  <div className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span>{issue.message}</span>
+                      <Badge variant="outline" className="text-xs">{issue.type}</Badge>
+                    </div>
+                    <ul className="text-xs text-muted-foreground">
+                      {issue.urls.map(url => <li key={url} className="truncate">{url}</li>)}
+                    </ul>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Worst Pages by Category</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            {categories.map(category => (
+              <div key={category.id} className="space-y-2">
+                <div className="text-sm font-medium">{category.label}</div>
+                {(report.worstPages[category.id] ?? []).map(page => (
+                  <div key={page.url} className="flex items-center justify-between text-xs">
+                    <span className="truncate mr-2" title={page.url}>{new URL(page.url).pathname}</span>
+                    <span className={`font-semibold ${getScoreColor(page.score)}`}>{page.score}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Crawled Pages</CardTitle>
+          <CardDescription>
+            {report.pages.length} pages analyzed. Broken links are only detected among these pages. Select a page to see
+            its full analysis.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Page</TableHead>
+                {categories.map(category => (
+                  <TableHead key={category.id} className="text-right">{category.shortLabel}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.pages.map(page => (
+                <TableRow
+                  key={page.url}
+                  className={page.analysisId && onOpenPage ? 'cursor-pointer' : undefined}
+                  onClick={() => page.analysisId && onOpenPage?.(page.analysisId)}
+                >
+                  <TableCell className="max-w-xs">
+                    <div className="truncate font-medium">{page.title || new URL(page.url).pathname}</div>
+                    <div className="truncate text-xs text-muted-foreground">{page.url}</div>
+                  </TableCell>
+                  {page.scores ? (
+                    categories.map(category => {
+                      const score = page.scores![category.id]
+                      return score === undefined ? (
+                        <TableCell key={category.id} className="text-right text-muted-foreground">—</TableCell>
+                      ) : (
+                        <TableCell key={category.id} className={`text-right font-semibold ${getScoreColor(score)}`}>
+                          {score}
+                        </TableCell>
+                      )
+                    })
+                  ) : (
+                    <TableCell colSpan={categories.length} className="text-right">
+                      <Badge variant="destructive">{page.error}</Badge>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
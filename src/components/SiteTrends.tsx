@@ -0,0 +1,198 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from './ui/chart'
+import { analyzedCategories, categoryLabel, categoryScore, resultCategoryIds } from '../lib/categories'
+import { overallScore } from '../lib/scoring'
+import type { AnalysisResult } from '../types/analysis'
+
+interface SiteTrendsProps {
+  hostname: string
+  analyses: AnalysisResult[]
+}
+
+const CHART_COLORS = 5
+
+const metricsChartConfig: ChartConfig = {
+  loadTime: { label: 'Load Time (s)', color: 'hsl(var(--chart-1))' },
+  firstContentfulPaint: { label: 'FCP (s)', color: 'hsl(var(--chart-2))' },
+  largestContentfulPaint: { label: 'LCP (s)', color: 'hsl(var(--chart-3))' }
+}
+
+const formatRunLabel = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`)
+
+const deltaClass = (delta: number) => {
+  if (delta > 0) return 'text-green-600'
+  if (delta < 0) return 'text-red-600'
+  return 'text-muted-foreground'
+}
+
+const sameCategories = (a: AnalysisResult, b: AnalysisResult) =>
+  resultCategoryIds(a).join(',') === resultCategoryIds(b).join(',')
+
+// What sets a run apart from the one before, so a jump in the chart can be explained
+const runNotes = (analysis: AnalysisResult, previous?: AnalysisResult) => [
+  ...(analysis.cachedFrom ? ['Cached result'] : []),
+  ...(analysis.performance.source === 'estimated' ? ['Estimated performance'] : []),
+  ...(analysis.failedCategories?.length ? [`Failed: ${analysis.failedCategories.map(id => categoryLabel(analysis, id)).join(', ')}`] : []),
+  ...(previous && !sameCategories(analysis, previous) ? ['Categories changed'] : [])
+]
+
+export function SiteTrends({ hostname, analyses }: SiteTrendsProps) {
+  // Every category any run analyzed, in the order they first appear
+  const categoryIds = [...new Set(analyses.flatMap(resultCategoryIds))]
+  const scoreChartConfig: ChartConfig = Object.fromEntries(categoryIds.map((id, index) => [id, {
+    label: categoryLabel(analyses.find(analysis => resultCategoryIds(analysis).includes(id))!, id),
+    color: `hsl(var(--chart-${(index % CHART_COLORS) + 1}))`
+  }]))
+
+  // Categories a run didn't analyze are left out, so they show as gaps rather than drops to zero
+  const runs = analyses.map((analysis, index) => {
+    const hasPerformance = analyzedCategories(analysis).includes('performance')
+    return {
+      run: `#${index + 1} · ${formatRunLabel(analysis.timestamp)}`,
+      overall: overallScore(analysis),
+      ...Object.fromEntries(resultCategoryIds(analysis).map(id => [id, categoryScore(analysis, id)])),
+      ...(hasPerformance && {
+        loadTime: analysis.performance.metrics.loadTime,
+        firstContentfulPaint: analysis.performance.metrics.firstContentfulPaint,
+        largestContentfulPaint: analysis.performance.metrics.largestContentfulPaint
+      })
+    }
+  })
+
+  // Deltas compare against the latest earlier run that analyzed the same category
+  const previousScore = (index: number, id: string) => {
+    const previous = analyses.slice(0, index).reverse().find(analysis => resultCategoryIds(analysis).includes(id))
+    return previous && categoryScore(previous, id)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Score Trends for {hostname}</CardTitle>
+        <CardDescription>
+          {analyses.length} run{analyses.length === 1 ? '' : 's'} from{' '}
+          {analyses.length > 0 && new Date(analyses[0].timestamp).toLocaleDateString()} to{' '}
+          {analyses.length > 0 && new Date(analyses[analyses.length - 1].timestamp).toLocaleDateString()}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {analyses.length < 2 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Run at least two analyses of this site to see trends.
+          </p>
+        ) : (
+          <>
+            <div>
+              <h4 className="font-medium mb-3">Category Scores</h4>
+              <ChartContainer config={scoreChartConfig} className="h-64 w-full">
+                <LineChart data={runs} margin={{ top: 20, left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="run" tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {/* One marker per run, labeled with its overall score */}
+                  {runs.map(run => (
+                    <ReferenceLine
+                      key={run.run}
+                      x={run.run}
+                      stroke="hsl(var(--border))"
+                      strokeDasharray="3 3"
+                      label={{ value: run.overall, position: 'top', fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                    />
+                  ))}
+                  {categoryIds.map(id => (
+                    <Line key={id} dataKey={id} type="monotone" stroke={`var(--color-${id})`} strokeWidth={2} dot connectNulls />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-3">Performance Metrics</h4>
+              <ChartContainer config={metricsChartConfig} className="h-48 w-full">
+                <LineChart data={runs} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="run" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {Object.keys(metricsChartConfig).map(key => (
+                    <Line key={key} dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={2} dot connectNulls />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            </div>
+          </>
+        )}
+
+        <div>
+          <h4 className="font-medium mb-3">Runs</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Run</TableHead>
+                <TableHead className="text-right">Overall</TableHead>
+                {categoryIds.map(id => (
+                  <TableHead key={id} className="text-right">{scoreChartConfig[id].label}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {analyses.map((analysis, index) => {
+                const notes = runNotes(analysis, analyses[index - 1])
+                const overallDelta = index > 0 ? runs[index].overall - runs[index - 1].overall : 0
+                return (
+                  <TableRow key={analysis.id}>
+                    <TableCell>
+                      <div className="font-medium">{runs[index].run}</div>
+                      {notes.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {notes.map(note => <Badge key={note} variant="outline" className="text-xs">{note}</Badge>)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <span className="font-semibold">{runs[index].overall}</span>
+                      {index > 0 && (
+                        <span className={`ml-1 text-xs ${deltaClass(overallDelta)}`}>{formatDelta(overallDelta)}</span>
+                      )}
+                    </TableCell>
+                    {categoryIds.map(id => {
+                      if (!resultCategoryIds(analysis).includes(id)) {
+                        return <TableCell key={id} className="text-right text-muted-foreground">—</TableCell>
+                      }
+                      const score = categoryScore(analysis, id)
+                      const previous = previousScore(index, id)
+                      return (
+                        <TableCell key={id} className="text-right">
+                          <span className="font-semibold">{score}</span>
+                          {previous !== undefined && (
+                            <span className={`ml-1 text-xs ${deltaClass(score - previous)}`}>{formatDelta(score - previous)}</span>
+                          )}
+                        </TableCell>
+                      )
+                    })}
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
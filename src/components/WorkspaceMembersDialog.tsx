@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { BlinkUser } from '@blinkdotnew/sdk'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from './ui/alert-dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Separator } from './ui/separator'
+import { Loader2, Trash2, UserPlus } from 'lucide-react'
+import toast from 'react-hot-toast'
+import {
+  ROLE_LABELS,
+  deleteWorkspace,
+  inviteMember,
+  listMembers,
+  removeMember,
+  renameWorkspace,
+  updateMemberRole,
+  type WorkspaceMember,
+  type WorkspaceMembership,
+  type WorkspaceRole
+} from '../lib/workspaces'
+
+interface WorkspaceMembersDialogProps {
+  user: BlinkUser
+  workspace: WorkspaceMembership
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onChanged: () => void
+  onDeleted: () => void
+}
+
+const ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer']
+
+export function WorkspaceMembersDialog({
+  user,
+  workspace,
+  open,
+  onOpenChange,
+  onChanged,
+  onDeleted
+}: WorkspaceMembersDialogProps) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [name, setName] = useState(workspace.name)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<WorkspaceRole>('editor')
+  const [inviting, setInviting] = useState(false)
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await listMembers(workspace.id))
+    } catch (error) {
+      console.error('Failed to load members:', error)
+      toast.error('Failed to load workspace members')
+    }
+  }, [workspace.id])
+
+  useEffect(() => {
+    if (!open) return
+    setName(workspace.name)
+    loadMembers()
+  }, [open, workspace.name, loadMembers])
+
+  const owners = members.filter(member => member.role === 'owner' && member.status === 'active')
+  // A workspace always keeps at least one active owner
+  const isLastOwner = (member: WorkspaceMember) => owners.length === 1 && owners[0].id === member.id
+
+  const rename = async () => {
+    try {
+      await renameWorkspace(workspace.id, name)
+      toast.success('Workspace renamed')
+      onChanged()
+    } catch (error) {
+      console.error('Failed to rename workspace:', error)
+      toast.error('Failed to rename workspace')
+    }
+  }
+
+  const invite = async () => {
+    setInviting(true)
+    try {
+      const { emailed } = await inviteMember(workspace, email, role, user)
+      if (emailed) {
+        toast.success(`Invitation sent to ${email.trim()}`)
+      } else {
+        toast.error('Invitation saved, but the email could not be sent')
+      }
+      setEmail('')
+      await loadMembers()
+    } catch (error) {
+      console.error('Failed to invite member:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to invite member')
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  const changeRole = async (member: WorkspaceMember, nextRole: WorkspaceRole) => {
+    try {
+      await updateMemberRole(member.id, nextRole)
+      await loadMembers()
+      if (member.memberUserId === user.id) onChanged()
+    } catch (error) {
+      console.error('Failed to update role:', error)
+      toast.error('Failed to update role')
+    }
+  }
+
+  const remove = async (member: WorkspaceMember) => {
+    try {
+      await removeMember(member.id)
+      if (member.memberUserId === user.id) {
+        onOpenChange(false)
+        onDeleted()
+        return
+      }
+      await loadMembers()
+    } catch (error) {
+      console.error('Failed to remove member:', error)
+      toast.error('Failed to remove member')
+    }
+  }
+
+  const destroy = async () => {
+    try {
+      await deleteWorkspace(workspace.id)
+      toast.success(`Deleted ${workspace.name}`)
+      onOpenChange(false)
+      onDeleted()
+    } catch (error) {
+      console.error('Failed to delete workspace:', error)
+      toast.error('Failed to delete workspace')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Manage Workspace</DialogTitle>
+          <DialogDescription>
+            Editors can run analyses and change settings; viewers can only browse results
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="workspace-rename">Name</Label>
+            <div className="flex space-x-2">
+              <Input id="workspace-rename" value={name} onChange={(e) => setName(e.target.value)} />
+              <Button variant="outline" onClick={rename} disabled={!name.trim() || name.trim() === workspace.name}>
+                Rename
+              </Button>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label htmlFor="workspace-invite">Invite by email</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="workspace-invite"
+                type="email"
+                placeholder="teammate@agency.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+              <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map(option => (
+                    <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={invite} disabled={inviting || !email.includes('@')}>
+                {inviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {members.map(member => (
+              <div key={member.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                <div className="min-w-0">
+                  <p className="text-sm truncate">{member.email}</p>
+                  {member.status === 'invited' && <Badge variant="secondary" className="mt-1">Invited</Badge>}
+                </div>
+                <div className="flex items-center space-x-2 shrink-0">
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) => changeRole(member, value as WorkspaceRole)}
+                    disabled={isLastOwner(member)}
+                  >
+                    <SelectTrigger className="w-28 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLES.map(option => (
+                        <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => remove(member)}
+                    disabled={isLastOwner(member)}
+                    title={member.status === 'invited' ? 'Revoke invitation' : 'Remove member'}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <Separator />
+
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" size="sm">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete workspace
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete {workspace.name}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every member loses access to its analyses, presets, monitors and branding. This can't be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={destroy}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
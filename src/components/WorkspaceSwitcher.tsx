@@ -0,0 +1,144 @@
+import { useState } from 'react'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Building2, Check, ChevronDown, Loader2, Mail, Plus, Users, X } from 'lucide-react'
+import {
+  ROLE_LABELS,
+  canManage,
+  type WorkspaceInvitation,
+  type WorkspaceMembership
+} from '../lib/workspaces'
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceMembership[]
+  current: WorkspaceMembership
+  invitations: WorkspaceInvitation[]
+  // Switching mid-analysis would save the result to a workspace that is no longer on screen
+  disabled?: boolean
+  onSelect: (workspace: WorkspaceMembership) => void
+  onCreate: (name: string) => Promise<void>
+  onManage: () => void
+  onAccept: (invitation: WorkspaceInvitation) => void
+  onDecline: (invitation: WorkspaceInvitation) => void
+}
+
+export function WorkspaceSwitcher({
+  workspaces,
+  current,
+  invitations,
+  disabled = false,
+  onSelect,
+  onCreate,
+  onManage,
+  onAccept,
+  onDecline
+}: WorkspaceSwitcherProps) {
+  const [createOpen, setCreateOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [creating, setCreating] = useState(false)
+
+  const create = async () => {
+    setCreating(true)
+    try {
+      await onCreate(name)
+      setName('')
+      setCreateOpen(false)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-48" disabled={disabled}>
+            <Building2 className="h-4 w-4 mr-2 shrink-0" />
+            <span className="truncate">{current.name}</span>
+            {invitations.length > 0 && <Badge className="ml-2 h-5 px-1.5">{invitations.length}</Badge>}
+            <ChevronDown className="h-4 w-4 ml-1 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          {workspaces.map(workspace => (
+            <DropdownMenuItem key={workspace.id} onClick={() => onSelect(workspace)}>
+              <Check className={`h-4 w-4 mr-2 ${workspace.id === current.id ? '' : 'invisible'}`} />
+              <span className="truncate flex-1">{workspace.name}</span>
+              <span className="text-xs text-muted-foreground ml-2">{ROLE_LABELS[workspace.role]}</span>
+            </DropdownMenuItem>
+          ))}
+
+          {invitations.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Invitations</DropdownMenuLabel>
+              {invitations.map(invitation => (
+                <div key={invitation.member.id} className="flex items-center px-2 py-1.5 text-sm">
+                  <Mail className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />
+                  <span className="truncate flex-1" title={`Join as ${ROLE_LABELS[invitation.member.role].toLowerCase()}`}>
+                    {invitation.workspace.name}
+                  </span>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onAccept(invitation)} title="Accept">
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onDecline(invitation)} title="Decline">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </>
+          )}
+
+          <DropdownMenuSeparator />
+          {canManage(current.role) && !current.personal && (
+            <DropdownMenuItem onClick={onManage}>
+              <Users className="h-4 w-4 mr-2" />
+              Manage workspace
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>New Workspace</DialogTitle>
+            <DialogDescription>Share analyses, presets, monitors and branding with your team</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input
+              id="workspace-name"
+              placeholder="Acme Agency"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && name.trim() && create()}
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={create} disabled={creating || !name.trim()}>
+              {creating && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
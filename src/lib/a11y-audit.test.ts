@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest'
+import { auditAccessibility, type AccessibilityAudit } from './a11y-audit'
+import { parseHtml, selectorOf } from './html'
+
+// jsdom has no CSS.escape; the ids in these pages only need quotes escaped
+vi.stubGlobal('CSS', { escape: (value: string) => value.replace(/["\\]/g, '\\$&') })
+
+const HEAD = '<title>Acme</title><meta name="viewport" content="width=device-width, initial-scale=1">'
+
+// A page that passes every rule unless the body or head adds a problem
+const page = (body: string, { head = HEAD, lang = 'en' } = {}) =>
+  `<html lang="${lang}"><head>${head}</head><body>${body}</body></html>`
+
+const ruleIds = ({ violations }: AccessibilityAudit) => violations.map(violation => violation.ruleId)
+
+describe('auditAccessibility', () => {
+  it('finds nothing on an accessible page', () => {
+    const html = page(`
+      <h1>Widgets</h1>
+      <img src="/widget.png" alt="A widget">
+      <label for="email">Email</label><input id="email" type="email">
+      <label>Name <input type="text"></label>
+      <button>Buy</button>
+      <a href="/cart" aria-label="Cart"></a>
+      <iframe src="/map" title="Store map"></iframe>
+    `)
+
+    expect(auditAccessibility(html)).toEqual({ score: 100, violations: [] })
+  })
+
+  it.each([
+    ['image-alt', page('<img src="/widget.png">')],
+    ['label', page('<input type="text">')],
+    ['button-name', page('<button></button>')],
+    ['link-name', page('<a href="/cart"></a>')],
+    ['html-has-lang', page('', { lang: '' })],
+    ['document-title', page('', { head: '<meta name="viewport" content="width=device-width">' })],
+    ['frame-title', page('<iframe src="/map"></iframe>')],
+    ['meta-viewport', page('', { head: '<title>Acme</title><meta name="viewport" content="width=device-width, user-scalable=no">' })],
+    ['meta-viewport', page('', { head: '<title>Acme</title><meta name="viewport" content="maximum-scale=1.5">' })],
+    ['tabindex', page('<div tabindex="2">Card</div>')],
+    ['aria-hidden-focus', page('<div aria-hidden="true"><a href="/">Home</a></div>')],
+    ['empty-heading', page('<h2></h2>')]
+  ])('reports %s', (ruleId, html) => {
+    expect(ruleIds(auditAccessibility(html))).toEqual([ruleId])
+  })
+
+  it('reports every element that shares an id', () => {
+    expect(ruleIds(auditAccessibility(page('<p id="note">A</p><p id="note">B</p>')))).toEqual(['duplicate-id', 'duplicate-id'])
+  })
+
+  it('reports at most ten elements per rule', () => {
+    const audit = auditAccessibility(page('<img src="/widget.png">'.repeat(12)))
+
+    expect(audit.violations).toHaveLength(10)
+  })
+
+  it('costs each failing rule its severity once plus a point per further element', () => {
+    // Two critical image-alt violations and one serious link-name violation
+    const audit = auditAccessibility(page('<img src="/a.png"><img src="/b.png"><a href="/cart"></a>'))
+
+    expect(audit.score).toBe(100 - (10 + 1) - 6)
+  })
+
+  it('does not score below zero', () => {
+    const html = page(
+      '<img src="/a.png"><input><button></button><a href="/"></a><iframe></iframe><div tabindex="1">A</div><h2></h2>'.repeat(10),
+      { head: '<meta name="viewport" content="user-scalable=no">', lang: '' }
+    )
+
+    expect(auditAccessibility(html).score).toBe(0)
+  })
+})
+
+describe('selectorOf', () => {
+  const elementsIn = (body: string, selector: string) => Array.from(parseHtml(page(body)).querySelectorAll(selector))
+
+  it('stops at the nearest unique id', () => {
+    const [link] = elementsIn('<nav id="menu"><a href="/">Home</a></nav>', 'a')
+
+    expect(selectorOf(link)).toBe('#menu > a')
+  })
+
+  it('tells same-tag siblings apart by position and ignores ids that are not unique', () => {
+    const links = elementsIn('<ul id="list"><li><a href="/a">A</a></li><li><a href="/b">B</a></li></ul><p id="list"></p>', 'a')
+
+    expect(links.map(selectorOf)).toEqual(['body > ul > li:nth-of-type(1) > a', 'body > ul > li:nth-of-type(2) > a'])
+  })
+
+  it('names the root element html', () => {
+    expect(selectorOf(parseHtml(page('')).documentElement)).toBe('html')
+  })
+})
@@ -0,0 +1,194 @@
+import type { AccessibilityViolation } from '../types/analysis'
+import { parseHtml, selectorOf, snippetOf } from './html'
+
+interface A11yRule {
+  id: string
+  wcag: string[]
+  severity: AccessibilityViolation['severity']
+  description: string
+  help: string
+  selector: string
+  matches: (element: Element, doc: Document) => boolean
+}
+
+export interface AccessibilityAudit {
+  score: number
+  violations: AccessibilityViolation[]
+}
+
+// Cap per rule so a page with 300 unlabeled icons doesn't drown out everything else
+const MAX_NODES_PER_RULE = 10
+
+const SEVERITY_PENALTY: Record<AccessibilityViolation['severity'], number> = {
+  critical: 10,
+  serious: 6,
+  moderate: 3,
+  minor: 1
+}
+
+const accessibleName = (element: Element, doc: Document) => {
+  const labelledBy = element.getAttribute('aria-labelledby')
+  const labelledText = labelledBy
+    ?.split(/\s+/)
+    .map(id => doc.getElementById(id)?.textContent ?? '')
+    .join(' ')
+
+  return [
+    element.getAttribute('aria-label'),
+    labelledText,
+    element.getAttribute('title'),
+    element.textContent,
+    element.querySelector('img[alt]')?.getAttribute('alt')
+  ].some(name => name?.trim())
+}
+
+const a11yRules: A11yRule[] = [
+  {
+    id: 'image-alt',
+    wcag: ['1.1.1'],
+    severity: 'critical',
+    description: 'Image has no alternative text',
+    help: 'Add an alt attribute describing the image, or alt="" if it is decorative',
+    selector: 'img:not([alt]):not([role="presentation"]):not([aria-hidden="true"])',
+    matches: (element, doc) => !accessibleName(element, doc)
+  },
+  {
+    id: 'label',
+    wcag: ['1.3.1', '4.1.2'],
+    severity: 'critical',
+    description: 'Form field has no associated label',
+    help: 'Associate a <label for="…"> with the field or give it an aria-label',
+    selector: 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), select, textarea',
+    matches: (element, doc) => {
+      const id = element.getAttribute('id')
+      const hasLabel = (id && doc.querySelector(`label[for="${CSS.escape(id)}"]`)) || element.closest('label')
+      return !hasLabel && !element.getAttribute('aria-label')?.trim() && !element.getAttribute('aria-labelledby')
+    }
+  },
+  {
+    id: 'button-name',
+    wcag: ['4.1.2'],
+    severity: 'critical',
+    description: 'Button has no accessible name',
+    help: 'Give the button visible text, an aria-label or a labelled icon',
+    selector: 'button, [role="button"]',
+    matches: (element, doc) => !accessibleName(element, doc)
+  },
+  {
+    id: 'link-name',
+    wcag: ['2.4.4', '4.1.2'],
+    severity: 'serious',
+    description: 'Link has no discernible text',
+    help: 'Add link text or an aria-label that describes the destination',
+    selector: 'a[href]',
+    matches: (element, doc) => !accessibleName(element, doc)
+  },
+  {
+    id: 'html-has-lang',
+    wcag: ['3.1.1'],
+    severity: 'serious',
+    description: 'Document has no lang attribute',
+    help: 'Set the page language, e.g. <html lang="en">',
+    selector: 'html',
+    matches: element => !element.getAttribute('lang')?.trim()
+  },
+  {
+    id: 'document-title',
+    wcag: ['2.4.2'],
+    severity: 'serious',
+    description: 'Document has no title',
+    help: 'Add a descriptive <title> to the document head',
+    selector: 'html',
+    matches: (_element, doc) => !doc.title.trim()
+  },
+  {
+    id: 'frame-title',
+    wcag: ['4.1.2'],
+    severity: 'serious',
+    description: 'Frame has no title',
+    help: 'Add a title attribute describing the frame content',
+    selector: 'iframe, frame',
+    matches: element => !element.getAttribute('title')?.trim() && !element.getAttribute('aria-label')?.trim()
+  },
+  {
+    id: 'meta-viewport',
+    wcag: ['1.4.4'],
+    severity: 'critical',
+    description: 'Viewport meta tag disables zooming',
+    help: 'Remove user-scalable=no and any maximum-scale below 2',
+    selector: 'meta[name="viewport" i]',
+    matches: element => {
+      const content = element.getAttribute('content')?.toLowerCase().replace(/\s/g, '') ?? ''
+      const maximumScale = /maximum-scale=([\d.]+)/.exec(content)
+      return content.includes('user-scalable=no') || (!!maximumScale && Number(maximumScale[1]) < 2)
+    }
+  },
+  {
+    id: 'tabindex',
+    wcag: ['2.4.3'],
+    severity: 'serious',
+    description: 'Element has a positive tabindex',
+    help: 'Use tabindex="0" or -1 and order focus through the DOM instead',
+    selector: '[tabindex]',
+    matches: element => Number(element.getAttribute('tabindex')) > 0
+  },
+  {
+    id: 'aria-hidden-focus',
+    wcag: ['4.1.2'],
+    severity: 'serious',
+    description: 'Hidden element contains focusable content',
+    help: 'Remove aria-hidden or make the descendants unfocusable with tabindex="-1"',
+    selector: '[aria-hidden="true"]',
+    matches: element => !!element.querySelector('a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"])')
+  },
+  {
+    id: 'empty-heading',
+    wcag: ['1.3.1', '2.4.6'],
+    severity: 'moderate',
+    description: 'Heading is empty',
+    help: 'Give the heading text content or remove it',
+    selector: 'h1, h2, h3, h4, h5, h6',
+    matches: (element, doc) => !accessibleName(element, doc)
+  },
+  {
+    id: 'duplicate-id',
+    wcag: ['4.1.1'],
+    severity: 'minor',
+    description: 'ID attribute value is not unique',
+    help: 'Make each id unique so labels and ARIA references resolve correctly',
+    selector: '[id]',
+    matches: (element, doc) => doc.querySelectorAll(`[id="${CSS.escape(element.id)}"]`).length > 1
+  }
+]
+
+export const auditAccessibility = (html: string): AccessibilityAudit => {
+  const doc = parseHtml(html)
+  const violations = a11yRules.flatMap(rule =>
+    Array.from(doc.querySelectorAll(rule.selector))
+      .filter(element => rule.matches(element, doc))
+      .slice(0, MAX_NODES_PER_RULE)
+      .map(element => {
+        const selector = selectorOf(element)
+        return {
+          ruleId: rule.id,
+          wcag: rule.wcag,
+          severity: rule.severity,
+          description: rule.description,
+          element: selector,
+          selector,
+          html: snippetOf(element),
+          help: rule.help
+        }
+      })
+  )
+  // Each failing rule costs its severity weight once, plus a point per additional offending node
+  const penalty = a11yRules.reduce((acc, rule) => {
+    const count = violations.filter(violation => violation.ruleId === rule.id).length
+    return count ? acc + SEVERITY_PENALTY[rule.severity] + count - 1 : acc
+  }, 0)
+
+  return {
+    score: Math.max(0, 100 - penalty),
+    violations
+  }
+}
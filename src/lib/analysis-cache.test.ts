@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from 'vitest'
+import { getCachedAnalysis } from './analysis-cache'
+import { analysisResult } from '../test/fixtures'
+import { blink } from '../test/blink'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+const table = { get: vi.fn() }
+blink.db.table.mockReturnValue(table)
+
+describe('getCachedAnalysis', () => {
+  it('repairs a cached result written with an older shape', async () => {
+    const { seo: _seo, ...cached } = analysisResult()
+    table.get.mockResolvedValue({
+      id: 'key',
+      contentHash: 'hash',
+      result: JSON.stringify({ ...cached, accessibility: { score: '70' } }),
+      createdAt: new Date().toISOString()
+    })
+
+    const result = await getCachedAnalysis('key', 'hash', 24)
+
+    expect(result?.seo).toEqual({ score: 0, issues: [], recommendations: [] })
+    expect(result?.accessibility).toEqual({ score: 70, violations: [], recommendations: [] })
+  })
+})
@@ -0,0 +1,68 @@
+import { blink } from './blink'
+import { sha256 } from './hash'
+import { normalizeStoredAnalysis } from './analysis-validation'
+import { pageKey } from './url'
+import type { CategoryDefinition } from './category-registry'
+import type { AnalysisResult, AnalysisSettings } from '../types/analysis'
+
+interface AnalysisCacheRecord {
+  id: string
+  userId: string
+  url: string
+  contentHash: string
+  result: string
+  createdAt: string
+}
+
+export interface AnalysisCacheOptions {
+  workspaceId: string
+  // Skips the lookup; the fresh result still replaces the cached one
+  forceRefresh?: boolean
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+const cacheTable = () => blink.db.table<AnalysisCacheRecord>('analysisCache')
+
+// Hash of what the model reads from the page; screenshots and timings aren't compared
+export const contentHash = (markdown: string, metadata: object) =>
+  sha256(JSON.stringify({ markdown, metadata }))
+
+// One entry per workspace, page and combination of settings that change the AI's answer.
+// The TTL isn't part of the key, and neither are scoring weights, which are reapplied on reuse.
+export const analysisCacheKey = (
+  workspaceId: string,
+  url: string,
+  settings: AnalysisSettings,
+  customCategories: CategoryDefinition[]
+) => sha256(JSON.stringify({
+  workspaceId,
+  url: pageKey(url),
+  categories: [...settings.categories].sort(),
+  contentDepth: settings.contentDepth,
+  model: settings.model,
+  audience: settings.audience,
+  deviceIds: [...settings.deviceIds].sort(),
+  customCategories: customCategories.map(({ id, label, rubric, subMetrics }) => ({ id, label, rubric, subMetrics }))
+}))
+
+// The cached result when the page content is unchanged and the entry is younger than the TTL
+export const getCachedAnalysis = async (key: string, hash: string, ttlHours: number) => {
+  const record = await cacheTable().get(key)
+  if (!record || record.contentHash !== hash) return null
+  if (Date.now() - new Date(record.createdAt).getTime() > ttlHours * HOUR_MS) return null
+
+  // Entries can outlive changes to the result shape, so they are repaired like stored analyses
+  return normalizeStoredAnalysis(JSON.parse(record.result))
+}
+
+export const cacheAnalysis = async (key: string, hash: string, result: AnalysisResult, workspaceId: string) => {
+  await cacheTable().upsert({
+    id: key,
+    userId: workspaceId,
+    url: result.url,
+    contentHash: hash,
+    result: JSON.stringify(result),
+    createdAt: new Date().toISOString()
+  })
+}
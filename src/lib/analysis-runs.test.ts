@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createRunRecorder } from './analysis-runs'
+import { DEFAULT_ANALYSIS_SETTINGS } from './analysis-settings'
+import { DEFAULT_SCORING } from './scoring'
+import type { AnalysisCheckpoint } from './analyzer'
+import { blink } from '../test/blink'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+const table = {
+  upsert: vi.fn(async () => {}),
+  delete: vi.fn(async () => {})
+}
+blink.db.table.mockReturnValue(table)
+
+const run = {
+  id: 'run_1',
+  url: 'https://example.com',
+  workspaceId: 'workspace_1',
+  settings: DEFAULT_ANALYSIS_SETTINGS,
+  customCategories: [],
+  scoring: DEFAULT_SCORING
+}
+
+const checkpoint: AnalysisCheckpoint = { id: 'analysis_1', timestamp: 0, completed: {}, failed: [], warnings: [] }
+
+describe('createRunRecorder', () => {
+  it('drops checkpoints still queued or arriving once the run is discarded', async () => {
+    const recorder = createRunRecorder(run, 'user_1')
+
+    await recorder.checkpoint(checkpoint)
+    recorder.checkpoint(checkpoint)
+    recorder.discard()
+    recorder.checkpoint(checkpoint)
+    await recorder.flush()
+
+    expect(table.upsert).toHaveBeenCalledTimes(1)
+    expect(table.delete).toHaveBeenCalledWith('run_1')
+    expect(table.delete.mock.invocationCallOrder[0]).toBeGreaterThan(table.upsert.mock.invocationCallOrder[0])
+  })
+})
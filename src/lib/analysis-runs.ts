@@ -0,0 +1,96 @@
+import { blink } from './blink'
+import type { AnalysisCheckpoint } from './analyzer'
+import type { CategoryDefinition } from './category-registry'
+import type { ScoringConfig } from './scoring'
+import type { AnalysisSettings } from '../types/analysis'
+
+// An analysis that was started but not saved yet, with enough state to pick it up again after a reload
+export interface AnalysisRun {
+  id: string
+  url: string
+  // Where the result is saved; runs themselves belong to the user who started them
+  workspaceId: string
+  settings: AnalysisSettings
+  customCategories: CategoryDefinition[]
+  scoring: ScoringConfig
+  checkpoint: AnalysisCheckpoint
+  updatedAt: string
+}
+
+interface AnalysisRunRecord {
+  id: string
+  userId: string
+  url: string
+  state: string
+  updatedAt: string
+}
+
+// Older runs are dropped rather than offered for resuming; their screenshots and scores are likely stale
+const RESUME_WINDOW_MS = 24 * 60 * 60 * 1000
+
+const runsTable = () => blink.db.table<AnalysisRunRecord>('analysisRuns')
+
+export const getInterruptedRun = async (userId: string): Promise<AnalysisRun | null> => {
+  const [record] = await runsTable().list({
+    where: { userId },
+    orderBy: { updatedAt: 'desc' },
+    limit: 1
+  })
+  if (!record) return null
+
+  if (Date.now() - new Date(record.updatedAt).getTime() > RESUME_WINDOW_MS) {
+    await runsTable().delete(record.id)
+    return null
+  }
+  // Runs recorded before workspaces existed save to the personal workspace
+  return { id: record.id, url: record.url, updatedAt: record.updatedAt, workspaceId: userId, ...JSON.parse(record.state) }
+}
+
+export const deleteRun = async (id: string) => {
+  await runsTable().delete(id)
+}
+
+export interface RunRecorder {
+  checkpoint: (checkpoint: AnalysisCheckpoint) => Promise<void>
+  // Deletes the run record; checkpoints arriving afterwards are dropped
+  discard: () => Promise<void>
+  // Resolves once every queued write has settled
+  flush: () => Promise<void>
+}
+
+// Checkpoints arrive in bursts as parallel categories finish; writes are chained so an older
+// snapshot can never land after a newer one
+export const createRunRecorder = (run: Omit<AnalysisRun, 'checkpoint' | 'updatedAt'>, userId: string): RunRecorder => {
+  let writes = Promise.resolve()
+  // A category finishing just as the run is canceled must not write the record back
+  let discarded = false
+
+  const enqueue = (write: () => Promise<void>) => {
+    writes = writes.then(write).catch(error => console.error('Failed to persist analysis run:', error))
+    return writes
+  }
+
+  return {
+    checkpoint: (checkpoint: AnalysisCheckpoint) => enqueue(async () => {
+      if (discarded) return
+      await runsTable().upsert({
+        id: run.id,
+        userId,
+        url: run.url,
+        state: JSON.stringify({
+          workspaceId: run.workspaceId,
+          settings: run.settings,
+          customCategories: run.customCategories,
+          scoring: run.scoring,
+          checkpoint
+        }),
+        updatedAt: new Date().toISOString()
+      })
+    }),
+    discard: () => {
+      discarded = true
+      return enqueue(() => deleteRun(run.id))
+    },
+    flush: () => writes
+  }
+}
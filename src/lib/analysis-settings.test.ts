@@ -0,0 +1,27 @@
+import { describe, expect, it, vi } from 'vitest'
+import { DEFAULT_ANALYSIS_SETTINGS, withExistingCategories } from './analysis-settings'
+import { analysisSettings } from '../test/fixtures'
+import type { CategoryDefinition } from './category-registry'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+const trust = { id: 'category_trust' } as CategoryDefinition
+
+describe('withExistingCategories', () => {
+  it('drops custom categories that no longer exist', () => {
+    const settings = analysisSettings(['seo', 'category_trust', 'category_deleted'])
+
+    expect(withExistingCategories(settings, [trust]).categories).toEqual(['seo', 'category_trust'])
+  })
+
+  it('keeps the settings object when nothing was deleted', () => {
+    const settings = analysisSettings(['seo', 'category_trust'])
+
+    expect(withExistingCategories(settings, [trust])).toBe(settings)
+  })
+
+  it('falls back to the default categories when every selected one was deleted', () => {
+    expect(withExistingCategories(analysisSettings(['category_deleted']), []).categories)
+      .toEqual(DEFAULT_ANALYSIS_SETTINGS.categories)
+  })
+})
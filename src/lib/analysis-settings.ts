@@ -0,0 +1,112 @@
+import { z } from 'zod'
+import { blink } from './blink'
+import { CATEGORY_KEYS, isBuiltInCategory } from './categories'
+import { DEFAULT_DEVICE_PROFILES } from './responsive-audit'
+import type { CategoryDefinition } from './category-registry'
+import type { AnalysisSettings } from '../types/analysis'
+
+export interface AnalysisPreset {
+  id: string
+  name: string
+  settings: AnalysisSettings
+  createdAt: string
+}
+
+interface AnalysisPresetRecord {
+  id: string
+  userId: string
+  name: string
+  settings: string
+  createdAt: string
+}
+
+export const DEFAULT_MODEL = 'default'
+
+export const MODEL_OPTIONS = [
+  { value: DEFAULT_MODEL, label: 'Default' },
+  { value: 'gpt-4o-mini', label: 'GPT-4o mini (faster)' },
+  { value: 'gpt-4o', label: 'GPT-4o (more thorough)' }
+]
+
+export const CONTENT_DEPTH_LIMITS = { min: 500, max: 20000 }
+
+export const MAX_CACHE_TTL_HOURS = 24 * 30
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  categories: CATEGORY_KEYS,
+  contentDepth: 2000,
+  model: DEFAULT_MODEL,
+  audience: 'developer',
+  deviceIds: DEFAULT_DEVICE_PROFILES.map(device => device.id),
+  cacheTtlHours: 24
+}
+
+export const analysisSettingsSchema = z.object({
+  categories: z
+    .array(z.string())
+    .min(1, 'Select at least one category'),
+  contentDepth: z
+    .number()
+    .int()
+    .min(CONTENT_DEPTH_LIMITS.min, `Send at least ${CONTENT_DEPTH_LIMITS.min} characters`)
+    .max(CONTENT_DEPTH_LIMITS.max, `Send at most ${CONTENT_DEPTH_LIMITS.max} characters`),
+  model: z.string().min(1),
+  audience: z.enum(['developer', 'marketing']),
+  deviceIds: z.array(z.string()).min(1, 'Select at least one device'),
+  cacheTtlHours: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_CACHE_TTL_HOURS, `Keep results for at most ${MAX_CACHE_TTL_HOURS} hours`)
+})
+
+// The model id the SDK expects, or undefined to let it choose
+export const modelOf = (settings: AnalysisSettings) =>
+  settings.model === DEFAULT_MODEL ? undefined : settings.model
+
+export const devicesOf = (settings: AnalysisSettings) =>
+  DEFAULT_DEVICE_PROFILES.filter(device => settings.deviceIds.includes(device.id))
+
+// Drops custom categories that were deleted. When none of the selected categories are left, the
+// defaults are analyzed rather than nothing.
+export const withExistingCategories = (settings: AnalysisSettings, customCategories: CategoryDefinition[]) => {
+  const categories = settings.categories
+    .filter(id => isBuiltInCategory(id) || customCategories.some(category => category.id === id))
+  if (categories.length === settings.categories.length) return settings
+  return { ...settings, categories: categories.length > 0 ? categories : DEFAULT_ANALYSIS_SETTINGS.categories }
+}
+
+const presetsTable = () => blink.db.table<AnalysisPresetRecord>('analysisPresets')
+
+// Presets saved by older versions may miss fields, so they are filled in from the defaults
+const parsePreset = (record: AnalysisPresetRecord): AnalysisPreset => {
+  const parsed = analysisSettingsSchema.safeParse({ ...DEFAULT_ANALYSIS_SETTINGS, ...JSON.parse(record.settings || '{}') })
+  return {
+    id: record.id,
+    name: record.name,
+    settings: parsed.success ? parsed.data : DEFAULT_ANALYSIS_SETTINGS,
+    createdAt: record.createdAt
+  }
+}
+
+export const listPresets = async (workspaceId: string) => {
+  const records = await presetsTable().list({
+    where: { userId: workspaceId },
+    orderBy: { createdAt: 'asc' }
+  })
+  return records.map(parsePreset)
+}
+
+export const savePreset = async (preset: AnalysisPreset, workspaceId: string) => {
+  await presetsTable().upsert({
+    id: preset.id,
+    userId: workspaceId,
+    name: preset.name,
+    settings: JSON.stringify(preset.settings),
+    createdAt: preset.createdAt
+  })
+}
+
+export const deletePreset = async (id: string) => {
+  await presetsTable().delete(id)
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest'
+import { DEFAULT_ANALYSIS_QUERY, getAnalysis, queryAnalyses } from './analysis-store'
+import { blink } from '../test/blink'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+const table = {
+  list: vi.fn(async () => []),
+  count: vi.fn(async () => 0)
+}
+blink.db.table.mockReturnValue(table)
+
+describe('queryAnalyses', () => {
+  it('matches wildcard characters in the search text literally', async () => {
+    await queryAnalyses('workspace_1', { ...DEFAULT_ANALYSIS_QUERY, search: ' 100%_off ' }, 1, 20)
+
+    expect(table.count).toHaveBeenCalledWith({
+      where: {
+        AND: [
+          { userId: 'workspace_1' },
+          { parentId: { is: null } },
+          { url: { ilike: '%100\\%\\_off%' } }
+        ]
+      }
+    })
+  })
+})
+
+describe('getAnalysis', () => {
+  it('reports an analysis of another workspace as not found', async () => {
+    await expect(getAnalysis('analysis_1', 'workspace_2')).resolves.toBeNull()
+    expect(table.list).toHaveBeenCalledWith({ where: { id: 'analysis_1', userId: 'workspace_2' }, limit: 1 })
+  })
+})
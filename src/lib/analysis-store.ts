@@ -0,0 +1,242 @@
+import type { FilterCondition } from '@blinkdotnew/sdk'
+import { blink } from './blink'
+import { hostnameOf } from './url'
+import { normalizeStoredAnalysis } from './analysis-validation'
+import { resultCategoryIds, scoreSummary } from './categories'
+import { collectFindings } from './findings'
+import { overallScore } from './scoring'
+import type { AnalysisResult } from '../types/analysis'
+
+export interface WebsiteAnalysisRecord {
+  id: string
+  // Owning workspace. The column predates workspaces; a personal workspace's id is its owner's user id,
+  // and the other workspace-scoped tables follow the same convention.
+  userId: string
+  // Groups child analyses under a crawl record or a benchmark
+  parentId?: string | null
+  kind?: 'page' | 'crawl'
+  url: string
+  timestamp: number
+  performanceScore: number
+  seoScore: number
+  accessibilityScore: number
+  designScore: number
+  uxScore: number
+  // Denormalized for server-side filtering and stats; null on records saved before they existed
+  overallScore?: number | null
+  // Analyzed category ids wrapped in commas (",seo,ux,") so a LIKE can match one exactly
+  categories?: string | null
+  // JSON ScoreSummary
+  scoreSummary?: string | null
+  hostname?: string | null
+  // JSON IssueSummary[]: the audit issues and violations found, one entry per rule
+  issueSummary?: string | null
+  analysisData: string
+  createdAt: string
+}
+
+export type AnalysisSort = 'newest' | 'oldest' | 'score-desc' | 'score-asc' | 'url'
+
+export interface AnalysisQuery {
+  // Matched anywhere in the URL, so a hostname or a path both work
+  search: string
+  // Inclusive bounds in epoch milliseconds
+  from?: number
+  to?: number
+  minScore: number
+  maxScore: number
+  // Only analyses that covered every one of these categories
+  categories: string[]
+  sort: AnalysisSort
+}
+
+export interface AnalysisPage {
+  items: AnalysisResult[]
+  total: number
+}
+
+export interface IssueSummary {
+  // Category and rule id, or the message for findings without a rule
+  key: string
+  label: string
+}
+
+export const DEFAULT_ANALYSIS_QUERY: AnalysisQuery = {
+  search: '',
+  minScore: 0,
+  maxScore: 100,
+  categories: [],
+  sort: 'newest'
+}
+
+const SORT_ORDER: Record<AnalysisSort, Record<string, 'asc' | 'desc'>> = {
+  newest: { timestamp: 'desc' },
+  oldest: { timestamp: 'asc' },
+  'score-desc': { overallScore: 'desc' },
+  'score-asc': { overallScore: 'asc' },
+  url: { url: 'asc' }
+}
+
+const analysesTable = () => blink.db.table<WebsiteAnalysisRecord>('websiteAnalyses')
+
+// The columns a result is rebuilt from, which is also all the shared report function returns
+export type StoredAnalysis = Pick<
+  WebsiteAnalysisRecord,
+  'id' | 'url' | 'timestamp' | 'performanceScore' | 'seoScore' | 'accessibilityScore' | 'designScore' | 'uxScore' | 'analysisData'
+>
+
+export const parseAnalysisRecord = (item: StoredAnalysis): AnalysisResult => {
+  try {
+    const analysisData = JSON.parse(item.analysisData)
+    return normalizeStoredAnalysis({
+      id: item.id,
+      url: item.url,
+      timestamp: item.timestamp,
+      ...analysisData
+    })
+  } catch (error) {
+    console.error('Failed to parse analysis data:', error)
+    // Return a fallback structure
+    return {
+      id: item.id,
+      url: item.url,
+      timestamp: item.timestamp,
+      performance: { score: item.performanceScore || 0, metrics: { loadTime: 0, firstContentfulPaint: 0, largestContentfulPaint: 0, cumulativeLayoutShift: 0 }, recommendations: [] },
+      seo: { score: item.seoScore || 0, issues: [], recommendations: [] },
+      accessibility: { score: item.accessibilityScore || 0, violations: [], recommendations: [] },
+      design: { score: item.designScore || 0, analysis: { colorContrast: 0, typography: 0, layout: 0, responsiveness: 0 }, recommendations: [] },
+      ux: { score: item.uxScore || 0, metrics: { navigationClarity: 0, contentReadability: 0, mobileUsability: 0, interactionDesign: 0 }, recommendations: [] }
+    }
+  }
+}
+
+const issueSummary = (result: AnalysisResult): IssueSummary[] => {
+  const issues = collectFindings(result)
+    .filter(finding => finding.kind !== 'recommendation')
+    .map(finding => ({ key: `${finding.category}:${finding.ruleId ?? finding.text}`, label: finding.text }))
+  return issues.filter((issue, index) => issues.findIndex(item => item.key === issue.key) === index)
+}
+
+const summaryColumns = (result: AnalysisResult) => ({
+  overallScore: overallScore(result),
+  categories: `,${resultCategoryIds(result).join(',')},`,
+  scoreSummary: JSON.stringify(scoreSummary(result)),
+  hostname: hostnameOf(result.url),
+  issueSummary: JSON.stringify(issueSummary(result))
+})
+
+// Top-level analyses only; pages belonging to a crawl are reached through their parent
+export const listAnalyses = async (workspaceId: string, limit: number) => {
+  const analyses = await analysesTable().list({
+    where: { userId: workspaceId, parentId: { is: null } },
+    orderBy: { createdAt: 'desc' },
+    limit
+  })
+  return analyses.map(parseAnalysisRecord)
+}
+
+// Ids come from URLs, so an analysis of another workspace is reported as not found rather than shown
+export const getAnalysis = async (id: string, workspaceId: string) => {
+  const [item] = await analysesTable().list({ where: { id, userId: workspaceId }, limit: 1 })
+  return item ? parseAnalysisRecord(item) : null
+}
+
+export const saveAnalysis = async (
+  result: AnalysisResult,
+  workspaceId: string,
+  { parentId, kind = 'page' }: { parentId?: string; kind?: WebsiteAnalysisRecord['kind'] } = {}
+) => {
+  await analysesTable().create({
+    id: result.id,
+    userId: workspaceId,
+    parentId: parentId ?? null,
+    kind,
+    url: result.url,
+    timestamp: result.timestamp,
+    performanceScore: result.performance.score,
+    seoScore: result.seo.score,
+    accessibilityScore: result.accessibility.score,
+    designScore: result.design.score,
+    uxScore: result.ux.score,
+    ...summaryColumns(result),
+    analysisData: JSON.stringify(result),
+    createdAt: new Date().toISOString()
+  })
+}
+
+// Every top-level run for a hostname, oldest first, for trend charts
+export const listSiteAnalyses = async (workspaceId: string, hostname: string) => {
+  const analyses = await analysesTable().list({
+    where: { userId: workspaceId, parentId: { is: null }, url: { like: `%://${hostname}%` } },
+    orderBy: { timestamp: 'asc' }
+  })
+  // The LIKE pattern also matches longer hostnames such as example.com.au
+  return analyses
+    .map(parseAnalysisRecord)
+    .filter(analysis => hostnameOf(analysis.url) === hostname)
+}
+
+// Searched text is matched literally, so a "%" or "_" typed by the user is not a wildcard
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, '\\$&')
+
+const queryWhere = (workspaceId: string, query: AnalysisQuery): FilterCondition => {
+  const conditions: FilterCondition[] = [{ userId: workspaceId }, { parentId: { is: null } }]
+  const search = query.search.trim()
+  if (search) conditions.push({ url: { ilike: `%${escapeLike(search)}%` } })
+  if (query.from !== undefined) conditions.push({ timestamp: { gte: query.from } })
+  if (query.to !== undefined) conditions.push({ timestamp: { lte: query.to } })
+  if (query.minScore > 0) conditions.push({ overallScore: { gte: query.minScore } })
+  if (query.maxScore < 100) conditions.push({ overallScore: { lte: query.maxScore } })
+  for (const id of query.categories) conditions.push({ categories: { like: `%,${id},%` } })
+  return { AND: conditions }
+}
+
+// One page of top-level analyses, filtered and sorted by the database, with the total match count
+export const queryAnalyses = async (
+  workspaceId: string,
+  query: AnalysisQuery,
+  page: number,
+  pageSize: number
+): Promise<AnalysisPage> => {
+  const where = queryWhere(workspaceId, query)
+  const [records, total] = await Promise.all([
+    analysesTable().list({
+      where,
+      orderBy: SORT_ORDER[query.sort],
+      limit: pageSize,
+      offset: (page - 1) * pageSize
+    }),
+    analysesTable().count({ where })
+  ])
+  return { items: records.map(parseAnalysisRecord), total }
+}
+
+// Top-level analyses with an overall score in [min, max)
+export const countAnalysesInRange = (workspaceId: string, min: number, max: number) =>
+  analysesTable().count({
+    where: { AND: [{ userId: workspaceId }, { parentId: { is: null } }, { overallScore: { gte: min } }, { overallScore: { lt: max } }] }
+  })
+
+// Analyses saved before the summary columns existed are invisible to score and category filters until filled in
+export const backfillAnalysisSummaries = async (workspaceId: string) => {
+  // hostname is the newest summary column, so it is missing whenever any of them is
+  const records = await analysesTable().list({ where: { userId: workspaceId, hostname: { is: null } } })
+  if (records.length === 0) return
+
+  await analysesTable().updateMany(records.map(record => ({
+    id: record.id,
+    ...summaryColumns(parseAnalysisRecord(record))
+  })))
+}
+
+// Crawl pages go with their crawl record
+export const deleteAnalyses = async (ids: string[]) => {
+  await analysesTable().deleteMany({
+    where: { OR: [{ id: { in: ids } }, { parentId: { in: ids } }] }
+  })
+}
+
+// Competitor analyses of a benchmark go with the benchmark
+export const deleteChildAnalyses = async (parentId: string) => {
+  await analysesTable().deleteMany({ where: { parentId } })
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest'
+import { normalizeStoredAnalysis, validateAiAnalysis } from './analysis-validation'
+import { emptyCategory } from './categories'
+import { analysisResult } from '../test/fixtures'
+import type { AnalysisResult } from '../types/analysis'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+const trust = {
+  id: 'trust',
+  label: 'Trust',
+  shortLabel: 'Trust',
+  icon: 'Shield',
+  color: 'text-primary',
+  builtIn: false,
+  rubric: '',
+  subMetrics: [{ key: 'socialProof', label: 'Social Proof' }]
+}
+
+describe('validateAiAnalysis', () => {
+  it('accepts a response that matches the schema', () => {
+    const raw = {
+      ux: {
+        score: 80,
+        metrics: { navigationClarity: 70, contentReadability: 75, mobileUsability: 85, interactionDesign: 90 },
+        recommendations: ['Shorten the menu']
+      }
+    }
+    const validated = validateAiAnalysis(raw, { categories: ['ux'], measured: false, customCategories: [] })
+
+    expect(validated).toEqual({ analysis: { custom: {}, ...raw }, warnings: [], needsRepair: false })
+  })
+
+  it('clamps out-of-range scores without asking for a repair', () => {
+    const validated = validateAiAnalysis(
+      { trust: { score: 140, metrics: { socialProof: '55' }, recommendations: 'Add reviews' } },
+      { categories: [], measured: false, customCategories: [trust] }
+    )
+
+    expect(validated.analysis.custom.trust).toEqual({ score: 100, metrics: { socialProof: 55 }, recommendations: ['Add reviews'] })
+    expect(validated.needsRepair).toBe(true)
+    expect(validated.warnings).toContain('trust.score: Too big: expected number to be <=100')
+  })
+
+  it('fills a missing category with defaults and asks for a repair', () => {
+    const validated = validateAiAnalysis({}, { categories: ['performance'], measured: true, customCategories: [] })
+
+    expect(validated.analysis.performance).toEqual({ recommendations: [] })
+    expect(validated.needsRepair).toBe(true)
+  })
+})
+
+describe('normalizeStoredAnalysis', () => {
+  it('repairs malformed sections and keeps the fields it does not validate', () => {
+    const stored = analysisResult({
+      performance: {
+        ...emptyCategory('performance'),
+        source: 'measured',
+        metrics: { loadTime: '2.5', totalBlockingTime: 120 }
+      },
+      seo: { score: '61', issues: [{ type: 'critical', impact: 'serious', message: 'Missing title', ruleId: 'title' }, 'oops'] },
+      accessibility: null
+    } as unknown as Partial<AnalysisResult>)
+
+    const normalized = normalizeStoredAnalysis(stored)
+
+    expect(normalized.performance).toMatchObject({
+      source: 'measured',
+      metrics: { loadTime: 2.5, firstContentfulPaint: 0, totalBlockingTime: 120 }
+    })
+    expect(normalized.seo).toEqual({
+      score: 61,
+      issues: [{ type: 'error', impact: 'high', message: 'Missing title', ruleId: 'title' }],
+      recommendations: []
+    })
+    expect(normalized.accessibility).toEqual({ score: 0, violations: [], recommendations: [] })
+  })
+})
@@ -0,0 +1,266 @@
+import { z } from 'zod'
+import { estimatedSubMetrics, type CategoryDefinition } from './category-registry'
+import type { AccessibilityViolation, AnalysisResult, CategoryKey, SeoIssue } from '../types/analysis'
+
+// What the model was asked to return, mirroring buildAnalysisSchema
+export interface AnalysisResponseSpec {
+  categories: CategoryKey[]
+  measured: boolean
+  customCategories: CategoryDefinition[]
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const toNumber = (value: unknown) => typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+
+const clampScore = (value: number) => Math.min(100, Math.max(0, Math.round(value)))
+
+// Strict fields report what is wrong; lenient fields coerce the same input into a usable value
+const scoreField = (strict: boolean) =>
+  strict
+    ? z.number().min(0).max(100)
+    : z.preprocess(toNumber, z.number()).transform(clampScore).catch(0)
+
+// Performance estimates are seconds and CLS, so they only need to be non-negative
+const measureField = (strict: boolean) =>
+  strict
+    ? z.number().min(0)
+    : z.preprocess(toNumber, z.number()).transform(value => Math.max(0, value)).catch(0)
+
+const recommendationsField = (strict: boolean) =>
+  strict
+    ? z.array(z.string())
+    : z.preprocess(value => {
+      if (typeof value === 'string') return [value]
+      return Array.isArray(value) ? value.filter(item => typeof item === 'string' && item.trim() !== '') : []
+    }, z.array(z.string()))
+
+const objectField = <T extends z.ZodRawShape>(shape: T, strict: boolean) =>
+  strict ? z.object(shape) : z.preprocess(value => isRecord(value) ? value : {}, z.object(shape))
+
+// Built-in sections are keyed statically so their inferred types line up with AnalysisResult
+const builtInSchemas = (measured: boolean, strict: boolean) => {
+  const score = scoreField(strict)
+  const measure = measureField(strict)
+  const recommendations = recommendationsField(strict)
+  const recommendationsOnly = objectField({ recommendations }, strict)
+
+  return {
+    performance: measured
+      ? recommendationsOnly
+      : objectField({
+        score,
+        metrics: objectField({
+          loadTime: measure,
+          firstContentfulPaint: measure,
+          largestContentfulPaint: measure,
+          cumulativeLayoutShift: measure
+        }, strict),
+        recommendations
+      }, strict),
+    seo: recommendationsOnly,
+    accessibility: recommendationsOnly,
+    design: objectField({
+      score,
+      analysis: objectField({ colorContrast: score, typography: score, layout: score, responsiveness: score }, strict),
+      recommendations
+    }, strict),
+    ux: objectField({
+      score,
+      metrics: objectField({ navigationClarity: score, contentReadability: score, mobileUsability: score, interactionDesign: score }, strict),
+      recommendations
+    }, strict)
+  }
+}
+
+const customSchema = (category: CategoryDefinition, strict: boolean) => objectField({
+  score: scoreField(strict),
+  metrics: objectField(Object.fromEntries(estimatedSubMetrics(category).map(({ key }) => [key, scoreField(strict)])), strict),
+  recommendations: recommendationsField(strict)
+}, strict)
+
+type BuiltInSchemas = ReturnType<typeof builtInSchemas>
+
+export type BuiltInResponse<K extends CategoryKey> = z.infer<BuiltInSchemas[K]>
+
+export type CustomCategoryResponse = z.infer<ReturnType<typeof customSchema>>
+
+// Laid out like AnalysisResult: requested built-in categories at the top level, custom ones under custom
+export type AiAnalysis = { [K in CategoryKey]?: BuiltInResponse<K> } & { custom: Record<string, CustomCategoryResponse> }
+
+export interface ValidatedAnalysis {
+  // Normalized response: every requested field present, scores clamped to 0-100
+  analysis: AiAnalysis
+  // Human-readable problems found in the raw response, recorded on the saved analysis
+  warnings: string[]
+  // Fields were missing or had the wrong type, so a repair attempt is worthwhile
+  needsRepair: boolean
+}
+
+// Only used to report problems; the analysis itself comes from the lenient schemas
+const strictResponseSchema = ({ categories, measured, customCategories }: AnalysisResponseSpec) => {
+  const builtIn = builtInSchemas(measured, true)
+  return z.object(Object.fromEntries([
+    ...categories.map(category => [category, builtIn[category]]),
+    ...customCategories.map(category => [category.id, customSchema(category, true)])
+  ]))
+}
+
+const normalizeResponse = (raw: Record<string, unknown>, { categories, measured, customCategories }: AnalysisResponseSpec): AiAnalysis => {
+  const builtIn = builtInSchemas(measured, false)
+  const section = <S extends z.ZodType>(category: CategoryKey, schema: S): z.output<S> | undefined =>
+    categories.includes(category) ? schema.parse(raw[category]) : undefined
+
+  return {
+    performance: section('performance', builtIn.performance),
+    seo: section('seo', builtIn.seo),
+    accessibility: section('accessibility', builtIn.accessibility),
+    design: section('design', builtIn.design),
+    ux: section('ux', builtIn.ux),
+    custom: Object.fromEntries(customCategories.map(category => [category.id, customSchema(category, false).parse(raw[category.id])]))
+  }
+}
+
+export const validateAiAnalysis = (raw: unknown, spec: AnalysisResponseSpec): ValidatedAnalysis => {
+  const strict = strictResponseSchema(spec).safeParse(raw)
+  const analysis = normalizeResponse(isRecord(raw) ? raw : {}, spec)
+  if (strict.success) return { analysis, warnings: [], needsRepair: false }
+
+  return {
+    analysis,
+    warnings: strict.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`),
+    // Out-of-range numbers are simply clamped; missing or mistyped fields are worth asking again for
+    needsRepair: strict.error.issues.some(issue => issue.code !== 'too_big' && issue.code !== 'too_small')
+  }
+}
+
+export const repairPrompt = (prompt: string, raw: unknown, warnings: string[]) => `
+    ${prompt}
+
+    A previous answer to this request did not match the required structure:
+    ${JSON.stringify(raw).substring(0, 4000)}
+
+    Problems found:
+    ${warnings.map(warning => `- ${warning}`).join('\n')}
+
+    Return the complete answer again with every field present, all scores as numbers from 0 to 100,
+    and recommendations as arrays of strings.
+  `
+
+const SEVERITY_ALIASES: Record<string, AccessibilityViolation['severity']> = {
+  critical: 'critical',
+  serious: 'serious',
+  high: 'serious',
+  error: 'serious',
+  moderate: 'moderate',
+  medium: 'moderate',
+  warning: 'moderate',
+  minor: 'minor',
+  low: 'minor',
+  info: 'minor'
+}
+
+const IMPACT_ALIASES: Record<string, SeoIssue['impact']> = {
+  critical: 'high',
+  high: 'high',
+  serious: 'high',
+  medium: 'medium',
+  moderate: 'medium',
+  low: 'low',
+  minor: 'low'
+}
+
+const ISSUE_TYPE_ALIASES: Record<string, SeoIssue['type']> = {
+  error: 'error',
+  critical: 'error',
+  warning: 'warning',
+  info: 'info',
+  notice: 'info'
+}
+
+const aliasOf = <T extends string>(aliases: Record<string, T>, fallback: T) =>
+  z.preprocess(
+    value => typeof value === 'string' ? aliases[value.trim().toLowerCase()] : undefined,
+    z.enum(Object.values(aliases) as [T, ...T[]])
+  ).catch(fallback)
+
+const optionalString = z.string().optional().catch(undefined)
+
+const storedViolationSchema = z.object({
+  ruleId: optionalString,
+  wcag: z.array(z.string()).optional().catch(undefined),
+  severity: aliasOf(SEVERITY_ALIASES, 'moderate'),
+  description: z.string().catch(''),
+  element: z.string().catch(''),
+  selector: optionalString,
+  html: optionalString,
+  help: optionalString
+})
+
+const storedIssueSchema = z.object({
+  ruleId: optionalString,
+  type: aliasOf(ISSUE_TYPE_ALIASES, 'warning'),
+  impact: aliasOf(IMPACT_ALIASES, 'medium'),
+  message: z.string().catch(''),
+  evidence: optionalString
+})
+
+// Only the fields every reader relies on; whatever else a section holds is kept from the stored record
+const storedCategorySchema = <T extends z.ZodRawShape>(shape: T) =>
+  z.preprocess(value => isRecord(value) ? value : {}, z.object({
+    score: scoreField(false),
+    recommendations: recommendationsField(false),
+    ...shape
+  }))
+
+const storedMetrics = <T extends z.ZodRawShape>(shape: T) =>
+  z.preprocess(value => isRecord(value) ? value : {}, z.object(shape))
+
+const listOf = <T extends z.ZodType>(item: T) =>
+  z.preprocess(value => Array.isArray(value) ? value.filter(isRecord) : [], z.array(item))
+
+const storedScore = scoreField(false)
+const storedMeasure = measureField(false)
+// Measured-only timings are absent on estimated runs and INP without field data
+const storedTiming = z.number().optional().catch(undefined)
+
+// Analyses saved by older versions, or before validation existed, can hold any shape the model produced
+const storedAnalysisSchema = z.object({
+  performance: storedCategorySchema({
+    metrics: storedMetrics({
+      loadTime: storedMeasure,
+      firstContentfulPaint: storedMeasure,
+      largestContentfulPaint: storedMeasure,
+      cumulativeLayoutShift: storedMeasure,
+      totalBlockingTime: storedTiming,
+      timeToFirstByte: storedTiming,
+      interactionToNextPaint: storedTiming
+    })
+  }),
+  seo: storedCategorySchema({ issues: listOf(storedIssueSchema) }),
+  accessibility: storedCategorySchema({ violations: listOf(storedViolationSchema) }),
+  design: storedCategorySchema({
+    analysis: storedMetrics({ colorContrast: storedScore, typography: storedScore, layout: storedScore, responsiveness: storedScore })
+  }),
+  ux: storedCategorySchema({
+    metrics: storedMetrics({
+      navigationClarity: storedScore,
+      contentReadability: storedScore,
+      mobileUsability: storedScore,
+      interactionDesign: storedScore
+    })
+  })
+})
+
+export const normalizeStoredAnalysis = (result: AnalysisResult): AnalysisResult => {
+  const { performance, seo, accessibility, design, ux } = storedAnalysisSchema.parse(result)
+  return {
+    ...result,
+    performance: { ...result.performance, ...performance },
+    seo: { ...result.seo, ...seo },
+    accessibility: { ...result.accessibility, ...accessibility },
+    design: { ...result.design, ...design },
+    ux: { ...result.ux, ...ux }
+  }
+}
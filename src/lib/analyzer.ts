@@ -0,0 +1,542 @@
+import { blink } from './blink'
+import { auditSeo } from './seo-audit'
+import { auditAccessibility } from './a11y-audit'
+import { metricsProvider, type PerformanceMeasurement } from './metrics'
+import { annotateScreenshot, mergeVisualFindings, type VisualFinding } from './visual-annotations'
+import { auditDevice, measureScreenshotWidth, responsivenessScore } from './responsive-audit'
+import { DEFAULT_ANALYSIS_SETTINGS, devicesOf, modelOf } from './analysis-settings'
+import { CATEGORY_KEYS, CATEGORY_LABELS, emptyCategory, isBuiltInCategory } from './categories'
+import { builtInCategory, estimatedSubMetrics, type CategoryDefinition } from './category-registry'
+import { DEFAULT_SCORING, weightsFor, type ScoringConfig } from './scoring'
+import {
+  repairPrompt,
+  validateAiAnalysis,
+  type AnalysisResponseSpec,
+  type CustomCategoryResponse,
+  type ValidatedAnalysis
+} from './analysis-validation'
+import { abortable } from './abort'
+import { analysisCacheKey, cacheAnalysis, contentHash, getCachedAnalysis, type AnalysisCacheOptions } from './analysis-cache'
+import type {
+  AnalysisResult,
+  AnalysisSettings,
+  Audience,
+  CategoryKey,
+  CustomCategoryResult,
+  DeviceProfile,
+  DeviceResult
+} from '../types/analysis'
+
+type ScrapeResult = Awaited<ReturnType<typeof blink.data.scrape>>
+
+export interface AnalysisOptions {
+  onStep?: (step: string, progress: number) => void
+  onScraped?: (scraped: ScrapeResult) => void
+  // Called as each category completes, with the result so far and the ids still running
+  onPartialResult?: (result: AnalysisResult, pending: string[]) => void
+  // Called after every finished step with everything needed to resume the run from there
+  onCheckpoint?: (checkpoint: AnalysisCheckpoint) => void
+  // A checkpoint from an interrupted run; finished steps are reused instead of rerun
+  resume?: AnalysisCheckpoint
+  signal?: AbortSignal
+  settings?: AnalysisSettings
+  // Custom category definitions; those listed in settings.categories are scored
+  customCategories?: CategoryDefinition[]
+  // Workspace scoring config; the weights for the analyzed categories are recorded on the result
+  scoring?: ScoringConfig
+  // Reuse an earlier result for unchanged content within settings.cacheTtlHours
+  cache?: AnalysisCacheOptions
+}
+
+const RECOMMENDATIONS_SCHEMA = { type: 'array', items: { type: 'string' } }
+const SCORE_SCHEMA = { type: 'number', minimum: 0, maximum: 100 }
+const MEASURE_SCHEMA = { type: 'number', minimum: 0 }
+
+// Every property is required; the response is still validated afterwards since models don't always comply
+const objectSchema = (properties: object) => ({
+  type: 'object',
+  properties,
+  required: Object.keys(properties)
+})
+
+const numberProperties = (keys: string[], schema: object = SCORE_SCHEMA) =>
+  objectSchema(Object.fromEntries(keys.map(key => [key, schema])))
+
+const subMetricProperties = (category: CategoryDefinition, schema?: object) =>
+  numberProperties(estimatedSubMetrics(category).map(subMetric => subMetric.key), schema)
+
+// SEO, accessibility and measured performance are scored by the audits, so the model only writes recommendations for them
+const categorySchema = (category: CategoryKey, measured: boolean) => {
+  switch (category) {
+    case 'performance':
+      return measured
+        ? { recommendations: RECOMMENDATIONS_SCHEMA }
+        : {
+          score: SCORE_SCHEMA,
+          metrics: subMetricProperties(builtInCategory('performance'), MEASURE_SCHEMA),
+          recommendations: RECOMMENDATIONS_SCHEMA
+        }
+    case 'seo':
+    case 'accessibility':
+      return { recommendations: RECOMMENDATIONS_SCHEMA }
+    case 'design':
+      return {
+        score: SCORE_SCHEMA,
+        analysis: subMetricProperties(builtInCategory('design')),
+        recommendations: RECOMMENDATIONS_SCHEMA
+      }
+    case 'ux':
+      return {
+        score: SCORE_SCHEMA,
+        metrics: subMetricProperties(builtInCategory('ux')),
+        recommendations: RECOMMENDATIONS_SCHEMA
+      }
+  }
+}
+
+const customCategorySchema = (category: CategoryDefinition) => ({
+  score: SCORE_SCHEMA,
+  metrics: subMetricProperties(category),
+  recommendations: RECOMMENDATIONS_SCHEMA
+})
+
+export const buildAnalysisSchema = (
+  categories: CategoryKey[],
+  measured: boolean,
+  customCategories: CategoryDefinition[] = []
+) => objectSchema(Object.fromEntries([
+  ...categories.map(category => [category, objectSchema(categorySchema(category, measured))]),
+  ...customCategories.map(category => [category.id, objectSchema(customCategorySchema(category))])
+]))
+
+// One repair round: the model gets its invalid answer and the problems back, and the better of the two answers wins
+const generateAnalysis = async (
+  prompt: string,
+  model: string | undefined,
+  spec: AnalysisResponseSpec,
+  signal?: AbortSignal
+): Promise<ValidatedAnalysis> => {
+  const schema = buildAnalysisSchema(spec.categories, spec.measured, spec.customCategories)
+  const { object } = await blink.ai.generateObject({ prompt, model, schema, signal })
+  const first = validateAiAnalysis(object, spec)
+  if (!first.needsRepair) return first
+
+  try {
+    const { object: repaired } = await blink.ai.generateObject({
+      prompt: repairPrompt(prompt, object, first.warnings),
+      model,
+      schema,
+      signal
+    })
+    const second = validateAiAnalysis(repaired, spec)
+    if (second.warnings.length > first.warnings.length) return first
+
+    return {
+      ...second,
+      warnings: [
+        `AI response was regenerated after failing validation (${first.warnings.length} problem${first.warnings.length === 1 ? '' : 's'})`,
+        ...second.warnings
+      ]
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error
+    console.error('Repair request failed, keeping the normalized response:', error)
+    return first
+  }
+}
+
+const customCategoryResult = (
+  category: CategoryDefinition,
+  scored?: CustomCategoryResponse
+): CustomCategoryResult => ({
+  label: category.label,
+  icon: category.icon,
+  subMetrics: category.subMetrics,
+  score: scored?.score ?? 0,
+  metrics: Object.fromEntries(category.subMetrics.map(subMetric => [subMetric.key, scored?.metrics?.[subMetric.key] ?? 0])),
+  recommendations: scored?.recommendations ?? []
+})
+
+const AUDIENCE_INSTRUCTIONS: Record<Audience, string> = {
+  developer: 'Write for web developers: be technical and specific, naming elements, attributes and code-level fixes.',
+  marketing: 'Write for a marketing team: use plain language, avoid jargon and explain the business impact of each fix.'
+}
+
+const SCORED_AREAS: Record<'performance' | 'design' | 'ux', string> = {
+  performance: 'Performance (load speed, optimization)',
+  design: 'Design (visual appeal, consistency, branding)',
+  ux: 'User Experience (navigation, content clarity, mobile-friendliness)'
+}
+
+const captureDevice = async (validUrl: string, device: DeviceProfile, signal?: AbortSignal) => {
+  try {
+    const screenshotUrl = await abortable(blink.data.screenshot(validUrl, {
+      fullPage: true,
+      width: device.width,
+      height: device.height
+    }), signal)
+    return { device, screenshotUrl, pageWidth: await measureScreenshotWidth(screenshotUrl, device, signal) }
+  } catch (error) {
+    if (signal?.aborted) throw error
+    console.error(`Screenshot failed for ${device.label}:`, error)
+    return { device }
+  }
+}
+
+// Everything the AI steps need from the page itself. The raw HTML isn't kept, so scrape, screenshots
+// and measurement are checkpointed together once the audits that read it have run.
+export interface PageCapture {
+  markdown: string
+  title: string
+  description: string
+  seoAudit: ReturnType<typeof auditSeo> | null
+  accessibilityAudit: ReturnType<typeof auditAccessibility> | null
+  measurement: PerformanceMeasurement | null
+  deviceResults: DeviceResult[]
+  screenshotUrl?: string
+  // Absent on checkpoints saved before caching existed; such runs aren't cached
+  contentHash?: string
+}
+
+export interface AnalysisCheckpoint {
+  id: string
+  timestamp: number
+  page?: PageCapture
+  // Finished categories: the value stored on the result under the category key, or in `custom`
+  completed: Record<string, unknown>
+  failed: string[]
+  warnings: string[]
+}
+
+type AnalysisContext = Pick<PageCapture, 'seoAudit' | 'accessibilityAudit' | 'measurement' | 'deviceResults'>
+
+const deviceChecksSummary = (deviceResults: DeviceResult[]) =>
+  deviceResults.map(result =>
+    `- ${result.device.label} (${result.device.width}px): ${result.checks.map(check => check.message).join('; ') || 'no problems found'}`
+  ).join('\n')
+
+// The part of the prompt specific to one built-in category
+const builtInInstructions = (category: CategoryKey, { seoAudit, accessibilityAudit, measurement, deviceResults }: AnalysisContext) => {
+  switch (category) {
+    case 'performance':
+      return measurement
+        ? `Measured performance (already scored, do not re-score performance): ${JSON.stringify(measurement.metrics)}
+    Write recommendations that address these measurements.`
+        : `Performance could not be measured; estimate performance metrics from the content.
+    Score (0-100) ${SCORED_AREAS.performance}.`
+    case 'seo':
+      return `SEO audit findings (already scored, do not re-score SEO):
+    ${seoAudit?.issues.map(issue => `- [${issue.ruleId}] ${issue.message}`).join('\n') || '- No issues found'}
+    Write SEO recommendations that address these findings.`
+    case 'accessibility':
+      return `Accessibility scan violations (already scored, do not re-score accessibility):
+    ${accessibilityAudit?.violations.map(violation => `- [${violation.ruleId}] ${violation.description} at ${violation.selector}`).join('\n') || '- No violations found'}
+    Write accessibility recommendations that address these violations.`
+    case 'design':
+      return `Score (0-100) ${SCORED_AREAS.design}.${deviceResults.length > 0 ? `
+    Responsive checks per device (responsiveness is already scored):
+    ${deviceChecksSummary(deviceResults)}` : ''}`
+    case 'ux':
+      return `Score (0-100) ${SCORED_AREAS.ux}.${deviceResults.length > 0 ? `
+    Responsive checks per device (use them for mobile usability):
+    ${deviceChecksSummary(deviceResults)}` : ''}`
+  }
+}
+
+const customInstructions = (category: CategoryDefinition) => `Score (0-100) "${category.label}" using this rubric:
+    ${category.rubric}${category.subMetrics.length > 0 ? `
+    Also score these sub-metrics (0-100): ${category.subMetrics.map(subMetric => `${subMetric.key} (${subMetric.label})`).join(', ')}` : ''}
+    Return the result under the key "${category.id}".`
+
+const capturePage = async (
+  validUrl: string,
+  scraped: ScrapeResult,
+  settings: AnalysisSettings,
+  categories: CategoryKey[],
+  signal?: AbortSignal
+): Promise<Omit<PageCapture, 'contentHash'>> => {
+  const includes = (category: CategoryKey) => categories.includes(category)
+  const { markdown, html, metadata } = scraped
+
+  const devices = includes('design') || includes('ux') ? devicesOf(settings) : []
+  const [captures, measurement] = await Promise.all([
+    Promise.all(devices.map(device => captureDevice(validUrl, device, signal))),
+    includes('performance')
+      ? abortable(metricsProvider.collect(validUrl), signal).catch((error): PerformanceMeasurement | null => {
+        if (signal?.aborted) throw error
+        console.error('Performance measurement failed, falling back to estimates:', error)
+        return null
+      })
+      : null
+  ])
+
+  return {
+    markdown: markdown.substring(0, settings.contentDepth),
+    title: metadata.title || '',
+    description: metadata.description || '',
+    seoAudit: includes('seo') ? auditSeo(html, validUrl) : null,
+    accessibilityAudit: includes('accessibility') ? auditAccessibility(html) : null,
+    measurement,
+    deviceResults: captures.map(capture => auditDevice(html, capture.device, capture)),
+    // The widest capture feeds the visual annotation and the report
+    screenshotUrl: [...captures]
+      .sort((a, b) => b.device.width - a.device.width)
+      .find(capture => capture.screenshotUrl)?.screenshotUrl
+  }
+}
+
+export const runAnalysis = async (
+  validUrl: string,
+  {
+    onStep,
+    onScraped,
+    onPartialResult,
+    onCheckpoint,
+    resume,
+    signal,
+    settings = DEFAULT_ANALYSIS_SETTINGS,
+    customCategories = [],
+    scoring = DEFAULT_SCORING,
+    cache
+  }: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const categories = CATEGORY_KEYS.filter(key => settings.categories.includes(key))
+  const selectedCustom = customCategories.filter(category => settings.categories.includes(category.id))
+  const categoryIds = [...categories, ...selectedCustom.map(category => category.id)]
+  const labelOf = (id: string) => isBuiltInCategory(id)
+    ? CATEGORY_LABELS[id]
+    : selectedCustom.find(category => category.id === id)?.label ?? id
+
+  // Bulk runs and benchmarks start several analyses at once, so the id can't come from the clock
+  const checkpoint: AnalysisCheckpoint = resume ?? {
+    id: `analysis_${crypto.randomUUID()}`,
+    timestamp: Date.now(),
+    completed: {},
+    failed: [],
+    warnings: []
+  }
+  const saveCheckpoint = () => onCheckpoint?.(structuredClone(checkpoint))
+  const cacheKey = cache && settings.cacheTtlHours > 0
+    ? await analysisCacheKey(cache.workspaceId, validUrl, settings, selectedCustom)
+    : null
+
+  // Steps 1-2: Scrape the page, take a screenshot per device profile and measure performance
+  if (!checkpoint.page) {
+    onStep?.('Analyzing website content, capturing screenshots and measuring performance...', 10)
+    const scraped = await abortable(blink.data.scrape(validUrl), signal)
+    onScraped?.(scraped)
+    const hash = await contentHash(scraped.markdown, scraped.metadata)
+
+    // Unchanged content: the earlier result is reused without screenshots, measurement or AI requests
+    if (cacheKey && !cache?.forceRefresh) {
+      const cached = await getCachedAnalysis(cacheKey, hash, settings.cacheTtlHours).catch(error => {
+        console.error('Analysis cache lookup failed:', error)
+        return null
+      })
+      if (cached) {
+        onStep?.('Page content unchanged, reusing the cached analysis', 90)
+        return {
+          ...cached,
+          id: checkpoint.id,
+          timestamp: checkpoint.timestamp,
+          weights: weightsFor(scoring, categoryIds),
+          cachedFrom: { analysisId: cached.id, timestamp: cached.timestamp }
+        }
+      }
+    }
+
+    checkpoint.page = { ...await capturePage(validUrl, scraped, settings, categories, signal), contentHash: hash }
+    saveCheckpoint()
+  }
+  const page = checkpoint.page
+  const { seoAudit, accessibilityAudit, measurement, deviceResults, screenshotUrl } = page
+  signal?.throwIfAborted()
+
+  // Step 3: One AI request per category, all in parallel, each streamed to the caller as it completes
+  const model = modelOf(settings)
+  const sharedPrompt = `
+    Analyze this website and provide detailed insights:
+
+    URL: ${validUrl}
+    Title: ${page.title || 'No title'}
+    Description: ${page.description || 'No description'}
+
+    Content Preview:
+    ${page.markdown}...
+  `
+  const promptFor = (instructions: string) => `${sharedPrompt}
+    ${instructions}
+
+    Provide specific, actionable recommendations for improvement and flag anything that needs immediate attention.
+    ${AUDIENCE_INSTRUCTIONS[settings.audience]}
+    Provide realistic scores and detailed, actionable recommendations.
+  `
+
+  const pending = new Set(categoryIds)
+  let current: AnalysisResult = {
+    id: checkpoint.id,
+    url: validUrl,
+    timestamp: checkpoint.timestamp,
+    screenshotUrl,
+    settings,
+    weights: weightsFor(scoring, categoryIds),
+    performance: emptyCategory('performance'),
+    seo: emptyCategory('seo'),
+    accessibility: emptyCategory('accessibility'),
+    design: emptyCategory('design'),
+    ux: emptyCategory('ux')
+  }
+
+  const reportProgress = () => {
+    const done = categoryIds.length - pending.size
+    onStep?.(
+      pending.size > 0
+        ? `Running AI analysis: waiting on ${[...pending].map(labelOf).join(', ')}`
+        : 'AI analysis complete',
+      20 + Math.round((done / Math.max(categoryIds.length, 1)) * 60)
+    )
+  }
+
+  const apply = (id: string, value: unknown) => {
+    current = isBuiltInCategory(id)
+      ? { ...current, [id]: value }
+      : { ...current, custom: { ...current.custom, [id]: value as CustomCategoryResult } }
+  }
+
+  // A null value marks the category as failed: it is left out of the result's scores
+  const finish = (id: string, value: unknown) => {
+    if (signal?.aborted) return
+    if (value === null) {
+      checkpoint.failed.push(id)
+    } else {
+      checkpoint.completed[id] = value
+      apply(id, value)
+    }
+    pending.delete(id)
+    saveCheckpoint()
+    reportProgress()
+    onPartialResult?.(current, [...pending])
+  }
+
+  // Categories finished before an interruption are restored without another request
+  for (const id of categoryIds) {
+    if (id in checkpoint.completed) {
+      apply(id, checkpoint.completed[id])
+      pending.delete(id)
+    } else if (checkpoint.failed.includes(id)) {
+      pending.delete(id)
+    }
+  }
+  reportProgress()
+  if (pending.size < categoryIds.length) onPartialResult?.(current, [...pending])
+
+  // Resolves to null when the request fails; audited categories still keep their scores
+  const requestCategory = async (id: string, spec: AnalysisResponseSpec, instructions: string) => {
+    try {
+      const validated = await generateAnalysis(promptFor(instructions), model, spec, signal)
+      checkpoint.warnings.push(...validated.warnings)
+      return validated.analysis
+    } catch (error) {
+      if (signal?.aborted) throw error
+      console.error(`AI analysis failed for ${id}:`, error)
+      checkpoint.warnings.push(`${labelOf(id)}: AI analysis failed`)
+      return null
+    }
+  }
+  const requestBuiltIn = async <K extends CategoryKey>(category: K) => {
+    const analysis = await requestCategory(
+      category,
+      { categories: [category], measured: measurement !== null, customCategories: [] },
+      builtInInstructions(category, page)
+    )
+    return analysis?.[category] ?? null
+  }
+
+  const tasks: Record<CategoryKey, () => Promise<unknown>> = {
+    performance: async () => {
+      const analysis = await requestBuiltIn('performance')
+      if (measurement) {
+        return {
+          ...measurement,
+          source: 'measured',
+          provider: metricsProvider.name,
+          recommendations: analysis?.recommendations ?? []
+        }
+      }
+      return analysis && { ...analysis, source: 'estimated' }
+    },
+    seo: async () => {
+      const analysis = await requestBuiltIn('seo')
+      return { ...seoAudit!, recommendations: analysis?.recommendations ?? [] }
+    },
+    accessibility: async () => {
+      const analysis = await requestBuiltIn('accessibility')
+      return { ...accessibilityAudit!, recommendations: analysis?.recommendations ?? [] }
+    },
+    // The screenshot is annotated by a vision model alongside the design request
+    design: async () => {
+      const [analysis, visualFindings] = await Promise.all([
+        requestBuiltIn('design'),
+        screenshotUrl
+          ? annotateScreenshot(screenshotUrl, validUrl, signal).catch((error): VisualFinding[] => {
+            if (signal?.aborted) throw error
+            console.error('Visual annotation failed:', error)
+            return []
+          })
+          : []
+      ])
+      if (!analysis) return null
+
+      const annotatedDesign = mergeVisualFindings(analysis.recommendations ?? [], visualFindings)
+      return {
+        ...analysis,
+        analysis: {
+          ...analysis.analysis,
+          responsiveness: responsivenessScore(deviceResults) ?? analysis.analysis?.responsiveness ?? 0
+        },
+        devices: deviceResults,
+        annotations: annotatedDesign.annotations,
+        recommendations: annotatedDesign.recommendations
+      }
+    },
+    ux: () => requestBuiltIn('ux')
+  }
+
+  // Each custom result keeps a copy of its definition so it still renders if the category is edited or deleted
+  const customTask = async (category: CategoryDefinition) => {
+    const analysis = await requestCategory(
+      category.id,
+      { categories: [], measured: false, customCategories: [category] },
+      customInstructions(category)
+    )
+    return analysis && customCategoryResult(category, analysis.custom[category.id])
+  }
+
+  await Promise.all([
+    ...categories
+      .filter(category => pending.has(category))
+      .map(async category => finish(category, await tasks[category]())),
+    ...selectedCustom
+      .filter(category => pending.has(category.id))
+      .map(async category => finish(category.id, await customTask(category)))
+  ])
+  signal?.throwIfAborted()
+
+  if (categoryIds.length > 0 && checkpoint.failed.length === categoryIds.length) {
+    throw new Error('AI analysis failed for every category')
+  }
+
+  const result: AnalysisResult = {
+    ...current,
+    ...(checkpoint.failed.length > 0 && { failedCategories: checkpoint.failed }),
+    ...(checkpoint.warnings.length > 0 && { validationWarnings: checkpoint.warnings })
+  }
+
+  // Partial results aren't cached, so the next run retries the failed categories
+  if (cache && cacheKey && page.contentHash && checkpoint.failed.length === 0) {
+    await cacheAnalysis(cacheKey, page.contentHash, result, cache.workspaceId).catch(error =>
+      console.error('Failed to cache analysis:', error)
+    )
+  }
+  return result
+}
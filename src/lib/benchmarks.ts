@@ -0,0 +1,155 @@
+import { blink } from './blink'
+import { runAnalysis, type AnalysisOptions } from './analyzer'
+import { deleteChildAnalyses, saveAnalysis } from './analysis-store'
+import { CATEGORY_KEYS, analyzedScores, isBuiltInCategory } from './categories'
+import { mapWithConcurrency } from './concurrency'
+
+export interface BenchmarkEntry {
+  url: string
+  analysisId?: string
+  // Only the categories analyzed for this site, custom ones included
+  scores?: Record<string, number>
+  error?: string
+}
+
+export interface Benchmark {
+  id: string
+  name: string
+  clientUrl: string
+  competitorUrls: string[]
+  entries: BenchmarkEntry[]
+  lastRunAt: number | null
+  createdAt: string
+}
+
+interface BenchmarkRecord {
+  id: string
+  userId: string
+  name: string
+  clientUrl: string
+  competitorUrls: string
+  entries: string
+  lastRunAt: number | null
+  createdAt: string
+}
+
+export interface LeaderboardRow {
+  rank: number
+  url: string
+  score: number
+  isClient: boolean
+}
+
+export interface BenchmarkGap {
+  category: string
+  clientScore: number
+  leaderUrl: string
+  leaderScore: number
+  gap: number
+}
+
+const BENCHMARK_CONCURRENCY = 2
+
+const benchmarksTable = () => blink.db.table<BenchmarkRecord>('benchmarks')
+
+const parseBenchmark = (record: BenchmarkRecord): Benchmark => ({
+  id: record.id,
+  name: record.name,
+  clientUrl: record.clientUrl,
+  competitorUrls: JSON.parse(record.competitorUrls || '[]'),
+  entries: JSON.parse(record.entries || '[]'),
+  lastRunAt: record.lastRunAt,
+  createdAt: record.createdAt
+})
+
+export const listBenchmarks = async (workspaceId: string) => {
+  const records = await benchmarksTable().list({
+    where: { userId: workspaceId },
+    orderBy: { createdAt: 'desc' }
+  })
+  return records.map(parseBenchmark)
+}
+
+export const saveBenchmark = async (benchmark: Benchmark, workspaceId: string) => {
+  await benchmarksTable().upsert({
+    id: benchmark.id,
+    userId: workspaceId,
+    name: benchmark.name,
+    clientUrl: benchmark.clientUrl,
+    competitorUrls: JSON.stringify(benchmark.competitorUrls),
+    entries: JSON.stringify(benchmark.entries),
+    lastRunAt: benchmark.lastRunAt,
+    createdAt: benchmark.createdAt
+  })
+}
+
+export const deleteBenchmark = async (id: string) => {
+  await deleteChildAnalyses(id)
+  await benchmarksTable().delete(id)
+}
+
+// Analyses are stored as children of the benchmark so competitor runs stay out of the main history
+export const runBenchmark = async (
+  benchmark: Benchmark,
+  workspaceId: string,
+  options: Pick<AnalysisOptions, 'settings' | 'customCategories' | 'scoring'>,
+  onProgress?: (completed: number, total: number) => void
+): Promise<Benchmark> => {
+  const urls = [benchmark.clientUrl, ...benchmark.competitorUrls]
+  let completed = 0
+
+  const entries = await mapWithConcurrency(urls, BENCHMARK_CONCURRENCY, async (url): Promise<BenchmarkEntry> => {
+    try {
+      const result = await runAnalysis(url, { ...options, cache: { workspaceId } })
+      await saveAnalysis(result, workspaceId, { parentId: benchmark.id })
+      return {
+        url,
+        analysisId: result.id,
+        scores: analyzedScores(result)
+      }
+    } catch (error) {
+      console.error(`Benchmark analysis failed for ${url}:`, error)
+      return { url, error: 'Analysis failed' }
+    } finally {
+      onProgress?.(++completed, urls.length)
+    }
+  })
+
+  const updated = { ...benchmark, entries, lastRunAt: Date.now() }
+  await saveBenchmark(updated, workspaceId)
+  return updated
+}
+
+// Built-in categories first, then custom ones, each listed if any site analyzed it
+export const benchmarkCategories = (benchmark: Benchmark) => {
+  const ids = new Set(benchmark.entries.flatMap(entry => Object.keys(entry.scores ?? {})))
+  return [...CATEGORY_KEYS.filter(key => ids.has(key)), ...[...ids].filter(id => !isBuiltInCategory(id))]
+}
+
+// Sites that didn't analyze the category are left out rather than ranked last with zero
+export const rankCategory = (benchmark: Benchmark, category: string): LeaderboardRow[] =>
+  benchmark.entries
+    .filter(entry => entry.scores && category in entry.scores)
+    .map(entry => ({ url: entry.url, score: entry.scores![category], isClient: entry.url === benchmark.clientUrl }))
+    .sort((a, b) => b.score - a.score)
+    .map((row, index) => ({ rank: index + 1, ...row }))
+
+// Categories where at least one competitor beats the client, largest gap first
+export const findClientGaps = (benchmark: Benchmark): BenchmarkGap[] => {
+  const client = benchmark.entries.find(entry => entry.url === benchmark.clientUrl)
+  if (!client?.scores) return []
+
+  return Object.keys(client.scores)
+    .map(category => {
+      const [leader] = rankCategory(benchmark, category)
+      return {
+        category,
+        clientScore: client.scores![category],
+        leaderUrl: leader.url,
+        leaderScore: leader.score,
+        gap: leader.score - client.scores![category]
+      }
+    })
+    .filter(gap => gap.gap > 0)
+    .sort((a, b) => b.gap - a.gap)
+}
@@ -1,6 +1,11 @@
 import { createClient } from '@blinkdotnew/sdk'
 
+// Shared report links are opened by clients who don't have an account
+export const SHARE_PATH_PREFIX = '/share/'
+
+export const BLINK_PROJECT_ID = 'ai-website-analyzer-89lrwyko'
+
 export const blink = createClient({
-  projectId: 'ai-website-analyzer-89lrwyko',
-  authRequired: true
+  projectId: BLINK_PROJECT_ID,
+  authRequired: !window.location.pathname.startsWith(SHARE_PATH_PREFIX)
 })
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createBulkJobs, parseUrlCsv, runBulkQueue, sortBulkJobs, type BulkJob, type BulkQueueOptions } from './bulk-queue'
+import { emptyCategory } from './categories'
+import { analysisResult } from '../test/fixtures'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('parseUrlCsv', () => {
+  it('reads the column with a URL header and reports invalid and duplicate entries', () => {
+    const csv = 'Client,Website\nAcme,acme.com\n"Widgets, Inc",https://widgets.example/\nAcme again,https://acme.com\nBroken,not a url\n'
+
+    expect(parseUrlCsv(csv)).toEqual({
+      urls: ['https://acme.com', 'https://widgets.example/'],
+      invalid: ['not a url'],
+      duplicates: 1
+    })
+  })
+
+  it('uses the first column when no header names a URL', () => {
+    expect(parseUrlCsv('acme.com,Acme\nwidgets.example,Widgets').urls).toEqual(['https://acme.com', 'https://widgets.example'])
+  })
+})
+
+describe('createBulkJobs', () => {
+  it('gives every job its own id', () => {
+    const jobs = createBulkJobs(['https://a.example', 'https://b.example'])
+
+    expect(new Set(jobs.map(job => job.id)).size).toBe(2)
+    expect(jobs.every(job => job.status === 'queued' && job.attempts === 0)).toBe(true)
+  })
+})
+
+describe('runBulkQueue', () => {
+  const options = (overrides: Partial<BulkQueueOptions>): BulkQueueOptions => ({
+    concurrency: 1,
+    analyze: vi.fn(),
+    onUpdate: vi.fn(),
+    signal: new AbortController().signal,
+    baseDelayMs: 1000,
+    ...overrides
+  })
+
+  it('retries a failing job after an exponential backoff', async () => {
+    vi.useFakeTimers()
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+    const result = analysisResult()
+    const analyze = vi.fn()
+      .mockRejectedValueOnce(new Error('Timed out'))
+      .mockRejectedValueOnce(new Error('Rate limited'))
+      .mockResolvedValueOnce(result)
+
+    const run = runBulkQueue(createBulkJobs(['https://example.com']), options({ analyze }))
+    await vi.advanceTimersByTimeAsync(999)
+    expect(analyze).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(analyze).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(analyze).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+
+    await expect(run).resolves.toMatchObject([{ status: 'done', attempts: 3, result, error: undefined }])
+  })
+
+  it('fails a job with the last error once it runs out of attempts', async () => {
+    const analyze = vi.fn(async () => {
+      throw new Error('Blocked by robots.txt')
+    })
+    const onUpdate = vi.fn()
+
+    const [job] = await runBulkQueue(createBulkJobs(['https://example.com']), options({ analyze, onUpdate, maxAttempts: 2, baseDelayMs: 0 }))
+
+    expect(job).toMatchObject({ status: 'failed', attempts: 2, error: 'Blocked by robots.txt' })
+    expect(onUpdate.mock.calls.map(([update]) => update.status)).toEqual(['running', 'retrying', 'running', 'failed'])
+  })
+
+  it('cancels a job waiting to retry', async () => {
+    vi.useFakeTimers()
+    const controller = new AbortController()
+    const analyze = vi.fn(async () => {
+      throw new Error('Timed out')
+    })
+
+    const run = runBulkQueue(createBulkJobs(['https://example.com']), options({ analyze, signal: controller.signal }))
+    await vi.advanceTimersByTimeAsync(0)
+    controller.abort()
+
+    await expect(run).resolves.toMatchObject([{ status: 'canceled', attempts: 1 }])
+    expect(analyze).toHaveBeenCalledOnce()
+  })
+})
+
+describe('sortBulkJobs', () => {
+  const job = (url: string, seo?: number): BulkJob => ({
+    id: url,
+    url,
+    status: seo === undefined ? 'failed' : 'done',
+    attempts: 1,
+    result: seo === undefined ? undefined : analysisResult({ url, seo: { ...emptyCategory('seo'), score: seo } })
+  })
+  const jobs = [job('https://b.example', 40), job('https://c.example'), job('https://a.example', 90)]
+
+  it('sorts by a score in either direction with unscored jobs last', () => {
+    expect(sortBulkJobs(jobs, { column: 'seo', direction: 'desc' }).map(item => item.url))
+      .toEqual(['https://a.example', 'https://b.example', 'https://c.example'])
+    expect(sortBulkJobs(jobs, { column: 'overall', direction: 'asc' }).map(item => item.url))
+      .toEqual(['https://b.example', 'https://a.example', 'https://c.example'])
+  })
+
+  it('sorts by URL without changing the original order', () => {
+    expect(sortBulkJobs(jobs, { column: 'url', direction: 'asc' }).map(item => item.url))
+      .toEqual(['https://a.example', 'https://b.example', 'https://c.example'])
+    expect(jobs[0].url).toBe('https://b.example')
+  })
+})
@@ -0,0 +1,184 @@
+import { mapWithConcurrency } from './concurrency'
+import { abortable } from './abort'
+import { parseCsv, toCsv } from './csv'
+import { normalizeUrl, pageKey } from './url'
+import { categoryLabel, categoryScore, resultCategoryIds } from './categories'
+import { overallScore, scoreGrade, type GradeBand } from './scoring'
+import type { AnalysisResult } from '../types/analysis'
+
+export type BulkJobStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'canceled'
+
+export interface BulkJob {
+  id: string
+  url: string
+  status: BulkJobStatus
+  attempts: number
+  result?: AnalysisResult
+  // Message of the last failed attempt
+  error?: string
+}
+
+export interface ParsedUrlList {
+  urls: string[]
+  // Entries normalizeUrl rejected, as they were written
+  invalid: string[]
+  duplicates: number
+}
+
+export interface BulkQueueOptions {
+  concurrency: number
+  analyze: (url: string, signal: AbortSignal) => Promise<AnalysisResult>
+  onUpdate: (job: BulkJob) => void
+  signal: AbortSignal
+  maxAttempts?: number
+  baseDelayMs?: number
+}
+
+// 'url', 'status', 'overall' or a category id
+export type BulkSortColumn = string
+
+export interface BulkSort {
+  column: BulkSortColumn
+  direction: 'asc' | 'desc'
+}
+
+export const MAX_BULK_URLS = 200
+export const MAX_BULK_CONCURRENCY = 5
+export const DEFAULT_BULK_CONCURRENCY = 3
+
+const DEFAULT_MAX_ATTEMPTS = 3
+const DEFAULT_BASE_DELAY_MS = 2000
+const MAX_DELAY_MS = 30000
+
+const URL_HEADER = /^(urls?|website|site|domain|link|homepage)$/i
+
+const collectUrls = (entries: string[]): ParsedUrlList => {
+  const urls: string[] = []
+  const invalid: string[] = []
+  const seen = new Set<string>()
+  let duplicates = 0
+
+  for (const entry of entries.map(value => value.trim()).filter(Boolean)) {
+    const url = normalizeUrl(entry)
+    if (!url) {
+      invalid.push(entry)
+    } else if (seen.has(pageKey(url))) {
+      duplicates++
+    } else {
+      seen.add(pageKey(url))
+      urls.push(url)
+    }
+  }
+  return { urls, invalid, duplicates }
+}
+
+// Pasted lists: one URL per line or comma-separated
+export const parseUrlText = (text: string) => collectUrls(text.split(/[\n,]/))
+
+// Spreadsheets: the column headed url/website/domain, or the first column when there is no such header
+export const parseUrlCsv = (text: string) => {
+  const rows = parseCsv(text)
+  const headerIndex = rows[0]?.findIndex(cell => URL_HEADER.test(cell.trim())) ?? -1
+  const column = Math.max(headerIndex, 0)
+  return collectUrls((headerIndex >= 0 ? rows.slice(1) : rows).map(row => row[column] ?? ''))
+}
+
+export const createBulkJobs = (urls: string[]): BulkJob[] =>
+  urls.map(url => ({ id: `job_${crypto.randomUUID()}`, url, status: 'queued', attempts: 0 }))
+
+// Exponential with jitter, so jobs that failed together don't all retry at the same moment
+const backoffDelay = (attempt: number, baseDelayMs: number) =>
+  Math.min(MAX_DELAY_MS, baseDelayMs * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2)
+
+// Resolves with the final state of every job once the queue drains or is canceled
+export const runBulkQueue = (
+  jobs: BulkJob[],
+  {
+    concurrency,
+    analyze,
+    onUpdate,
+    signal,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS
+  }: BulkQueueOptions
+) => mapWithConcurrency(jobs, concurrency, async (job): Promise<BulkJob> => {
+  let current = job
+  const update = (patch: Partial<BulkJob>) => {
+    current = { ...current, ...patch }
+    onUpdate(current)
+    return current
+  }
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (signal.aborted) return update({ status: 'canceled' })
+    update({ status: 'running', attempts: attempt })
+
+    try {
+      const result = await analyze(job.url, signal)
+      return update({ status: 'done', result, error: undefined })
+    } catch (error) {
+      if (signal.aborted) return update({ status: 'canceled' })
+      const message = error instanceof Error ? error.message : 'Analysis failed'
+      if (attempt === maxAttempts) return update({ status: 'failed', error: message })
+
+      update({ status: 'retrying', error: message })
+      await abortable(new Promise(resolve => setTimeout(resolve, backoffDelay(attempt, baseDelayMs))), signal)
+        .catch(() => undefined)
+    }
+  }
+  return current
+})
+
+// Categories across every finished job, in the order they first appear
+export const bulkCategoryColumns = (jobs: BulkJob[]) => {
+  const columns = new Map<string, string>()
+  for (const { result } of jobs) {
+    if (!result) continue
+    for (const id of resultCategoryIds(result)) {
+      if (!columns.has(id)) columns.set(id, categoryLabel(result, id))
+    }
+  }
+  return [...columns].map(([id, label]) => ({ id, label }))
+}
+
+export const bulkJobScore = (job: BulkJob, column: BulkSortColumn) => {
+  if (!job.result) return undefined
+  if (column === 'overall') return overallScore(job.result)
+  return resultCategoryIds(job.result).includes(column) ? categoryScore(job.result, column) : undefined
+}
+
+// Jobs without a score for the column always sort last
+export const sortBulkJobs = (jobs: BulkJob[], { column, direction }: BulkSort) => {
+  const sign = direction === 'asc' ? 1 : -1
+  return [...jobs].sort((a, b) => {
+    if (column === 'url' || column === 'status') return sign * a[column].localeCompare(b[column])
+
+    const scoreA = bulkJobScore(a, column)
+    const scoreB = bulkJobScore(b, column)
+    if (scoreA === undefined || scoreB === undefined) {
+      return (scoreA === undefined ? 1 : 0) - (scoreB === undefined ? 1 : 0)
+    }
+    return sign * (scoreA - scoreB)
+  })
+}
+
+export const bulkResultsCsv = (jobs: BulkJob[], grades: GradeBand[]) => {
+  const columns = bulkCategoryColumns(jobs)
+  const rows = jobs.map(job => {
+    const overall = bulkJobScore(job, 'overall')
+    return [
+      job.url,
+      job.status,
+      overall,
+      overall === undefined ? '' : scoreGrade(overall, grades),
+      ...columns.map(column => bulkJobScore(job, column.id)),
+      job.attempts,
+      job.status === 'done' ? '' : job.error,
+      job.result?.id
+    ]
+  })
+  return toCsv([
+    ['url', 'status', 'overall', 'grade', ...columns.map(column => column.label), 'attempts', 'error', 'analysis_id'],
+    ...rows
+  ])
+}
@@ -0,0 +1,72 @@
+import type { AnalysisResult, CategoryKey } from '../types/analysis'
+
+export const CATEGORY_KEYS: CategoryKey[] = ['performance', 'seo', 'accessibility', 'design', 'ux']
+
+export const CATEGORY_LABELS: Record<CategoryKey, string> = {
+  performance: 'Performance',
+  seo: 'SEO',
+  accessibility: 'Accessibility',
+  design: 'Design',
+  ux: 'User Experience'
+}
+
+export const analyzedCategories = (result: AnalysisResult) =>
+  CATEGORY_KEYS.filter(key =>
+    (!result.settings || result.settings.categories.includes(key)) && !result.failedCategories?.includes(key)
+  )
+
+// Placeholder for a category that was switched off, so the result keeps its shape without affecting rollups
+export const emptyCategory = <K extends CategoryKey>(key: K): Pick<AnalysisResult, CategoryKey>[K] => {
+  const sections: Pick<AnalysisResult, CategoryKey> = {
+    performance: { score: 0, metrics: { loadTime: 0, firstContentfulPaint: 0, largestContentfulPaint: 0, cumulativeLayoutShift: 0 }, recommendations: [] },
+    seo: { score: 0, issues: [], recommendations: [] },
+    accessibility: { score: 0, violations: [], recommendations: [] },
+    design: { score: 0, analysis: { colorContrast: 0, typography: 0, layout: 0, responsiveness: 0 }, recommendations: [] },
+    ux: { score: 0, metrics: { navigationClarity: 0, contentReadability: 0, mobileUsability: 0, interactionDesign: 0 }, recommendations: [] }
+  }
+  return sections[key]
+}
+
+export const isBuiltInCategory = (id: string): id is CategoryKey => (CATEGORY_KEYS as string[]).includes(id)
+
+// Built-in categories the run covered, followed by its custom categories
+export const resultCategoryIds = (result: AnalysisResult) => [
+  ...analyzedCategories(result),
+  ...Object.keys(result.custom ?? {})
+]
+
+export const categoryScore = (result: AnalysisResult, id: string) =>
+  isBuiltInCategory(id) ? result[id].score : result.custom?.[id]?.score ?? 0
+
+// Sub-metric values by key; SEO and accessibility are scored from their audits and have none
+export const subMetricValues = (result: AnalysisResult, id: string): Record<string, number | undefined> => {
+  switch (id) {
+    case 'performance':
+      return { ...result.performance.metrics }
+    case 'design':
+      return { ...result.design.analysis }
+    case 'ux':
+      return { ...result.ux.metrics }
+    case 'seo':
+    case 'accessibility':
+      return {}
+    default:
+      return { ...result.custom?.[id]?.metrics }
+  }
+}
+
+// Score per category the run covered, so switched-off and failed categories don't count as zeros
+export const analyzedScores = (result: AnalysisResult): Record<string, number> =>
+  Object.fromEntries(resultCategoryIds(result).map(id => [id, categoryScore(result, id)]))
+
+export const categoryLabel = (result: AnalysisResult, id: string) =>
+  isBuiltInCategory(id) ? CATEGORY_LABELS[id] : result.custom?.[id]?.label ?? id
+
+export const categoryRecommendations = (result: AnalysisResult, id: string) =>
+  isBuiltInCategory(id) ? result[id].recommendations : result.custom?.[id]?.recommendations ?? []
+
+// Score and label per analyzed category, stored alongside each analysis for server-side stats
+export type ScoreSummary = Record<string, { label: string; score: number }>
+
+export const scoreSummary = (result: AnalysisResult): ScoreSummary =>
+  Object.fromEntries(resultCategoryIds(result).map(id => [id, { label: categoryLabel(result, id), score: categoryScore(result, id) }]))
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { deleteCustomCategory, resultCategoryDefinitions } from './category-registry'
+import { analysisResult, analysisSettings } from '../test/fixtures'
+import { blink } from '../test/blink'
+import type { CustomCategoryResult } from '../types/analysis'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+const tables = {
+  analysisPresets: { list: vi.fn(), upsert: vi.fn() },
+  customCategories: { delete: vi.fn() }
+}
+
+const preset = (id: string, categories: string[]) => ({
+  id,
+  userId: 'workspace_1',
+  name: `Preset ${id}`,
+  settings: JSON.stringify(analysisSettings(categories)),
+  createdAt: '2025-01-01T00:00:00.000Z'
+})
+
+beforeEach(() => {
+  vi.resetAllMocks()
+  blink.db.table.mockImplementation((name: keyof typeof tables) => tables[name])
+})
+
+describe('resultCategoryDefinitions', () => {
+  it('leaves out a custom category whose stored copy is missing', () => {
+    const trust: CustomCategoryResult = { label: 'Trust', icon: 'Shield', subMetrics: [], score: 70, metrics: {}, recommendations: [] }
+    const result = analysisResult({
+      settings: analysisSettings(['seo']),
+      custom: { trust, broken: null as unknown as CustomCategoryResult }
+    })
+
+    expect(resultCategoryDefinitions(result).map(category => category.id)).toEqual(['seo', 'trust'])
+  })
+})
+
+describe('deleteCustomCategory', () => {
+  it('removes the category from the presets that analyze it', async () => {
+    tables.analysisPresets.list.mockResolvedValue([preset('1', ['seo', 'category_1']), preset('2', ['ux'])])
+
+    await deleteCustomCategory('category_1', 'workspace_1')
+
+    expect(tables.analysisPresets.upsert).toHaveBeenCalledOnce()
+    expect(JSON.parse(tables.analysisPresets.upsert.mock.calls[0][0].settings).categories).toEqual(['seo'])
+    expect(tables.customCategories.delete).toHaveBeenCalledWith('category_1')
+  })
+
+  it('keeps the category while a preset analyzes nothing else', async () => {
+    tables.analysisPresets.list.mockResolvedValue([preset('1', ['seo', 'category_1']), preset('2', ['category_1'])])
+
+    await expect(deleteCustomCategory('category_1', 'workspace_1'))
+      .rejects.toThrow('Preset "Preset 2" only analyzes this category; change or delete it first')
+    expect(tables.analysisPresets.upsert).not.toHaveBeenCalled()
+    expect(tables.customCategories.delete).not.toHaveBeenCalled()
+  })
+})
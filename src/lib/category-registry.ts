@@ -0,0 +1,206 @@
+import { blink } from './blink'
+import { CATEGORY_LABELS, isBuiltInCategory, resultCategoryIds } from './categories'
+import { listPresets, savePreset } from './analysis-settings'
+import type { AnalysisResult, SubMetricDefinition } from '../types/analysis'
+
+export interface CategoryDefinition {
+  id: string
+  label: string
+  shortLabel: string
+  // One of CATEGORY_ICON_NAMES
+  icon: string
+  color: string
+  builtIn: boolean
+  // Scoring guidance sent to the model; built-in categories are covered by the main prompt
+  rubric: string
+  subMetrics: SubMetricDefinition[]
+  // Set on stored custom categories
+  createdAt?: string
+}
+
+interface CustomCategoryRecord {
+  id: string
+  userId: string
+  label: string
+  icon: string
+  rubric: string
+  subMetrics: string
+  createdAt: string
+}
+
+export const CUSTOM_CATEGORY_COLOR = 'text-primary'
+
+// Icons a category can be given, by lucide name
+export const CATEGORY_ICON_NAMES = [
+  'Zap',
+  'TrendingUp',
+  'Shield',
+  'Palette',
+  'Users',
+  'Gauge',
+  'Star',
+  'Heart',
+  'Target',
+  'Lock',
+  'Globe',
+  'ShoppingCart',
+  'MessageSquare',
+  'FileText',
+  'Award',
+  'Leaf',
+  'Scale'
+]
+
+export const BUILT_IN_CATEGORIES: CategoryDefinition[] = [
+  {
+    id: 'performance',
+    label: CATEGORY_LABELS.performance,
+    shortLabel: 'Performance',
+    icon: 'Zap',
+    color: 'text-orange-500',
+    builtIn: true,
+    rubric: '',
+    subMetrics: [
+      { key: 'loadTime', label: 'Load Time', unit: 's', lowerIsBetter: true },
+      { key: 'firstContentfulPaint', label: 'First Contentful Paint', unit: 's', lowerIsBetter: true },
+      { key: 'largestContentfulPaint', label: 'Largest Contentful Paint', unit: 's', lowerIsBetter: true },
+      { key: 'cumulativeLayoutShift', label: 'Cumulative Layout Shift', unit: '', lowerIsBetter: true },
+      { key: 'totalBlockingTime', label: 'Total Blocking Time', unit: 'ms', lowerIsBetter: true, measuredOnly: true },
+      { key: 'timeToFirstByte', label: 'Time to First Byte', unit: 'ms', lowerIsBetter: true, measuredOnly: true },
+      { key: 'interactionToNextPaint', label: 'Interaction to Next Paint', unit: 'ms', lowerIsBetter: true, measuredOnly: true }
+    ]
+  },
+  {
+    id: 'seo',
+    label: CATEGORY_LABELS.seo,
+    shortLabel: 'SEO',
+    icon: 'TrendingUp',
+    color: 'text-blue-500',
+    builtIn: true,
+    rubric: '',
+    subMetrics: []
+  },
+  {
+    id: 'accessibility',
+    label: CATEGORY_LABELS.accessibility,
+    shortLabel: 'Accessibility',
+    icon: 'Shield',
+    color: 'text-green-500',
+    builtIn: true,
+    rubric: '',
+    subMetrics: []
+  },
+  {
+    id: 'design',
+    label: CATEGORY_LABELS.design,
+    shortLabel: 'Design',
+    icon: 'Palette',
+    color: 'text-purple-500',
+    builtIn: true,
+    rubric: '',
+    subMetrics: [
+      { key: 'colorContrast', label: 'Color Contrast' },
+      { key: 'typography', label: 'Typography' },
+      { key: 'layout', label: 'Layout' },
+      { key: 'responsiveness', label: 'Responsiveness' }
+    ]
+  },
+  {
+    id: 'ux',
+    label: CATEGORY_LABELS.ux,
+    shortLabel: 'UX',
+    icon: 'Users',
+    color: 'text-pink-500',
+    builtIn: true,
+    rubric: '',
+    subMetrics: [
+      { key: 'navigationClarity', label: 'Navigation' },
+      { key: 'contentReadability', label: 'Readability' },
+      { key: 'mobileUsability', label: 'Mobile' },
+      { key: 'interactionDesign', label: 'Interaction' }
+    ]
+  }
+]
+
+export const builtInCategory = (id: string) => BUILT_IN_CATEGORIES.find(category => category.id === id)!
+
+// Sub-metrics the model scores or estimates
+export const estimatedSubMetrics = (category: CategoryDefinition) =>
+  category.subMetrics.filter(subMetric => !subMetric.measuredOnly)
+
+export const formatSubMetric = (subMetric: SubMetricDefinition, value: number) => `${value}${subMetric.unit ?? '/100'}`
+
+// "Trust signals" -> "trustSignals", so sub-metric keys are valid schema property names
+export const subMetricKey = (label: string) =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+(.)?/g, (_match, next: string | undefined) => next?.toUpperCase() ?? '')
+
+// Definitions for every category a result covers; custom ones come from the copy stored on the result,
+// and are left out when that copy is missing
+export const resultCategoryDefinitions = (result: AnalysisResult): CategoryDefinition[] =>
+  resultCategoryIds(result).flatMap(id => {
+    if (isBuiltInCategory(id)) return [builtInCategory(id)]
+
+    const custom = result.custom?.[id]
+    if (!custom) return []
+    return [{
+      id,
+      label: custom.label,
+      shortLabel: custom.label,
+      icon: custom.icon,
+      color: CUSTOM_CATEGORY_COLOR,
+      builtIn: false,
+      rubric: '',
+      subMetrics: custom.subMetrics
+    }]
+  })
+
+const customCategoriesTable = () => blink.db.table<CustomCategoryRecord>('customCategories')
+
+const parseCustomCategory = (record: CustomCategoryRecord): CategoryDefinition => ({
+  id: record.id,
+  label: record.label,
+  shortLabel: record.label,
+  icon: record.icon,
+  color: CUSTOM_CATEGORY_COLOR,
+  builtIn: false,
+  rubric: record.rubric,
+  subMetrics: JSON.parse(record.subMetrics || '[]'),
+  createdAt: record.createdAt
+})
+
+export const listCustomCategories = async (workspaceId: string) => {
+  const records = await customCategoriesTable().list({
+    where: { userId: workspaceId },
+    orderBy: { createdAt: 'asc' }
+  })
+  return records.map(parseCustomCategory)
+}
+
+export const saveCustomCategory = async (category: CategoryDefinition, workspaceId: string) => {
+  await customCategoriesTable().upsert({
+    id: category.id,
+    userId: workspaceId,
+    label: category.label,
+    icon: category.icon,
+    rubric: category.rubric,
+    subMetrics: JSON.stringify(category.subMetrics),
+    createdAt: category.createdAt ?? new Date().toISOString()
+  })
+}
+
+// Saved presets stop analyzing the category. A preset that analyzes nothing else would run an empty
+// analysis, so the category stays until that preset is changed.
+export const deleteCustomCategory = async (id: string, workspaceId: string) => {
+  const presets = (await listPresets(workspaceId)).filter(preset => preset.settings.categories.includes(id))
+  const emptied = presets.find(preset => preset.settings.categories.length === 1)
+  if (emptied) throw new Error(`Preset "${emptied.name}" only analyzes this category; change or delete it first`)
+
+  await Promise.all(presets.map(preset => savePreset({
+    ...preset,
+    settings: { ...preset.settings, categories: preset.settings.categories.filter(category => category !== id) }
+  }, workspaceId)))
+  await customCategoriesTable().delete(id)
+}
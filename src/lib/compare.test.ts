@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest'
+import { compareAnalyses } from './compare'
+import { emptyCategory } from './categories'
+import { analysisResult, analysisSettings } from '../test/fixtures'
+import type { AnalysisResult, CustomCategoryResult } from '../types/analysis'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+const trust = (score: number, proof: number): CustomCategoryResult => ({
+  label: 'Trust',
+  icon: 'Shield',
+  subMetrics: [{ key: 'socialProof', label: 'Social Proof' }],
+  score,
+  metrics: { socialProof: proof },
+  recommendations: [`Trust at ${score}`]
+})
+
+const result = (overrides: Partial<AnalysisResult>) =>
+  analysisResult({ settings: analysisSettings(['performance', 'ux']), ...overrides })
+
+describe('compareAnalyses', () => {
+  it('compares custom categories both runs analyzed', () => {
+    const comparison = compareAnalyses(
+      result({ custom: { trust: trust(40, 30) } }),
+      result({ custom: { trust: trust(60, 50) } })
+    )
+    const trustComparison = comparison.find(entry => entry.category === 'trust')
+
+    expect(comparison.map(entry => entry.category)).toEqual(['performance', 'ux', 'trust'])
+    expect(trustComparison?.label).toBe('Trust')
+    expect(trustComparison?.score).toMatchObject({ delta: 20, trend: 'better' })
+    expect(trustComparison?.subMetrics).toEqual([
+      { key: 'socialProof', label: 'Social Proof', before: 30, after: 50, delta: 20, trend: 'better' }
+    ])
+    expect(trustComparison?.findings.map(finding => finding.status)).toEqual(['new', 'resolved'])
+  })
+
+  it('treats falling timings as improvements and skips metrics only one run measured', () => {
+    const before = result({
+      performance: { ...emptyCategory('performance'), metrics: { ...emptyCategory('performance').metrics, loadTime: 4, totalBlockingTime: 300 } }
+    })
+    const after = result({
+      performance: { ...emptyCategory('performance'), metrics: { ...emptyCategory('performance').metrics, loadTime: 2.5 } }
+    })
+    const [performance] = compareAnalyses(before, after)
+
+    expect(performance.subMetrics.find(value => value.key === 'loadTime')).toMatchObject({
+      label: 'Load Time (s)',
+      delta: -1.5,
+      trend: 'better'
+    })
+    expect(performance.subMetrics.some(value => value.key === 'totalBlockingTime')).toBe(false)
+  })
+
+  it('leaves out categories only one run analyzed', () => {
+    const comparison = compareAnalyses(result({ custom: { trust: trust(40, 30) } }), result({}))
+
+    expect(comparison.map(entry => entry.category)).toEqual(['performance', 'ux'])
+  })
+})
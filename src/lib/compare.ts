@@ -0,0 +1,125 @@
+import { categoryRecommendations, categoryScore, resultCategoryIds, subMetricValues } from './categories'
+import { resultCategoryDefinitions } from './category-registry'
+import type { AnalysisResult, SubMetricDefinition } from '../types/analysis'
+
+export type FindingStatus = 'new' | 'resolved' | 'unchanged'
+
+export interface ValueDelta {
+  key: string
+  label: string
+  before: number
+  after: number
+  delta: number
+  trend: 'better' | 'worse' | 'same'
+}
+
+export interface FindingDiff {
+  status: FindingStatus
+  kind: 'issue' | 'violation' | 'recommendation'
+  text: string
+}
+
+export interface CategoryComparison {
+  category: string
+  label: string
+  score: ValueDelta
+  subMetrics: ValueDelta[]
+  findings: FindingDiff[]
+}
+
+interface Finding {
+  key: string
+  kind: FindingDiff['kind']
+  text: string
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000
+
+const toDelta = (key: string, label: string, before: number, after: number, lowerIsBetter = false): ValueDelta => {
+  const delta = round(after - before)
+  const improved = lowerIsBetter ? delta < 0 : delta > 0
+  return {
+    key,
+    label,
+    before,
+    after,
+    delta,
+    trend: delta === 0 ? 'same' : improved ? 'better' : 'worse'
+  }
+}
+
+// Recommendations are prose, so they are matched on normalized text rather than identity
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+
+const findingsOf = (analysis: AnalysisResult, category: string): Finding[] => {
+  const recommendations: Finding[] = categoryRecommendations(analysis, category).map(text => ({
+    key: `recommendation:${normalizeText(text)}`,
+    kind: 'recommendation',
+    text
+  }))
+
+  if (category === 'seo') {
+    return [
+      ...analysis.seo.issues.map((issue): Finding => ({
+        key: `issue:${issue.ruleId ?? normalizeText(issue.message)}`,
+        kind: 'issue',
+        text: issue.message
+      })),
+      ...recommendations
+    ]
+  }
+  if (category === 'accessibility') {
+    return [
+      ...analysis.accessibility.violations.map((violation): Finding => ({
+        key: `violation:${violation.ruleId ?? normalizeText(violation.description)}:${violation.selector ?? violation.element}`,
+        kind: 'violation',
+        text: `${violation.description} (${violation.selector ?? violation.element})`
+      })),
+      ...recommendations
+    ]
+  }
+  return recommendations
+}
+
+const diffFindings = (before: Finding[], after: Finding[]): FindingDiff[] => {
+  const beforeKeys = new Set(before.map(finding => finding.key))
+  const afterKeys = new Set(after.map(finding => finding.key))
+
+  return [
+    ...after
+      .filter(finding => !beforeKeys.has(finding.key))
+      .map(({ kind, text }): FindingDiff => ({ status: 'new', kind, text })),
+    ...before
+      .filter(finding => !afterKeys.has(finding.key))
+      .map(({ kind, text }): FindingDiff => ({ status: 'resolved', kind, text })),
+    ...after
+      .filter(finding => beforeKeys.has(finding.key))
+      .map(({ kind, text }): FindingDiff => ({ status: 'unchanged', kind, text }))
+  ]
+}
+
+// Measurements carry their unit in the row label; scores are out of 100
+const subMetricLabel = ({ label, unit }: SubMetricDefinition) => unit ? `${label} (${unit})` : label
+
+// "before" is the baseline (older run or the client site), "after" the one being judged against it.
+// Only categories both runs analyzed are compared, custom ones included; sub-metrics come from the registry.
+export const compareAnalyses = (before: AnalysisResult, after: AnalysisResult): CategoryComparison[] =>
+  resultCategoryDefinitions(after)
+    .filter(({ id }) => resultCategoryIds(before).includes(id))
+    .map(({ id, label, subMetrics: definitions }) => {
+      const beforeMetrics = subMetricValues(before, id)
+      const afterMetrics = subMetricValues(after, id)
+      const subMetrics = definitions
+        .filter(({ key }) => typeof beforeMetrics[key] === 'number' && typeof afterMetrics[key] === 'number')
+        .map(subMetric =>
+          toDelta(subMetric.key, subMetricLabel(subMetric), beforeMetrics[subMetric.key]!, afterMetrics[subMetric.key]!, subMetric.lowerIsBetter)
+        )
+
+      return {
+        category: id,
+        label,
+        score: toDelta('score', 'Score', categoryScore(before, id), categoryScore(after, id)),
+        subMetrics,
+        findings: diffFindings(findingsOf(before, id), findingsOf(after, id))
+      }
+    })
@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { crawlSite, isAllowed, parseRobots, parseSitemap } from './crawler'
+import { runAnalysis } from './analyzer'
+import { analysisResult } from '../test/fixtures'
+import { blink } from '../test/blink'
+
+vi.mock('./blink', () => import('../test/blink'))
+vi.mock('./analyzer', () => ({ runAnalysis: vi.fn() }))
+
+const ROBOTS = `
+User-agent: Googlebot
+Disallow: /
+
+User-agent: *
+Disallow: /admin # staff only
+Allow: /admin/public
+Disallow:
+
+Sitemap: https://example.com/sitemap-index.xml
+`
+
+const sitemapIndex = (...locs: string[]) =>
+  `<?xml version="1.0"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${
+    locs.map(loc => `<sitemap><loc>${loc}</loc></sitemap>`).join('')
+  }</sitemapindex>`
+
+const urlset = (...locs: string[]) =>
+  `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${
+    locs.map(loc => `<url><loc>\n  ${loc}\n</loc></url>`).join('')
+  }</urlset>`
+
+describe('parseRobots', () => {
+  it('reads the rules of the "User-agent: *" group and every sitemap', () => {
+    expect(parseRobots(ROBOTS)).toEqual({
+      allow: ['/admin/public'],
+      disallow: ['/admin'],
+      sitemaps: ['https://example.com/sitemap-index.xml']
+    })
+  })
+})
+
+describe('isAllowed', () => {
+  const rules = parseRobots(ROBOTS)
+
+  it.each([
+    ['https://example.com/blog', true],
+    ['https://example.com/admin/users', false],
+    ['https://example.com/admin/public/page', true]
+  ])('lets the longest matching rule decide %s', (url, allowed) => {
+    expect(isAllowed(url, rules)).toBe(allowed)
+  })
+
+  it('prefers Allow when an Allow and a Disallow rule are equally long', () => {
+    expect(isAllowed('https://example.com/shop', { allow: ['/shop'], disallow: ['/shop'], sitemaps: [] })).toBe(true)
+  })
+})
+
+describe('parseSitemap', () => {
+  it('separates page URLs from nested sitemaps', () => {
+    expect(parseSitemap(urlset('https://example.com/a', 'https://example.com/b'))).toEqual({
+      pages: ['https://example.com/a', 'https://example.com/b'],
+      sitemaps: []
+    })
+    expect(parseSitemap(sitemapIndex('https://example.com/pages.xml'))).toEqual({
+      pages: [],
+      sitemaps: ['https://example.com/pages.xml']
+    })
+  })
+
+  it('finds nothing in a response that is not XML', () => {
+    expect(parseSitemap('<html><body>Not found</body>')).toEqual({ pages: [], sitemaps: [] })
+  })
+})
+
+describe('crawlSite', () => {
+  const responses: Record<string, string> = {
+    'https://example.com/robots.txt': ROBOTS,
+    'https://example.com/sitemap-index.xml': sitemapIndex('https://example.com/pages.xml'),
+    'https://example.com/pages.xml': urlset('https://example.com/pricing', 'https://example.com/admin/users')
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.mocked(runAnalysis).mockImplementation(async url => analysisResult({ id: url, url }))
+  })
+
+  it('crawls the sitemap pages robots.txt allows', async () => {
+    blink.data.fetch.mockImplementation(async ({ url }: { url: string }) => ({ status: 200, body: responses[url] ?? '' }))
+
+    const { pages } = await crawlSite('https://example.com/', { maxPages: 10, maxDepth: 1 })
+
+    expect(pages.map(page => page.url)).toEqual(['https://example.com/', 'https://example.com/pricing'])
+  })
+
+  it('stops waiting for robots.txt when the crawl is canceled', async () => {
+    blink.data.fetch.mockReturnValue(new Promise(() => {}))
+    const controller = new AbortController()
+
+    const crawl = crawlSite('https://example.com/', { maxPages: 10, maxDepth: 1, signal: controller.signal })
+    controller.abort(new Error('Canceled'))
+
+    await expect(crawl).rejects.toThrow('Canceled')
+    expect(runAnalysis).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,347 @@
+import { blink } from './blink'
+import { runAnalysis } from './analyzer'
+import { CATEGORY_KEYS, analyzedCategories, analyzedScores, emptyCategory } from './categories'
+import { pageKey } from './url'
+import { abortable } from './abort'
+import type { AnalysisCacheOptions } from './analysis-cache'
+import type { CategoryDefinition } from './category-registry'
+import type { ScoringConfig } from './scoring'
+import type {
+  AnalysisResult,
+  AnalysisSettings,
+  CategoryKey,
+  CustomCategoryResult,
+  SiteIssue,
+  SitePageSummary,
+  SiteReport
+} from '../types/analysis'
+
+export interface CrawlOptions {
+  maxPages: number
+  maxDepth: number
+  respectRobots?: boolean
+  settings?: AnalysisSettings
+  customCategories?: CategoryDefinition[]
+  scoring?: ScoringConfig
+  cache?: AnalysisCacheOptions
+  signal?: AbortSignal
+  onPageStart?: (url: string, index: number, total: number) => void
+}
+
+export interface CrawlResult {
+  site: AnalysisResult
+  pages: AnalysisResult[]
+}
+
+interface RobotsRules {
+  allow: string[]
+  disallow: string[]
+  sitemaps: string[]
+}
+
+const MAX_SITEMAPS = 5
+const WORST_PAGES_PER_CATEGORY = 3
+// Some servers refuse HEAD requests outright; those pages are checked again with a GET
+const HEAD_REJECTED_STATUSES = [403, 405, 501]
+
+// Resolves to null when the page can't be reached at all
+const fetchStatus = async (url: string, signal?: AbortSignal) => {
+  const request = (method: 'HEAD' | 'GET') =>
+    abortable(blink.data.fetch({ url, method }), signal).then(response => response.status, error => {
+      if (signal?.aborted) throw error
+      return null
+    })
+
+  const status = await request('HEAD')
+  return status !== null && !HEAD_REJECTED_STATUSES.includes(status) ? status : request('GET')
+}
+
+// Resolves to '' when the file is missing or can't be fetched
+const fetchText = async (url: string, signal?: AbortSignal) => {
+  try {
+    const response = await abortable(blink.data.fetch({ url, method: 'GET' }), signal)
+    return response.status < 400 && typeof response.body === 'string' ? response.body : ''
+  } catch (error) {
+    if (signal?.aborted) throw error
+    return ''
+  }
+}
+
+// Only the "User-agent: *" group applies to us
+export const parseRobots = (text: string): RobotsRules => {
+  const rules: RobotsRules = { allow: [], disallow: [], sitemaps: [] }
+  let appliesToUs = false
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+    const field = line.substring(0, separator).trim().toLowerCase()
+    const value = line.substring(separator + 1).trim()
+
+    if (field === 'user-agent') appliesToUs = value === '*'
+    else if (field === 'sitemap') rules.sitemaps.push(value)
+    else if (appliesToUs && field === 'allow' && value) rules.allow.push(value)
+    else if (appliesToUs && field === 'disallow' && value) rules.disallow.push(value)
+  }
+
+  return rules
+}
+
+// Longest matching prefix wins; ties go to Allow, as in Google's implementation
+export const isAllowed = (url: string, rules: RobotsRules) => {
+  const { pathname, search } = new URL(url)
+  const path = pathname + search
+  const longestMatch = (prefixes: string[]) =>
+    Math.max(-1, ...prefixes.filter(prefix => path.startsWith(prefix)).map(prefix => prefix.length))
+  return longestMatch(rules.allow) >= longestMatch(rules.disallow)
+}
+
+export const parseSitemap = (xml: string) => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  const locs = (selector: string) =>
+    Array.from(doc.querySelectorAll(selector)).map(loc => loc.textContent?.trim() ?? '').filter(Boolean)
+  return {
+    pages: locs('url > loc'),
+    sitemaps: locs('sitemap > loc')
+  }
+}
+
+const discoverSitemapPages = async (origin: string, declared: string[], signal?: AbortSignal) => {
+  const pending = declared.length > 0 ? [...declared] : [`${origin}/sitemap.xml`]
+  const pages: string[] = []
+  let fetched = 0
+
+  while (pending.length > 0 && fetched < MAX_SITEMAPS) {
+    const sitemap = parseSitemap(await fetchText(pending.shift()!, signal))
+    fetched++
+    pages.push(...sitemap.pages)
+    pending.push(...sitemap.sitemaps)
+  }
+
+  return pages
+}
+
+const sameOriginKey = (href: string, origin: string) => {
+  try {
+    const resolved = new URL(href, origin)
+    return resolved.origin === origin && resolved.protocol.startsWith('http') ? pageKey(resolved.toString()) : null
+  } catch {
+    return null
+  }
+}
+
+const meanOf = (values: number[]) =>
+  values.length > 0 ? values.reduce((acc, value) => acc + value, 0) / values.length : 0
+
+const averageOf = (values: number[]) => Math.round(meanOf(values))
+
+// Averages every numeric field across the given sub-metric objects, keeping CLS-level precision
+const averageRecord = <T extends object>(records: T[]): T => {
+  const keys = records.length > 0 ? Object.keys(records[0]) as Array<keyof T> : []
+  return Object.fromEntries(keys.map(key => [
+    key,
+    Math.round(meanOf(records.map(record => record[key]).filter((value): value is T[keyof T] & number => typeof value === 'number')) * 1000) / 1000
+  ])) as T
+}
+
+const findSitewideIssues = (
+  pages: SitePageSummary[],
+  sitemapKeys: Set<string>,
+  rootKey: string
+): SiteIssue[] => {
+  const issues: SiteIssue[] = []
+
+  const byTitle = new Map<string, string[]>()
+  for (const page of pages) {
+    if (!page.title) continue
+    byTitle.set(page.title, [...(byTitle.get(page.title) ?? []), page.url])
+  }
+  for (const [title, urls] of byTitle) {
+    if (urls.length > 1) {
+      issues.push({ type: 'duplicate-title', message: `${urls.length} pages share the title "${title}"`, urls })
+    }
+  }
+
+  const orphans = pages.filter(page => !page.error && page.url !== rootKey && sitemapKeys.has(page.url) && page.inboundLinks === 0)
+  if (orphans.length > 0) {
+    issues.push({
+      type: 'orphan-page',
+      message: `${orphans.length} sitemap page${orphans.length === 1 ? ' is' : 's are'} not linked from any crawled page`,
+      urls: orphans.map(page => page.url)
+    })
+  }
+
+  // Only crawled pages were fetched, so links to pages beyond the crawl limits aren't checked
+  for (const page of pages.filter(page => page.error && page.inboundLinks > 0)) {
+    issues.push({ type: 'broken-link', message: `Internal link target failed: ${page.error}`, urls: [page.url] })
+  }
+
+  return issues
+}
+
+// Each category is averaged over the pages that analyzed it, and marked as failed when none did
+const buildSiteResult = (rootUrl: string, results: AnalysisResult[], report: SiteReport): AnalysisResult => {
+  // Every page is analyzed with the same settings
+  const settings = results[0]?.settings
+  const sectionsOf = <K extends CategoryKey>(key: K) =>
+    results.filter(result => analyzedCategories(result).includes(key)).map(result => result[key])
+  const averaged = <K extends CategoryKey>(key: K, average: (sections: AnalysisResult[K][]) => AnalysisResult[K]) => {
+    const sections = sectionsOf(key)
+    return sections.length > 0 ? average(sections) : emptyCategory(key)
+  }
+
+  const failedCategories = CATEGORY_KEYS.filter(key =>
+    (!settings || settings.categories.includes(key)) && sectionsOf(key).length === 0
+  )
+  const customIds = [...new Set(results.flatMap(result => Object.keys(result.custom ?? {})))]
+
+  return {
+    id: `crawl_${crypto.randomUUID()}`,
+    url: rootUrl,
+    timestamp: Date.now(),
+    settings,
+    weights: results[0]?.weights,
+    siteReport: report,
+    ...(failedCategories.length > 0 && { failedCategories }),
+    performance: averaged('performance', sections => ({
+      score: averageOf(sections.map(section => section.score)),
+      metrics: averageRecord(sections.map(section => section.metrics)),
+      recommendations: []
+    })),
+    seo: averaged('seo', sections => ({ score: averageOf(sections.map(section => section.score)), issues: [], recommendations: [] })),
+    accessibility: averaged('accessibility', sections => ({
+      score: averageOf(sections.map(section => section.score)),
+      violations: [],
+      recommendations: []
+    })),
+    design: averaged('design', sections => ({
+      score: averageOf(sections.map(section => section.score)),
+      analysis: averageRecord(sections.map(section => section.analysis)),
+      recommendations: []
+    })),
+    ux: averaged('ux', sections => ({
+      score: averageOf(sections.map(section => section.score)),
+      metrics: averageRecord(sections.map(section => section.metrics)),
+      recommendations: []
+    })),
+    ...(customIds.length > 0 && {
+      custom: Object.fromEntries(customIds.map((id): [string, CustomCategoryResult] => {
+        const scored = results.flatMap(result => result.custom?.[id] ?? [])
+        return [id, {
+          ...scored[0],
+          score: averageOf(scored.map(page => page.score)),
+          metrics: averageRecord(scored.map(page => page.metrics)),
+          recommendations: []
+        }]
+      }))
+    })
+  }
+}
+
+export const crawlSite = async (
+  rootUrl: string,
+  { maxPages, maxDepth, respectRobots = true, settings, customCategories, scoring, cache, signal, onPageStart }: CrawlOptions
+): Promise<CrawlResult> => {
+  const origin = new URL(rootUrl).origin
+  const rootKey = pageKey(rootUrl)
+  const robots = parseRobots(await fetchText(`${origin}/robots.txt`, signal))
+  const canVisit = (url: string) => !respectRobots || isAllowed(url, robots)
+
+  const sitemapKeys = new Set(
+    (await discoverSitemapPages(origin, robots.sitemaps, signal))
+      .map(url => sameOriginKey(url, origin))
+      .filter((key): key is string => key !== null)
+  )
+
+  const queue: Array<{ url: string; depth: number }> = [{ url: rootKey, depth: 0 }]
+  const seen = new Set([rootKey])
+  // Sitemap pages count as one level below the root page
+  for (const key of maxDepth > 0 ? sitemapKeys : []) {
+    if (!seen.has(key) && canVisit(key)) {
+      seen.add(key)
+      queue.push({ url: key, depth: 1 })
+    }
+  }
+
+  const inbound = new Map<string, Set<string>>()
+  const pages: SitePageSummary[] = []
+  const results: AnalysisResult[] = []
+
+  while (queue.length > 0 && pages.length < maxPages) {
+    signal?.throwIfAborted()
+    const { url, depth } = queue.shift()!
+    onPageStart?.(url, pages.length, Math.min(maxPages, pages.length + queue.length + 1))
+
+    const status = await fetchStatus(url, signal)
+    if (status === null || status >= 400) {
+      pages.push({ url, title: '', depth, inboundLinks: 0, error: status === null ? 'Unreachable' : `HTTP ${status}` })
+      continue
+    }
+
+    let title = ''
+    let links: string[] = []
+    try {
+      const result = await runAnalysis(url, {
+        settings,
+        customCategories,
+        scoring,
+        cache,
+        signal,
+        onScraped: (scraped) => {
+          title = scraped.metadata.title ?? ''
+          links = (scraped.links ?? [])
+            .map(link => sameOriginKey(link.url, origin))
+            .filter((key): key is string => key !== null && key !== url)
+        }
+      })
+      results.push(result)
+      pages.push({
+        analysisId: result.id,
+        url,
+        title,
+        depth,
+        inboundLinks: 0,
+        scores: analyzedScores(result)
+      })
+    } catch (error) {
+      if (signal?.aborted) throw error
+      console.error(`Crawl analysis failed for ${url}:`, error)
+      pages.push({ url, title, depth, inboundLinks: 0, error: 'Analysis failed' })
+    }
+
+    for (const link of new Set(links)) {
+      inbound.set(link, (inbound.get(link) ?? new Set()).add(url))
+      if (depth < maxDepth && !seen.has(link) && canVisit(link)) {
+        seen.add(link)
+        queue.push({ url: link, depth: depth + 1 })
+      }
+    }
+  }
+
+  for (const page of pages) {
+    page.inboundLinks = inbound.get(page.url)?.size ?? 0
+  }
+
+  const scoredPages = pages.filter(page => page.scores)
+  const categoryIds = [...new Set(scoredPages.flatMap(page => Object.keys(page.scores!)))]
+  const worstPages = Object.fromEntries(categoryIds.map(id => [
+    id,
+    scoredPages
+      .filter(page => id in page.scores!)
+      .map(page => ({ url: page.url, score: page.scores![id] }))
+      .sort((a, b) => a.score - b.score)
+      .slice(0, WORST_PAGES_PER_CATEGORY)
+  ]))
+
+  const report: SiteReport = {
+    pages,
+    worstPages,
+    sitewideIssues: findSitewideIssues(pages, sitemapKeys, rootKey)
+  }
+
+  return {
+    site: buildSiteResult(rootUrl, results, report),
+    pages: results
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { csvCell, parseCsv, toCsv } from './csv'
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, doubled quotes and line breaks', () => {
+    const text = 'url,note\r\n"https://example.com/?a=1,2","Say ""hi""\nthen leave"\n'
+
+    expect(parseCsv(text)).toEqual([
+      ['url', 'note'],
+      ['https://example.com/?a=1,2', 'Say "hi"\nthen leave']
+    ])
+  })
+
+  it('drops blank lines and keeps empty cells', () => {
+    expect(parseCsv('a,,c\n\n , \r\nd')).toEqual([['a', '', 'c'], ['d']])
+  })
+})
+
+describe('csvCell', () => {
+  it.each(['=SUM(A1:A2)', '+1', '-1', '@cmd'])('neutralises the formula %s', value => {
+    expect(csvCell(value)).toBe(`'${value}`)
+  })
+
+  it('quotes cells with separators and leaves numbers and empty values plain', () => {
+    expect([csvCell('a, "b"'), csvCell(42), csvCell(undefined)]).toEqual(['"a, ""b"""', '42', ''])
+  })
+})
+
+describe('toCsv', () => {
+  it('writes rows parseCsv reads back', () => {
+    const rows = [['url', 'note'], ['https://example.com', 'line one\nline "two", three']]
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows)
+  })
+})
@@ -0,0 +1,49 @@
+// Quoted where needed, and leading formula characters are neutralised so spreadsheets don't evaluate them
+export const csvCell = (value: string | number | undefined) => {
+  const text = String(value ?? '').replace(/^[=+\-@]/, "'$&")
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (rows: Array<Array<string | number | undefined>>) =>
+  rows.map(row => row.map(csvCell).join(',')).join('\r\n')
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks. Blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.some(value => value.trim() !== '')) rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+  endRow()
+  return rows
+}
@@ -0,0 +1,16 @@
+import type { AnalysisResult } from '../types/analysis'
+
+export const reportFileName = (result: AnalysisResult, extension: string) =>
+  `website-analysis-${new Date(result.timestamp).toISOString().split('T')[0]}.${extension}`
+
+export const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,88 @@
+import { categoryRecommendations, categoryScore, resultCategoryIds } from './categories'
+import type { AccessibilityViolation, AnalysisResult, SeoIssue } from '../types/analysis'
+
+export type FindingPriority = 'critical' | 'high' | 'medium' | 'low'
+
+export interface Finding {
+  // Built-in category key or custom category id
+  category: string
+  kind: 'issue' | 'violation' | 'recommendation'
+  priority: FindingPriority
+  text: string
+  ruleId?: string
+  selector?: string
+  help?: string
+  // Source severity and impact as reported by the audits, kept for exports
+  severity?: AccessibilityViolation['severity'] | SeoIssue['type']
+  impact?: SeoIssue['impact']
+  wcag?: string[]
+}
+
+export const PRIORITY_ORDER: FindingPriority[] = ['critical', 'high', 'medium', 'low']
+
+const VIOLATION_PRIORITY: Record<AccessibilityViolation['severity'], FindingPriority> = {
+  critical: 'critical',
+  serious: 'high',
+  moderate: 'medium',
+  minor: 'low'
+}
+
+const ISSUE_PRIORITY: Record<SeoIssue['impact'], FindingPriority> = {
+  high: 'high',
+  medium: 'medium',
+  low: 'low'
+}
+
+// Free-text recommendations carry no severity, so they inherit urgency from how weak their category is
+const recommendationPriority = (score: number): FindingPriority => {
+  if (score < 60) return 'high'
+  if (score < 80) return 'medium'
+  return 'low'
+}
+
+export const collectFindings = (result: AnalysisResult): Finding[] =>
+  resultCategoryIds(result).flatMap(category => {
+    const findings: Finding[] = []
+
+    if (category === 'seo') {
+      findings.push(...result.seo.issues
+        .filter(issue => issue.type !== 'info')
+        .map((issue): Finding => ({
+          category,
+          kind: 'issue',
+          priority: ISSUE_PRIORITY[issue.impact],
+          text: issue.message,
+          ruleId: issue.ruleId,
+          severity: issue.type,
+          impact: issue.impact
+        })))
+    }
+    if (category === 'accessibility') {
+      findings.push(...result.accessibility.violations.map((violation): Finding => ({
+        category,
+        kind: 'violation',
+        priority: VIOLATION_PRIORITY[violation.severity],
+        text: violation.description,
+        ruleId: violation.ruleId,
+        selector: violation.selector ?? violation.element,
+        help: violation.help,
+        severity: violation.severity,
+        wcag: violation.wcag
+      })))
+    }
+
+    findings.push(...categoryRecommendations(result, category).map((text): Finding => ({
+      category,
+      kind: 'recommendation',
+      priority: recommendationPriority(categoryScore(result, category)),
+      text
+    })))
+    return findings
+  })
+
+// Most urgent first; ties go to the weaker category
+export const prioritizeFindings = (result: AnalysisResult, findings = collectFindings(result)) =>
+  [...findings].sort((a, b) =>
+    PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority) ||
+    categoryScore(result, a.category) - categoryScore(result, b.category)
+  )
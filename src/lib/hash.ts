@@ -0,0 +1,14 @@
+const encode = (text: string) => new TextEncoder().encode(text)
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('')
+
+// Hex-encoded SHA-256 digest
+export const sha256 = async (text: string) => toHex(await crypto.subtle.digest('SHA-256', encode(text)))
+
+// Hex-encoded PBKDF2-SHA-256 key; slow on purpose, for hashing passwords
+export const pbkdf2 = async (password: string, salt: string, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: encode(salt), iterations }, key, 256)
+  return toHex(bits)
+}
@@ -0,0 +1,31 @@
+const SNIPPET_MAX_LENGTH = 160
+
+export const parseHtml = (html: string) => new DOMParser().parseFromString(html, 'text/html')
+
+export const snippetOf = (element: Element | null) => {
+  if (!element) return undefined
+  const html = element.outerHTML.replace(/\s+/g, ' ').trim()
+  return html.length > SNIPPET_MAX_LENGTH ? `${html.substring(0, SNIPPET_MAX_LENGTH)}…` : html
+}
+
+export const selectorOf = (element: Element): string => {
+  const parts: string[] = []
+  let current: Element | null = element
+
+  while (current && current.tagName.toLowerCase() !== 'html') {
+    const id = current.getAttribute('id')
+    if (id && /^[A-Za-z][\w-]*$/.test(id) && current.ownerDocument.querySelectorAll(`#${id}`).length === 1) {
+      parts.unshift(`#${id}`)
+      break
+    }
+
+    const tag = current.tagName.toLowerCase()
+    const parent: Element | null = current.parentElement
+    const siblings = parent ? Array.from(parent.children).filter(child => child.tagName === current!.tagName) : []
+    parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(current) + 1})` : tag)
+    current = parent
+  }
+
+  // Document-level rules such as html-has-lang report the root element itself
+  return parts.length ? parts.join(' > ') : 'html'
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { createFixtureMetricsProvider } from './fixture-provider'
+import type { PerformanceMeasurement } from './types'
+
+const slowPage: PerformanceMeasurement = {
+  score: 35,
+  metrics: {
+    loadTime: 9.8,
+    firstContentfulPaint: 4.1,
+    largestContentfulPaint: 7.2,
+    cumulativeLayoutShift: 0.31,
+    totalBlockingTime: 1200,
+    timeToFirstByte: 1400
+  },
+  waterfall: []
+}
+
+describe('createFixtureMetricsProvider', () => {
+  it('returns the fixture registered for a URL', async () => {
+    const provider = createFixtureMetricsProvider({ 'https://slow.example.com': slowPage })
+
+    expect(provider.name).toBe('fixture')
+    expect(await provider.collect('https://slow.example.com')).toEqual(slowPage)
+  })
+
+  it('returns the same default measurement for every other URL', async () => {
+    const provider = createFixtureMetricsProvider({ 'https://slow.example.com': slowPage })
+    const first = await provider.collect('https://example.com')
+
+    expect(await provider.collect('https://other.example.com')).toEqual(first)
+    expect(first.metrics.largestContentfulPaint).toBeGreaterThan(0)
+    expect(first.waterfall.length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,28 @@
+import type { MetricsProvider, PerformanceMeasurement } from './types'
+
+const defaultFixture: PerformanceMeasurement = {
+  score: 82,
+  metrics: {
+    loadTime: 3.1,
+    firstContentfulPaint: 1.2,
+    largestContentfulPaint: 2.4,
+    cumulativeLayoutShift: 0.05,
+    totalBlockingTime: 180,
+    timeToFirstByte: 320,
+    interactionToNextPaint: 140
+  },
+  waterfall: [
+    { url: '/', resourceType: 'Document', startTime: 0, endTime: 320, transferSize: 18432 },
+    { url: '/assets/index.css', resourceType: 'Stylesheet', startTime: 340, endTime: 610, transferSize: 24576 },
+    { url: '/assets/index.js', resourceType: 'Script', startTime: 345, endTime: 980, transferSize: 153600 },
+    { url: '/assets/hero.webp', resourceType: 'Image', startTime: 700, endTime: 1650, transferSize: 204800 }
+  ]
+}
+
+// Deterministic measurements for local development and tests, keyed by URL
+export const createFixtureMetricsProvider = (
+  fixtures: Record<string, PerformanceMeasurement> = {}
+): MetricsProvider => ({
+  name: 'fixture',
+  collect: async (url) => fixtures[url] ?? defaultFixture
+})
@@ -0,0 +1,10 @@
+import { createFixtureMetricsProvider } from './fixture-provider'
+import { createPageSpeedMetricsProvider } from './pagespeed-provider'
+import type { MetricsProvider } from './types'
+
+export type { MetricsProvider, PerformanceMeasurement } from './types'
+export { createFixtureMetricsProvider, createPageSpeedMetricsProvider }
+
+export const metricsProvider: MetricsProvider = import.meta.env.VITE_METRICS_PROVIDER === 'fixture'
+  ? createFixtureMetricsProvider()
+  : createPageSpeedMetricsProvider(import.meta.env.VITE_PAGESPEED_API_KEY)
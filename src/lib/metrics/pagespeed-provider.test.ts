@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFixtureMetricsProvider } from './fixture-provider'
+import { createPageSpeedMetricsProvider, parsePageSpeedResponse, type PageSpeedResponse } from './pagespeed-provider'
+import type { PerformanceMeasurement } from './types'
+import { blink } from '../../test/blink'
+
+vi.mock('../blink', () => import('../../test/blink'))
+
+const fetchMock = blink.data.fetch
+
+// Builds the PageSpeed Insights response that Lighthouse would return for a measurement
+const pageSpeedResponseFor = ({ score, metrics, waterfall }: PerformanceMeasurement): PageSpeedResponse => ({
+  lighthouseResult: {
+    categories: { performance: { score: score / 100 } },
+    audits: {
+      interactive: { numericValue: metrics.loadTime * 1000 },
+      'first-contentful-paint': { numericValue: metrics.firstContentfulPaint * 1000 },
+      'largest-contentful-paint': { numericValue: metrics.largestContentfulPaint * 1000 },
+      'cumulative-layout-shift': { numericValue: metrics.cumulativeLayoutShift },
+      'total-blocking-time': { numericValue: metrics.totalBlockingTime },
+      'server-response-time': { numericValue: metrics.timeToFirstByte },
+      'network-requests': {
+        details: {
+          items: waterfall.map(({ startTime, endTime, ...request }) => ({
+            ...request,
+            networkRequestTime: startTime,
+            networkEndTime: endTime
+          }))
+        }
+      }
+    }
+  },
+  loadingExperience: metrics.interactionToNextPaint === undefined
+    ? undefined
+    : { metrics: { INTERACTION_TO_NEXT_PAINT: { percentile: metrics.interactionToNextPaint } } }
+})
+
+describe('parsePageSpeedResponse', () => {
+  it('reads the same measurement the fixture provider reports', async () => {
+    const fixture = await createFixtureMetricsProvider().collect('https://example.com')
+
+    expect(parsePageSpeedResponse(pageSpeedResponseFor(fixture))).toEqual(fixture)
+  })
+
+  it('leaves INP undefined without field data', async () => {
+    const fixture = await createFixtureMetricsProvider().collect('https://example.com')
+    const { loadingExperience: _fieldData, ...labOnly } = pageSpeedResponseFor(fixture)
+
+    expect(parsePageSpeedResponse(labOnly).metrics.interactionToNextPaint).toBeUndefined()
+  })
+
+  it('falls back to zero for missing audits and a null score', () => {
+    const measurement = parsePageSpeedResponse({
+      lighthouseResult: { categories: { performance: { score: null } }, audits: {} }
+    })
+
+    expect(measurement.score).toBe(0)
+    expect(measurement.metrics.largestContentfulPaint).toBe(0)
+    expect(measurement.waterfall).toEqual([])
+  })
+
+  it('reads start and end times from older Lighthouse versions', () => {
+    const measurement = parsePageSpeedResponse({
+      lighthouseResult: {
+        categories: { performance: { score: 0.5 } },
+        audits: {
+          'network-requests': { details: { items: [{ url: '/', startTime: 10.4, endTime: 99.6 }] } }
+        }
+      }
+    })
+
+    expect(measurement.waterfall).toEqual([
+      { url: '/', resourceType: 'Other', startTime: 10, endTime: 100, transferSize: 0 }
+    ])
+  })
+
+  it('keeps at most 50 waterfall entries', () => {
+    const items = Array.from({ length: 80 }, (_, index) => ({ url: `/asset-${index}.js` }))
+    const measurement = parsePageSpeedResponse({
+      lighthouseResult: {
+        categories: { performance: { score: 1 } },
+        audits: { 'network-requests': { details: { items } } }
+      }
+    })
+
+    expect(measurement.waterfall).toHaveLength(50)
+  })
+})
+
+describe('createPageSpeedMetricsProvider', () => {
+  beforeEach(() => {
+    fetchMock.mockReset()
+  })
+
+  it('requests a mobile performance run and parses string bodies', async () => {
+    const fixture = await createFixtureMetricsProvider().collect('https://example.com')
+    fetchMock.mockResolvedValue({ status: 200, body: JSON.stringify(pageSpeedResponseFor(fixture)) })
+
+    const measurement = await createPageSpeedMetricsProvider('api-key').collect('https://example.com')
+
+    expect(fetchMock).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'GET',
+      query: { url: 'https://example.com', category: 'performance', strategy: 'mobile', key: 'api-key' }
+    }))
+    expect(measurement).toEqual(fixture)
+  })
+
+  it('throws when PageSpeed Insights fails', async () => {
+    fetchMock.mockResolvedValue({ status: 429, body: '' })
+
+    await expect(createPageSpeedMetricsProvider().collect('https://example.com'))
+      .rejects.toThrow('PageSpeed Insights returned 429')
+  })
+})
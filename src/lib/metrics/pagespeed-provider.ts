@@ -0,0 +1,82 @@
+import { blink } from '../blink'
+import type { ResourceTiming } from '../../types/analysis'
+import type { MetricsProvider, PerformanceMeasurement } from './types'
+
+const PAGESPEED_ENDPOINT = 'https://www.googleapis.com/pagespeedonline/v5/runPagespeed'
+const MAX_WATERFALL_ENTRIES = 50
+
+// One row of Lighthouse's network-requests audit; older Lighthouse versions report startTime/endTime
+interface LighthouseNetworkRequest {
+  url: string
+  resourceType?: string
+  networkRequestTime?: number
+  networkEndTime?: number
+  startTime?: number
+  endTime?: number
+  transferSize?: number
+}
+
+interface LighthouseAudit {
+  numericValue?: number
+  details?: { items?: LighthouseNetworkRequest[] }
+}
+
+// The parts of a PageSpeed Insights v5 response the provider reads
+export interface PageSpeedResponse {
+  lighthouseResult: {
+    categories: { performance: { score: number | null } }
+    audits: Record<string, LighthouseAudit | undefined>
+  }
+  loadingExperience?: {
+    metrics?: Record<string, { percentile?: number } | undefined>
+  }
+}
+
+const toSeconds = (ms: number) => Math.round(ms / 10) / 100
+
+const toResourceTiming = (item: LighthouseNetworkRequest): ResourceTiming => ({
+  url: item.url,
+  resourceType: item.resourceType ?? 'Other',
+  startTime: Math.round(item.networkRequestTime ?? item.startTime ?? 0),
+  endTime: Math.round(item.networkEndTime ?? item.endTime ?? 0),
+  transferSize: item.transferSize ?? 0
+})
+
+// INP only exists as field data from real Chrome users, so lab runs leave it undefined
+export const parsePageSpeedResponse = ({ lighthouseResult, loadingExperience }: PageSpeedResponse): PerformanceMeasurement => {
+  const audit = (id: string): number => lighthouseResult.audits[id]?.numericValue ?? 0
+  const fieldInp = loadingExperience?.metrics?.INTERACTION_TO_NEXT_PAINT?.percentile
+
+  return {
+    score: Math.round((lighthouseResult.categories.performance.score ?? 0) * 100),
+    metrics: {
+      loadTime: toSeconds(audit('interactive')),
+      firstContentfulPaint: toSeconds(audit('first-contentful-paint')),
+      largestContentfulPaint: toSeconds(audit('largest-contentful-paint')),
+      cumulativeLayoutShift: Math.round(audit('cumulative-layout-shift') * 1000) / 1000,
+      totalBlockingTime: Math.round(audit('total-blocking-time')),
+      timeToFirstByte: Math.round(audit('server-response-time')),
+      interactionToNextPaint: typeof fieldInp === 'number' ? fieldInp : undefined
+    },
+    waterfall: (lighthouseResult.audits['network-requests']?.details?.items ?? [])
+      .slice(0, MAX_WATERFALL_ENTRIES)
+      .map(toResourceTiming)
+  }
+}
+
+// Runs a mobile Lighthouse pass in Google's headless Chrome via the PageSpeed Insights API
+export const createPageSpeedMetricsProvider = (apiKey?: string): MetricsProvider => ({
+  name: 'pagespeed',
+  collect: async (url) => {
+    const query: Record<string, string> = { url, category: 'performance', strategy: 'mobile' }
+    if (apiKey) query.key = apiKey
+
+    const response = await blink.data.fetch({ url: PAGESPEED_ENDPOINT, method: 'GET', query })
+    if (response.status !== 200) {
+      throw new Error(`PageSpeed Insights returned ${response.status}`)
+    }
+
+    const body: PageSpeedResponse = typeof response.body === 'string' ? JSON.parse(response.body) : response.body
+    return parsePageSpeedResponse(body)
+  }
+})
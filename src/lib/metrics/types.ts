@@ -0,0 +1,12 @@
+import type { PerformanceMetrics, ResourceTiming } from '../../types/analysis'
+
+export interface PerformanceMeasurement {
+  score: number
+  metrics: PerformanceMetrics
+  waterfall: ResourceTiming[]
+}
+
+export interface MetricsProvider {
+  name: string
+  collect: (url: string) => Promise<PerformanceMeasurement>
+}
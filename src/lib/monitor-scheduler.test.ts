@@ -0,0 +1,202 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createMonitorScheduler, type Clock, type MonitorSchedulerDeps } from './monitor-scheduler'
+import { SCHEDULE_INTERVALS, type Monitor } from './monitors'
+import { emptyCategory } from './categories'
+import { analysisResult } from '../test/fixtures'
+import type { AnalysisResult } from '../types/analysis'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+const START = Date.UTC(2025, 0, 1, 9)
+const MINUTE = 60 * 1000
+const DAY = SCHEDULE_INTERVALS.daily
+
+// Time only moves when the test advances it; due intervals fire on the way
+const createFakeClock = (time = START) => {
+  let intervals: Array<{ callback: () => void; ms: number; next: number }> = []
+  const clock: Clock & { advance: (ms: number) => void } = {
+    now: () => time,
+    setInterval: (callback, ms) => {
+      const interval = { callback, ms, next: time + ms }
+      intervals.push(interval)
+      return interval
+    },
+    clearInterval: (handle) => {
+      intervals = intervals.filter(interval => interval !== handle)
+    },
+    advance: (ms) => {
+      const target = time + ms
+      for (const interval of intervals) {
+        while (interval.next <= target) {
+          time = interval.next
+          interval.next += interval.ms
+          interval.callback()
+        }
+      }
+      time = target
+    }
+  }
+  return clock
+}
+
+const analysis = (id: string, scores: Partial<Record<'performance' | 'seo', number>> = {}) => analysisResult({
+  id,
+  timestamp: START,
+  performance: { ...emptyCategory('performance'), score: scores.performance ?? 80 },
+  seo: { ...emptyCategory('seo'), score: scores.seo ?? 80 },
+  accessibility: { ...emptyCategory('accessibility'), score: 80 },
+  design: { ...emptyCategory('design'), score: 80 },
+  ux: { ...emptyCategory('ux'), score: 80 }
+})
+
+const monitor = (overrides: Partial<Monitor> = {}): Monitor => ({
+  id: 'monitor_1',
+  url: 'https://example.com',
+  schedule: 'daily',
+  threshold: 5,
+  enabled: true,
+  lastRunAt: null,
+  lastAnalysisId: null,
+  nextRunAt: START,
+  createdAt: new Date(START).toISOString(),
+  ...overrides
+})
+
+// An in-memory monitors table shared by every scheduler created from it, like tabs sharing the database
+const createStore = (monitors: Monitor[], analyses: AnalysisResult[] = []) => {
+  const rows = new Map(monitors.map(item => [item.id, item]))
+  const results = new Map(analyses.map(item => [item.id, item]))
+  let runs = 0
+
+  const deps = (clock: Clock, overrides: Partial<MonitorSchedulerDeps> = {}): MonitorSchedulerDeps => ({
+    clock,
+    loadMonitors: async () => [...rows.values()],
+    saveMonitor: async (updated) => {
+      rows.set(updated.id, updated)
+    },
+    claimRun: async (claimed, leaseUntil) => {
+      const stored = rows.get(claimed.id)
+      if (!stored || stored.nextRunAt !== claimed.nextRunAt) return false
+      rows.set(claimed.id, { ...stored, nextRunAt: leaseUntil })
+      return true
+    },
+    runAnalysis: vi.fn(async () => {
+      const result = analysis(`analysis_${++runs}`)
+      results.set(result.id, result)
+      return result
+    }),
+    getAnalysis: async (id) => results.get(id) ?? null,
+    onRegression: vi.fn(),
+    ...overrides
+  })
+
+  return { rows, deps }
+}
+
+describe('createMonitorScheduler', () => {
+  it('runs due monitors on start and schedules the next run', async () => {
+    const clock = createFakeClock()
+    const store = createStore([monitor()])
+    const deps = store.deps(clock)
+
+    await createMonitorScheduler(deps).tick()
+
+    expect(deps.runAnalysis).toHaveBeenCalledWith('https://example.com')
+    expect(store.rows.get('monitor_1')).toMatchObject({
+      lastRunAt: START,
+      lastAnalysisId: 'analysis_1',
+      nextRunAt: START + DAY
+    })
+  })
+
+  it('skips disabled monitors and monitors that are not due yet', async () => {
+    const clock = createFakeClock()
+    const store = createStore([
+      monitor({ id: 'disabled', enabled: false }),
+      monitor({ id: 'later', nextRunAt: START + MINUTE })
+    ])
+    const deps = store.deps(clock)
+
+    await createMonitorScheduler(deps).tick()
+
+    expect(deps.runAnalysis).not.toHaveBeenCalled()
+  })
+
+  it('checks again every minute until stopped', async () => {
+    const clock = createFakeClock()
+    const store = createStore([monitor({ nextRunAt: START + DAY })])
+    const deps = store.deps(clock)
+    const scheduler = createMonitorScheduler(deps)
+
+    scheduler.start()
+    await vi.waitFor(() => expect(deps.runAnalysis).not.toHaveBeenCalled())
+    clock.advance(DAY)
+    await vi.waitFor(() => expect(deps.runAnalysis).toHaveBeenCalledTimes(1))
+
+    scheduler.stop()
+    clock.advance(2 * DAY)
+    await Promise.resolve()
+    expect(deps.runAnalysis).toHaveBeenCalledTimes(1)
+  })
+
+  it('raises an alert when a score drops by at least the threshold', async () => {
+    const clock = createFakeClock()
+    const store = createStore([monitor({ lastAnalysisId: 'previous' })], [analysis('previous', { seo: 90, performance: 83 })])
+    const deps = store.deps(clock)
+
+    await createMonitorScheduler(deps).tick()
+
+    expect(deps.onRegression).toHaveBeenCalledTimes(1)
+    const [, result, alerts] = vi.mocked(deps.onRegression).mock.calls[0]
+    expect(result.id).toBe('analysis_1')
+    expect(alerts).toEqual([{ type: 'score-drop', category: 'seo', previous: 90, current: 80, drop: 10 }])
+  })
+
+  it('does not alert on the first run or on small drops', async () => {
+    const clock = createFakeClock()
+    const store = createStore(
+      [monitor(), monitor({ id: 'monitor_2', lastAnalysisId: 'previous' })],
+      [analysis('previous', { seo: 84 })]
+    )
+    const deps = store.deps(clock)
+
+    await createMonitorScheduler(deps).tick()
+
+    expect(deps.runAnalysis).toHaveBeenCalledTimes(2)
+    expect(deps.onRegression).not.toHaveBeenCalled()
+  })
+
+  it('runs a due monitor once when several tabs tick at the same time', async () => {
+    const clock = createFakeClock()
+    const store = createStore([monitor()])
+    const runAnalysis = vi.fn(async () => analysis('analysis_shared'))
+    const tabs = [1, 2, 3].map(() => createMonitorScheduler(store.deps(clock, { runAnalysis })))
+
+    await Promise.all(tabs.map(tab => tab.tick()))
+
+    expect(runAnalysis).toHaveBeenCalledTimes(1)
+    expect(store.rows.get('monitor_1')?.nextRunAt).toBe(START + DAY)
+  })
+
+  it('retries a failed run once the claim lease has passed', async () => {
+    const clock = createFakeClock()
+    const store = createStore([monitor()])
+    const onError = vi.fn()
+    const runAnalysis = vi.fn()
+      .mockRejectedValueOnce(new Error('Scrape failed'))
+      .mockResolvedValue(analysis('analysis_retry'))
+    const scheduler = createMonitorScheduler(store.deps(clock, { runAnalysis, onError }))
+
+    await scheduler.tick()
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ id: 'monitor_1' }), expect.any(Error))
+
+    clock.advance(MINUTE)
+    await scheduler.tick()
+    expect(runAnalysis).toHaveBeenCalledTimes(1)
+
+    clock.advance(30 * MINUTE)
+    await scheduler.tick()
+    expect(runAnalysis).toHaveBeenCalledTimes(2)
+    expect(store.rows.get('monitor_1')?.lastAnalysisId).toBe('analysis_retry')
+  })
+})
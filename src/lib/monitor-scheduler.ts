@@ -0,0 +1,100 @@
+import { SCHEDULE_INTERVALS, detectRegressions, type Monitor, type RegressionAlert } from './monitors'
+import type { AnalysisResult } from '../types/analysis'
+
+export interface Clock {
+  now: () => number
+  setInterval: (callback: () => void, ms: number) => unknown
+  clearInterval: (handle: unknown) => void
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setInterval: (callback, ms) => window.setInterval(callback, ms),
+  clearInterval: (handle) => window.clearInterval(handle as number)
+}
+
+// Everything with side effects is injected so the scheduler can run against a fake clock and stubbed runner
+export interface MonitorSchedulerDeps {
+  clock: Clock
+  loadMonitors: () => Promise<Monitor[]>
+  saveMonitor: (monitor: Monitor) => Promise<void>
+  // Resolves to false when another open tab already claimed this run of the monitor
+  claimRun: (monitor: Monitor, leaseUntil: number) => Promise<boolean>
+  runAnalysis: (url: string) => Promise<AnalysisResult>
+  getAnalysis: (id: string) => Promise<AnalysisResult | null>
+  onRegression: (monitor: Monitor, result: AnalysisResult, alerts: RegressionAlert[]) => void | Promise<void>
+  onError?: (monitor: Monitor, error: unknown) => void
+}
+
+export interface MonitorScheduler {
+  start: () => void
+  stop: () => void
+  tick: () => Promise<void>
+  runNow: (monitor: Monitor) => Promise<Monitor>
+}
+
+const CHECK_INTERVAL_MS = 60 * 1000
+// A claimed run that never finishes, e.g. because its tab was closed, is due again after this long
+const CLAIM_LEASE_MS = 30 * 60 * 1000
+
+export const createMonitorScheduler = (deps: MonitorSchedulerDeps): MonitorScheduler => {
+  let handle: unknown = null
+  let ticking = false
+
+  const runNow = async (monitor: Monitor): Promise<Monitor> => {
+    const previous = monitor.lastAnalysisId ? await deps.getAnalysis(monitor.lastAnalysisId) : null
+    const result = await deps.runAnalysis(monitor.url)
+    const ranAt = deps.clock.now()
+
+    const updated: Monitor = {
+      ...monitor,
+      lastRunAt: ranAt,
+      lastAnalysisId: result.id,
+      nextRunAt: ranAt + SCHEDULE_INTERVALS[monitor.schedule]
+    }
+    await deps.saveMonitor(updated)
+
+    const alerts = previous ? detectRegressions(previous, result, monitor.threshold) : []
+    if (alerts.length > 0) {
+      await deps.onRegression(updated, result, alerts)
+    }
+    return updated
+  }
+
+  // Due monitors run one at a time; a tick that overlaps a slow previous one is skipped. Every editor's open
+  // tab runs a scheduler, so each due monitor is claimed first and only the tab that claimed it runs it.
+  const tick = async () => {
+    if (ticking) return
+    ticking = true
+
+    try {
+      const monitors = await deps.loadMonitors()
+      const due = monitors.filter(monitor => monitor.enabled && monitor.nextRunAt <= deps.clock.now())
+      for (const monitor of due) {
+        try {
+          if (!await deps.claimRun(monitor, deps.clock.now() + CLAIM_LEASE_MS)) continue
+          await runNow(monitor)
+        } catch (error) {
+          deps.onError?.(monitor, error)
+        }
+      }
+    } finally {
+      ticking = false
+    }
+  }
+
+  return {
+    start: () => {
+      if (handle !== null) return
+      handle = deps.clock.setInterval(() => { tick() }, CHECK_INTERVAL_MS)
+      tick()
+    },
+    stop: () => {
+      if (handle === null) return
+      deps.clock.clearInterval(handle)
+      handle = null
+    },
+    tick,
+    runNow
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest'
+import { detectRegressions } from './monitors'
+import { emptyCategory } from './categories'
+import { analysisResult, analysisSettings } from '../test/fixtures'
+import type { AccessibilityViolation } from '../types/analysis'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+const violation: AccessibilityViolation = {
+  description: 'Image has no alt text',
+  element: 'img',
+  selector: 'main > img',
+  ruleId: 'image-alt',
+  severity: 'critical'
+}
+
+const withViolations = (violations: AccessibilityViolation[], categories = ['accessibility']) => analysisResult({
+  settings: analysisSettings(categories),
+  accessibility: { ...emptyCategory('accessibility'), violations }
+})
+
+describe('detectRegressions', () => {
+  it('alerts on critical violations the previous run did not have', () => {
+    const alerts = detectRegressions(withViolations([]), withViolations([violation]), 5)
+
+    expect(alerts).toEqual([{ type: 'critical-violation', description: 'Image has no alt text', selector: 'main > img' }])
+  })
+
+  it('does not treat violations as new when the previous run skipped accessibility', () => {
+    const alerts = detectRegressions(withViolations([], ['seo']), withViolations([violation]), 5)
+
+    expect(alerts).toEqual([])
+  })
+})
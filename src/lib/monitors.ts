@@ -0,0 +1,155 @@
+import { blink } from './blink'
+import { CATEGORY_LABELS, analyzedCategories } from './categories'
+import type { AnalysisResult, CategoryKey } from '../types/analysis'
+
+export type MonitorSchedule = 'daily' | 'weekly'
+
+export interface Monitor {
+  id: string
+  url: string
+  schedule: MonitorSchedule
+  // Minimum score drop, in points, that counts as a regression
+  threshold: number
+  webhookUrl?: string
+  enabled: boolean
+  lastRunAt: number | null
+  lastAnalysisId: string | null
+  nextRunAt: number
+  createdAt: string
+}
+
+interface MonitorRecord extends Omit<Monitor, 'enabled' | 'webhookUrl'> {
+  userId: string
+  enabled: number
+  webhookUrl: string | null
+}
+
+export type RegressionAlert =
+  | { type: 'score-drop'; category: CategoryKey; previous: number; current: number; drop: number }
+  | { type: 'critical-violation'; description: string; selector: string }
+
+export interface MonitorNotification {
+  id: string
+  monitorId: string
+  url: string
+  analysisId: string
+  messages: string[]
+  createdAt: number
+  read: boolean
+}
+
+export const SCHEDULE_INTERVALS: Record<MonitorSchedule, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+}
+
+const monitorsTable = () => blink.db.table<MonitorRecord>('monitors')
+
+const parseMonitor = (record: MonitorRecord): Monitor => ({
+  id: record.id,
+  url: record.url,
+  schedule: record.schedule,
+  threshold: Number(record.threshold),
+  webhookUrl: record.webhookUrl || undefined,
+  enabled: Number(record.enabled) > 0,
+  lastRunAt: record.lastRunAt,
+  lastAnalysisId: record.lastAnalysisId,
+  nextRunAt: Number(record.nextRunAt),
+  createdAt: record.createdAt
+})
+
+export const listMonitors = async (workspaceId: string) => {
+  const records = await monitorsTable().list({
+    where: { userId: workspaceId },
+    orderBy: { createdAt: 'desc' }
+  })
+  return records.map(parseMonitor)
+}
+
+export const saveMonitor = async (monitor: Monitor, workspaceId: string) => {
+  await monitorsTable().upsert({
+    id: monitor.id,
+    userId: workspaceId,
+    url: monitor.url,
+    schedule: monitor.schedule,
+    threshold: monitor.threshold,
+    webhookUrl: monitor.webhookUrl ?? null,
+    enabled: monitor.enabled ? 1 : 0,
+    lastRunAt: monitor.lastRunAt,
+    lastAnalysisId: monitor.lastAnalysisId,
+    nextRunAt: monitor.nextRunAt,
+    createdAt: monitor.createdAt
+  })
+}
+
+// Only succeeds while nextRunAt still holds the value this tab loaded, so of several tabs seeing the same
+// due monitor exactly one moves it forward and runs it
+export const claimMonitorRun = async (monitor: Monitor, leaseUntil: number) => {
+  const { rows } = await blink.db.sql<{ id: string }>(
+    'UPDATE monitors SET next_run_at = ? WHERE id = ? AND next_run_at = ? RETURNING id',
+    [leaseUntil, monitor.id, monitor.nextRunAt]
+  )
+  return rows.length > 0
+}
+
+export const deleteMonitor = async (id: string) => {
+  await monitorsTable().delete(id)
+}
+
+export const detectRegressions = (
+  previous: AnalysisResult,
+  current: AnalysisResult,
+  threshold: number
+): RegressionAlert[] => {
+  const compared = analyzedCategories(current).filter(category => analyzedCategories(previous).includes(category))
+  const scoreDrops: RegressionAlert[] = compared
+    .map(category => ({
+      category,
+      previous: previous[category].score,
+      current: current[category].score,
+      drop: previous[category].score - current[category].score
+    }))
+    .filter(change => change.drop >= threshold)
+    .map(change => ({ type: 'score-drop', ...change }))
+
+  // A run that skipped accessibility has no violations to compare against, rather than none found
+  if (!compared.includes('accessibility')) return scoreDrops
+
+  const violationKey = (violation: AnalysisResult['accessibility']['violations'][number]) =>
+    `${violation.ruleId ?? violation.description}:${violation.selector ?? violation.element}`
+  const knownCritical = new Set(
+    previous.accessibility.violations.filter(violation => violation.severity === 'critical').map(violationKey)
+  )
+  const newCritical: RegressionAlert[] = current.accessibility.violations
+    .filter(violation => violation.severity === 'critical' && !knownCritical.has(violationKey(violation)))
+    .map(violation => ({
+      type: 'critical-violation',
+      description: violation.description,
+      selector: violation.selector ?? violation.element
+    }))
+
+  return [...scoreDrops, ...newCritical]
+}
+
+export const describeAlert = (alert: RegressionAlert) =>
+  alert.type === 'score-drop'
+    ? `${CATEGORY_LABELS[alert.category]} dropped ${alert.drop} points (${alert.previous} → ${alert.current})`
+    : `New critical accessibility violation: ${alert.description} at ${alert.selector}`
+
+export const postRegressionWebhook = async (monitor: Monitor, result: AnalysisResult, alerts: RegressionAlert[]) => {
+  if (!monitor.webhookUrl) return
+
+  await blink.data.fetch({
+    url: monitor.webhookUrl,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: {
+      event: 'analysis.regression',
+      monitorId: monitor.id,
+      url: monitor.url,
+      analysisId: result.id,
+      timestamp: result.timestamp,
+      alerts: alerts.map(alert => ({ ...alert, message: describeAlert(alert) }))
+    }
+  })
+}
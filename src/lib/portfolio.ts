@@ -0,0 +1,133 @@
+import { blink } from './blink'
+import { countAnalysesInRange } from './analysis-store'
+import type { GradeBand } from './scoring'
+
+export interface CategoryAverage {
+  id: string
+  label: string
+  average: number
+}
+
+export interface GradeCount {
+  grade: string
+  min: number
+  max: number
+  count: number
+}
+
+export interface SiteActivity {
+  hostname: string
+  analyses: number
+  latestScore: number
+}
+
+export interface RecurringIssue {
+  key: string
+  label: string
+  // Sites whose latest analysis still has the issue
+  sites: number
+}
+
+// Consecutive runs, ending with the latest, that each scored higher than the one before
+export interface ImprovementStreak {
+  hostname: string
+  runs: number
+  gain: number
+}
+
+export interface PortfolioStats {
+  total: number
+  averageScore: number
+  best: CategoryAverage | null
+  worst: CategoryAverage | null
+  distribution: GradeCount[]
+  topSites: SiteActivity[]
+  recurringIssues: RecurringIssue[]
+  streaks: ImprovementStreak[]
+}
+
+const TOP_COUNT = 5
+
+// Top-level analyses of one workspace; crawl pages and benchmark competitors have a parent
+const WORKSPACE_RUNS = 'SELECT * FROM website_analyses WHERE user_id = ? AND parent_id IS NULL'
+
+const TOTALS_SQL = `
+  SELECT COUNT(*) AS total, COALESCE(ROUND(AVG(overall_score)), 0) AS average_score
+  FROM (${WORKSPACE_RUNS})`
+
+// Each run's score summary holds only the categories it analyzed, so every category is averaged over its own runs
+const CATEGORY_AVERAGES_SQL = `
+  SELECT summary.key AS id, MAX(json_extract(summary.value, '$.label')) AS label,
+    AVG(json_extract(summary.value, '$.score')) AS average
+  FROM (${WORKSPACE_RUNS}) AS runs, json_each(runs.score_summary) AS summary
+  GROUP BY summary.key
+  ORDER BY average DESC`
+
+// SQLite takes the bare overall_score from the row holding MAX(timestamp), i.e. the latest run
+const TOP_SITES_SQL = `
+  SELECT hostname, COUNT(*) AS analyses, overall_score AS latest_score, MAX(timestamp) AS latest_at
+  FROM (${WORKSPACE_RUNS})
+  GROUP BY hostname
+  ORDER BY analyses DESC
+  LIMIT ${TOP_COUNT}`
+
+// Issues found on more than one site, counted on each site's latest run so fixed issues drop out
+const RECURRING_ISSUES_SQL = `
+  WITH latest AS (
+    SELECT hostname, issue_summary, ROW_NUMBER() OVER (PARTITION BY hostname ORDER BY timestamp DESC) AS position
+    FROM (${WORKSPACE_RUNS})
+  )
+  SELECT json_extract(issue.value, '$.key') AS key, MAX(json_extract(issue.value, '$.label')) AS label,
+    COUNT(DISTINCT latest.hostname) AS sites
+  FROM latest, json_each(latest.issue_summary) AS issue
+  WHERE latest.position = 1
+  GROUP BY json_extract(issue.value, '$.key')
+  HAVING COUNT(DISTINCT latest.hostname) > 1
+  ORDER BY sites DESC
+  LIMIT ${TOP_COUNT}`
+
+// A streak starts at each site's latest run that didn't beat the one before; every later run improved on it
+const STREAKS_SQL = `
+  WITH history AS (
+    SELECT hostname, timestamp, overall_score,
+      overall_score > LAG(overall_score) OVER (PARTITION BY hostname ORDER BY timestamp) AS improved
+    FROM (${WORKSPACE_RUNS})
+  ),
+  starts AS (
+    SELECT hostname, MAX(timestamp) AS started_at FROM history WHERE improved IS NOT 1 GROUP BY hostname
+  )
+  SELECT history.hostname, COUNT(*) - 1 AS runs, MAX(history.overall_score) - MIN(history.overall_score) AS gain
+  FROM history JOIN starts ON starts.hostname = history.hostname AND history.timestamp >= starts.started_at
+  GROUP BY history.hostname
+  HAVING COUNT(*) > 1
+  ORDER BY runs DESC, gain DESC
+  LIMIT ${TOP_COUNT}`
+
+const query = async <T>(sql: string, workspaceId: string) => (await blink.db.sql<T>(sql, [workspaceId])).rows
+
+// Everything is aggregated by the database, so the dashboard's cost doesn't grow with the workspace's history
+export const getPortfolioStats = async (workspaceId: string, grades: GradeBand[]): Promise<PortfolioStats> => {
+  const [[totals], averages, topSites, recurringIssues, streaks, distribution] = await Promise.all([
+    query<{ total: number; averageScore: number }>(TOTALS_SQL, workspaceId),
+    query<CategoryAverage>(CATEGORY_AVERAGES_SQL, workspaceId),
+    query<SiteActivity>(TOP_SITES_SQL, workspaceId),
+    query<RecurringIssue>(RECURRING_ISSUES_SQL, workspaceId),
+    query<ImprovementStreak>(STREAKS_SQL, workspaceId),
+    Promise.all(grades.map(async (band, index): Promise<GradeCount> => {
+      // Bands run from their minimum up to the next band's minimum; the top band includes 100
+      const max = index === 0 ? 101 : grades[index - 1].min
+      return { grade: band.grade, min: band.min, max: max - 1, count: await countAnalysesInRange(workspaceId, band.min, max) }
+    }))
+  ])
+
+  return {
+    total: Number(totals?.total) || 0,
+    averageScore: Number(totals?.averageScore) || 0,
+    best: averages[0] ?? null,
+    worst: averages.length > 1 ? averages[averages.length - 1] : null,
+    distribution,
+    topSites: topSites.map(({ hostname, analyses, latestScore }) => ({ hostname, analyses, latestScore })),
+    recurringIssues,
+    streaks
+  }
+}
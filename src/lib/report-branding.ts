@@ -0,0 +1,58 @@
+import { blink } from './blink'
+
+export interface ReportBranding {
+  agencyName: string
+  logoUrl: string
+  primaryColor: string
+  accentColor: string
+  footerText: string
+}
+
+interface ReportBrandingRecord extends ReportBranding {
+  // One branding row per workspace, keyed by the workspace id
+  id: string
+  updatedAt: string
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+// Colors end up inside the report's <style> element, so nothing but a plain hex color is accepted
+export const isHexColor = (value: string) => HEX_COLOR.test(value)
+
+export const DEFAULT_BRANDING: ReportBranding = {
+  agencyName: 'AI Website Analyzer',
+  logoUrl: '',
+  primaryColor: '#2563eb',
+  accentColor: '#16a34a',
+  footerText: 'Generated by AI Website Analyzer'
+}
+
+const brandingTable = () => blink.db.table<ReportBrandingRecord>('reportBrandings')
+
+// Also applied to the row the shared report function returns
+export const parseBranding = (record: ReportBranding | null): ReportBranding => {
+  if (!record) return DEFAULT_BRANDING
+
+  return {
+    agencyName: record.agencyName || DEFAULT_BRANDING.agencyName,
+    logoUrl: record.logoUrl || '',
+    primaryColor: isHexColor(record.primaryColor) ? record.primaryColor : DEFAULT_BRANDING.primaryColor,
+    accentColor: isHexColor(record.accentColor) ? record.accentColor : DEFAULT_BRANDING.accentColor,
+    footerText: record.footerText ?? DEFAULT_BRANDING.footerText
+  }
+}
+
+export const getBranding = async (workspaceId: string): Promise<ReportBranding> =>
+  parseBranding(await brandingTable().get(workspaceId))
+
+export const saveBranding = async (workspaceId: string, branding: ReportBranding) => {
+  if (!isHexColor(branding.primaryColor) || !isHexColor(branding.accentColor)) {
+    throw new Error('Branding colors must be hex colors like #2563eb')
+  }
+
+  await brandingTable().upsert({
+    id: workspaceId,
+    ...branding,
+    updatedAt: new Date().toISOString()
+  })
+}
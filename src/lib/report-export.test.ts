@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest'
+import { renderReportHtml } from './report-export'
+import { DEFAULT_BRANDING } from './report-branding'
+import { emptyCategory } from './categories'
+import { analysisResult, analysisSettings } from '../test/fixtures'
+import type { AnalysisResult } from '../types/analysis'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+const result = (settings: AnalysisResult['settings']) =>
+  analysisResult({ settings, seo: { ...emptyCategory('seo'), score: 72 } })
+
+describe('renderReportHtml', () => {
+  it('keeps branding colors that are not hex colors out of the stylesheet', () => {
+    const html = renderReportHtml(result(undefined), {
+      ...DEFAULT_BRANDING,
+      primaryColor: 'red; } </style><script>alert(1)</script>',
+      accentColor: '#ABCDEF'
+    })
+
+    expect(html).not.toContain('<script>')
+    expect(html).toContain(`--primary: ${DEFAULT_BRANDING.primaryColor}; --accent: #ABCDEF;`)
+  })
+
+  it('renders a summary when no category was analyzed', () => {
+    const html = renderReportHtml(result(analysisSettings([])), DEFAULT_BRANDING)
+
+    expect(html).toContain('No categories were analyzed.')
+  })
+
+  it('names the strongest and weakest analyzed categories', () => {
+    const html = renderReportHtml(result(analysisSettings(['seo', 'ux'])), DEFAULT_BRANDING)
+
+    expect(html).toMatch(/strongest area is SEO \(72\)/)
+    expect(html).toMatch(/User Experience \(0\) needs the most attention/)
+  })
+})
@@ -0,0 +1,248 @@
+import {
+  categoryLabel,
+  categoryRecommendations,
+  categoryScore,
+  isBuiltInCategory,
+  resultCategoryIds
+} from './categories'
+import { DEFAULT_SCORING, overallScore, scoreBand, scoreGrade, type ScoringConfig } from './scoring'
+import { prioritizeFindings, type Finding } from './findings'
+import { hostnameOf } from './url'
+import { DEFAULT_BRANDING, isHexColor, type ReportBranding } from './report-branding'
+import type { AnalysisResult } from '../types/analysis'
+
+const MAX_PRIORITIZED_FINDINGS = 15
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+const BAND_COLORS = {
+  good: '#16a34a',
+  fair: '#ca8a04',
+  poor: '#dc2626'
+}
+
+const gauge = (score: number, size: number, color: string) => {
+  const radius = size / 2 - 8
+  const circumference = 2 * Math.PI * radius
+  return `
+    <svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" role="img" aria-label="Score ${score} out of 100">
+      <circle cx="${size / 2}" cy="${size / 2}" r="${radius}" fill="none" stroke="#e5e7eb" stroke-width="8" />
+      <circle cx="${size / 2}" cy="${size / 2}" r="${radius}" fill="none" stroke="${color}" stroke-width="8"
+        stroke-linecap="round" stroke-dasharray="${(score / 100) * circumference} ${circumference}"
+        transform="rotate(-90 ${size / 2} ${size / 2})" />
+      <text x="50%" y="50%" text-anchor="middle" dominant-baseline="central" font-size="${size / 4}" font-weight="700"
+        fill="${color}">${score}</text>
+    </svg>`
+}
+
+const list = (items: string[], empty: string) =>
+  items.length > 0 ? `<ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>` : `<p class="muted">${empty}</p>`
+
+const metricTable = (rows: [string, string][]) => `
+  <table class="metrics">
+    ${rows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}
+  </table>`
+
+// Each section mirrors the matching results tab in the app
+const categoryDetails = (result: AnalysisResult, category: string) => {
+  if (!isBuiltInCategory(category)) {
+    const custom = result.custom?.[category]
+    return custom && custom.subMetrics.length > 0
+      ? metricTable(custom.subMetrics.map(subMetric => [subMetric.label, `${custom.metrics[subMetric.key] ?? 0}/100`]))
+      : ''
+  }
+
+  switch (category) {
+    case 'performance': {
+      const { metrics, source } = result.performance
+      return `
+        <p class="muted">${source === 'measured' ? 'Measured in a real browser' : 'Estimated from page content'}</p>
+        ${metricTable([
+          ['Load Time', `${metrics.loadTime}s`],
+          ['First Contentful Paint', `${metrics.firstContentfulPaint}s`],
+          ['Largest Contentful Paint', `${metrics.largestContentfulPaint}s`],
+          ['Cumulative Layout Shift', String(metrics.cumulativeLayoutShift)],
+          ...(metrics.totalBlockingTime !== undefined ? [['Total Blocking Time', `${metrics.totalBlockingTime}ms`] as [string, string]] : []),
+          ...(metrics.timeToFirstByte !== undefined ? [['Time to First Byte', `${metrics.timeToFirstByte}ms`] as [string, string]] : []),
+          ...(metrics.interactionToNextPaint !== undefined ? [['Interaction to Next Paint', `${metrics.interactionToNextPaint}ms`] as [string, string]] : [])
+        ])}`
+    }
+    case 'seo':
+      return `
+        <h4>Issues</h4>
+        ${list(result.seo.issues.map(issue =>
+          `<span class="tag ${issue.impact}">${issue.impact}</span> ${escapeHtml(issue.message)}`
+        ), 'No SEO issues found')}`
+    case 'accessibility':
+      return `
+        <h4>Violations</h4>
+        ${list(result.accessibility.violations.map(violation =>
+          `<span class="tag ${violation.severity}">${violation.severity}</span> ${escapeHtml(violation.description)}
+          <code>${escapeHtml(violation.selector ?? violation.element)}</code>`
+        ), 'No accessibility violations found')}`
+    case 'design':
+      return metricTable([
+        ['Color Contrast', `${result.design.analysis.colorContrast}/100`],
+        ['Typography', `${result.design.analysis.typography}/100`],
+        ['Layout', `${result.design.analysis.layout}/100`],
+        ['Responsiveness', `${result.design.analysis.responsiveness}/100`]
+      ])
+    case 'ux':
+      return metricTable([
+        ['Navigation Clarity', `${result.ux.metrics.navigationClarity}/100`],
+        ['Content Readability', `${result.ux.metrics.contentReadability}/100`],
+        ['Mobile Usability', `${result.ux.metrics.mobileUsability}/100`],
+        ['Interaction Design', `${result.ux.metrics.interactionDesign}/100`]
+      ])
+  }
+}
+
+// A result with every category failed or switched off has no strongest or weakest area to name
+const executiveSummary = (result: AnalysisResult, findings: Finding[], grade: string) => {
+  const ranked = resultCategoryIds(result).sort((a, b) => categoryScore(result, b) - categoryScore(result, a))
+  const strongest = ranked[0]
+  const weakest = ranked[ranked.length - 1]
+  const critical = findings.filter(finding => finding.priority === 'critical').length
+  const high = findings.filter(finding => finding.priority === 'high').length
+
+  return `
+    ${escapeHtml(hostnameOf(result.url))} scores <strong>${overallScore(result)}/100</strong> overall (grade ${escapeHtml(grade)}).
+    ${ranked.length > 0 ? `Its strongest area is ${escapeHtml(categoryLabel(result, strongest))} (${categoryScore(result, strongest)}), while
+    ${escapeHtml(categoryLabel(result, weakest))} (${categoryScore(result, weakest)}) needs the most attention.` : 'No categories were analyzed.'}
+    The audit found ${critical} critical and ${high} high-priority item${critical + high === 1 ? '' : 's'} to address first.`
+}
+
+export const renderReportHtml = (result: AnalysisResult, branding: ReportBranding, scoring: ScoringConfig = DEFAULT_SCORING) => {
+  const findings = prioritizeFindings(result)
+  const overall = overallScore(result)
+  const scoreColor = (score: number) => BAND_COLORS[scoreBand(score, scoring.thresholds)]
+  const date = new Date(result.timestamp).toLocaleDateString()
+  const title = `${hostnameOf(result.url)} website report`
+  // Checked again here since branding may be stored by older versions or written outside the app
+  const primaryColor = isHexColor(branding.primaryColor) ? branding.primaryColor : DEFAULT_BRANDING.primaryColor
+  const accentColor = isHexColor(branding.accentColor) ? branding.accentColor : DEFAULT_BRANDING.accentColor
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>
+  :root { --primary: ${primaryColor}; --accent: ${accentColor}; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #111827; line-height: 1.5; }
+  main { max-width: 880px; margin: 0 auto; padding: 32px; }
+  header.brand { display: flex; align-items: center; justify-content: space-between; border-bottom: 4px solid var(--primary); padding: 24px 32px; }
+  header.brand img { max-height: 48px; }
+  header.brand .agency { font-size: 20px; font-weight: 700; color: var(--primary); }
+  h1 { margin: 0 0 4px; font-size: 28px; }
+  h2 { color: var(--primary); border-bottom: 1px solid #e5e7eb; padding-bottom: 6px; margin-top: 40px; }
+  h3 { display: flex; align-items: center; justify-content: space-between; margin-bottom: 8px; }
+  a { color: var(--primary); }
+  .muted { color: #6b7280; }
+  .summary { display: flex; gap: 32px; align-items: center; }
+  .scores { display: grid; grid-template-columns: repeat(${resultCategoryIds(result).length}, 1fr); gap: 12px; margin-top: 24px; text-align: center; }
+  .scores div { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; }
+  .scores strong { display: block; font-size: 24px; }
+  .screenshot { width: 100%; max-height: 600px; object-fit: cover; object-position: top; border: 1px solid #e5e7eb; border-radius: 8px; }
+  .category { break-inside: avoid; border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px 20px; margin-bottom: 16px; }
+  .category .score { font-size: 22px; font-weight: 700; }
+  table.metrics { border-collapse: collapse; width: 100%; }
+  table.metrics th, table.metrics td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #f3f4f6; }
+  code { background: #f3f4f6; padding: 1px 4px; border-radius: 4px; font-size: 12px; }
+  .tag { display: inline-block; padding: 0 6px; border-radius: 4px; font-size: 11px; text-transform: uppercase; color: #fff; background: #6b7280; }
+  .tag.critical, .tag.high { background: #dc2626; }
+  .tag.serious, .tag.medium { background: #ea580c; }
+  .tag.moderate, .tag.low, .tag.minor { background: #ca8a04; }
+  ol.priorities li { margin-bottom: 8px; }
+  ol.priorities .category-name { color: var(--accent); font-weight: 600; }
+  footer { margin-top: 48px; padding: 16px 32px; border-top: 1px solid #e5e7eb; color: #6b7280; font-size: 12px; text-align: center; }
+  @media print {
+    main { padding: 0 16px; }
+    h2 { break-after: avoid; }
+    .screenshot { max-height: 480px; }
+  }
+</style>
+</head>
+<body>
+<header class="brand">
+  ${branding.logoUrl ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.agencyName)}" />` : ''}
+  <span class="agency">${escapeHtml(branding.agencyName)}</span>
+</header>
+<main>
+  <h1>Website Analysis Report</h1>
+  <p class="muted"><a href="${escapeHtml(result.url)}">${escapeHtml(result.url)}</a> · ${escapeHtml(date)}</p>
+
+  <h2>Executive Summary</h2>
+  <div class="summary">
+    ${gauge(overall, 160, scoreColor(overall))}
+    <p>${executiveSummary(result, findings, scoreGrade(overall, scoring.grades))}</p>
+  </div>
+  <div class="scores">
+    ${resultCategoryIds(result).map(id => `
+      <div><strong style="color: ${scoreColor(categoryScore(result, id))}">${categoryScore(result, id)}</strong>${escapeHtml(categoryLabel(result, id))}</div>
+    `).join('')}
+  </div>
+
+  ${result.screenshotUrl ? `
+  <h2>Captured Screenshot</h2>
+  <img class="screenshot" src="${escapeHtml(result.screenshotUrl)}" alt="Screenshot of ${escapeHtml(result.url)}" />` : ''}
+
+  <h2>Prioritized Recommendations</h2>
+  ${findings.length > 0 ? `
+  <ol class="priorities">
+    ${findings.slice(0, MAX_PRIORITIZED_FINDINGS).map(finding => `
+      <li>
+        <span class="tag ${finding.priority}">${finding.priority}</span>
+        <span class="category-name">${escapeHtml(categoryLabel(result, finding.category))}</span>: ${escapeHtml(finding.text)}
+        ${finding.selector ? `<code>${escapeHtml(finding.selector)}</code>` : ''}
+        ${finding.help ? `<div class="muted">${escapeHtml(finding.help)}</div>` : ''}
+      </li>`).join('')}
+  </ol>` : '<p class="muted">No recommendations</p>'}
+
+  <h2>Detailed Findings</h2>
+  ${resultCategoryIds(result).map(id => `
+    <section class="category">
+      <h3>${escapeHtml(categoryLabel(result, id))} <span class="score" style="color: ${scoreColor(categoryScore(result, id))}">${categoryScore(result, id)}</span></h3>
+      ${categoryDetails(result, id)}
+      <h4>Recommendations</h4>
+      ${list(categoryRecommendations(result, id).map(escapeHtml), 'No recommendations')}
+    </section>
+  `).join('')}
+</main>
+${branding.footerText ? `<footer>${escapeHtml(branding.footerText)}</footer>` : ''}
+</body>
+</html>`
+}
+
+// Opens the browser's print dialog for the report, where it can also be saved as a PDF
+export const printReport = (html: string) =>
+  new Promise<void>((resolve, reject) => {
+    const frame = document.createElement('iframe')
+    frame.style.position = 'fixed'
+    frame.style.width = '0'
+    frame.style.height = '0'
+    frame.style.border = '0'
+    frame.srcdoc = html
+
+    frame.onload = () => {
+      const frameWindow = frame.contentWindow
+      if (!frameWindow) {
+        frame.remove()
+        reject(new Error('Report frame failed to load'))
+        return
+      }
+      frameWindow.onafterprint = () => frame.remove()
+      frameWindow.focus()
+      frameWindow.print()
+      resolve()
+    }
+    document.body.appendChild(frame)
+  })
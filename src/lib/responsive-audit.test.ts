@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_DEVICE_PROFILES, measureScreenshotWidth } from './responsive-audit'
+
+// Stands in for the browser's Image; tests decide when and how it loads
+class FakeImage {
+  static last: FakeImage
+  naturalWidth = 0
+  src = ''
+  onload: (() => void) | null = null
+  onerror: (() => void) | null = null
+
+  constructor() {
+    FakeImage.last = this
+  }
+
+  load(width: number) {
+    this.naturalWidth = width
+    this.onload?.()
+  }
+}
+
+const [mobile] = DEFAULT_DEVICE_PROFILES
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.stubGlobal('Image', FakeImage)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('measureScreenshotWidth', () => {
+  it('converts the screenshot width to CSS pixels with the device pixel ratio', async () => {
+    const width = measureScreenshotWidth('https://cdn.example/shot.png', { ...mobile, pixelRatio: 2 })
+    FakeImage.last.load(750)
+
+    await expect(width).resolves.toBe(375)
+  })
+
+  it('gives up on an image that does not load in time', async () => {
+    const width = measureScreenshotWidth('https://cdn.example/shot.png', mobile)
+    await vi.advanceTimersByTimeAsync(15000)
+
+    await expect(width).resolves.toBeUndefined()
+    expect(FakeImage.last.src).toBe('')
+  })
+
+  it('rejects when the analysis is canceled', async () => {
+    const controller = new AbortController()
+    const width = measureScreenshotWidth('https://cdn.example/shot.png', mobile, controller.signal)
+    controller.abort(new Error('Canceled'))
+
+    await expect(width).rejects.toThrow('Canceled')
+    expect(vi.getTimerCount()).toBe(0)
+  })
+})
@@ -0,0 +1,178 @@
+import { parseHtml, selectorOf } from './html'
+import type { DeviceCheck, DeviceProfile, DeviceResult } from '../types/analysis'
+
+export const DEFAULT_DEVICE_PROFILES: DeviceProfile[] = [
+  { id: 'mobile', label: 'Mobile', width: 375, height: 812, touch: true, pixelRatio: 1 },
+  { id: 'tablet', label: 'Tablet', width: 768, height: 1024, touch: true, pixelRatio: 1 },
+  { id: 'desktop', label: 'Desktop', width: 1440, height: 900, touch: false, pixelRatio: 1 }
+]
+
+// WCAG 2.5.8 minimum target size in CSS pixels
+const MIN_TAP_TARGET = 24
+const MAX_CHECKS_PER_TYPE = 5
+const MEASURE_TIMEOUT_MS = 15000
+
+const PENALTIES: Record<DeviceCheck['type'], { each: number; max: number }> = {
+  'horizontal-overflow': { each: 10, max: 30 },
+  'viewport-meta': { each: 20, max: 40 },
+  'tap-target': { each: 5, max: 25 }
+}
+
+const TAP_TARGET_SELECTOR = [
+  'a[href]',
+  'button',
+  'select',
+  'input[type="button"]',
+  'input[type="submit"]',
+  'input[type="reset"]',
+  'input[type="checkbox"]',
+  'input[type="radio"]',
+  'input[type="image"]',
+  '[role="button"]'
+].join(', ')
+
+const pixelsOf = (value: string | null | undefined) => {
+  const match = value ? /^\s*(\d+(?:\.\d+)?)(px)?\s*$/i.exec(value) : null
+  return match ? Number(match[1]) : null
+}
+
+const styleDimension = (element: Element, property: string) => {
+  const pattern = new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`, 'i')
+  return pixelsOf(pattern.exec(element.getAttribute('style') ?? '')?.[1])
+}
+
+const declaredWidth = (element: Element) =>
+  styleDimension(element, 'min-width') ?? styleDimension(element, 'width') ?? pixelsOf(element.getAttribute('width'))
+
+const declaredHeight = (element: Element) =>
+  styleDimension(element, 'min-height') ?? styleDimension(element, 'height') ?? pixelsOf(element.getAttribute('height'))
+
+const viewportChecks = (doc: Document, device: DeviceProfile): DeviceCheck[] => {
+  if (!device.touch) return []
+
+  const viewport = doc.querySelector('meta[name="viewport" i]')
+  const content = viewport?.getAttribute('content')?.toLowerCase().replace(/\s/g, '') ?? ''
+  if (!viewport) {
+    return [{ type: 'viewport-meta', message: `No viewport meta tag, so the page renders at desktop width and is scaled down to ${device.width}px` }]
+  }
+
+  const checks: DeviceCheck[] = []
+  const width = /(?:^|,)width=([^,]+)/.exec(content)?.[1]
+  if (width !== 'device-width') {
+    checks.push({
+      type: 'viewport-meta',
+      message: width ? `Viewport width is fixed to ${width} instead of device-width` : 'Viewport meta tag does not set width=device-width',
+      selector: 'meta[name="viewport"]'
+    })
+  }
+  const maximumScale = /maximum-scale=([\d.]+)/.exec(content)
+  if (content.includes('user-scalable=no') || (maximumScale && Number(maximumScale[1]) < 2)) {
+    checks.push({ type: 'viewport-meta', message: 'Viewport meta tag prevents pinch zoom', selector: 'meta[name="viewport"]' })
+  }
+  return checks
+}
+
+const overflowChecks = (doc: Document, device: DeviceProfile, pageWidth?: number): DeviceCheck[] => {
+  const checks: DeviceCheck[] = []
+
+  if (pageWidth !== undefined && pageWidth > device.width) {
+    checks.push({
+      type: 'horizontal-overflow',
+      message: `Page renders ${pageWidth}px wide on a ${device.width}px viewport and scrolls horizontally`
+    })
+  }
+
+  const wideElements = Array.from(doc.body?.querySelectorAll('*') ?? [])
+    .filter(element => (declaredWidth(element) ?? 0) > device.width)
+    .slice(0, MAX_CHECKS_PER_TYPE)
+  checks.push(...wideElements.map((element): DeviceCheck => ({
+    type: 'horizontal-overflow',
+    message: `<${element.tagName.toLowerCase()}> is fixed at ${declaredWidth(element)}px, wider than the ${device.width}px viewport`,
+    selector: selectorOf(element)
+  })))
+
+  return checks
+}
+
+const tapTargetChecks = (doc: Document, device: DeviceProfile): DeviceCheck[] => {
+  if (!device.touch) return []
+
+  return Array.from(doc.querySelectorAll(TAP_TARGET_SELECTOR))
+    .filter(element => {
+      const width = declaredWidth(element)
+      const height = declaredHeight(element)
+      return (width !== null && width < MIN_TAP_TARGET) || (height !== null && height < MIN_TAP_TARGET)
+    })
+    .slice(0, MAX_CHECKS_PER_TYPE)
+    .map((element): DeviceCheck => ({
+      type: 'tap-target',
+      message: `<${element.tagName.toLowerCase()}> is smaller than the ${MIN_TAP_TARGET}x${MIN_TAP_TARGET}px minimum tap target`,
+      selector: selectorOf(element)
+    }))
+}
+
+const scoreChecks = (checks: DeviceCheck[]) => {
+  const penalty = (Object.keys(PENALTIES) as DeviceCheck['type'][]).reduce((total, type) => {
+    const count = checks.filter(check => check.type === type).length
+    return total + Math.min(count * PENALTIES[type].each, PENALTIES[type].max)
+  }, 0)
+  return Math.max(0, 100 - penalty)
+}
+
+// Sizes are only known where the markup declares them, so computed-style problems can go unreported
+export const auditDevice = (
+  html: string,
+  device: DeviceProfile,
+  { screenshotUrl, pageWidth }: { screenshotUrl?: string; pageWidth?: number } = {}
+): DeviceResult => {
+  const doc = parseHtml(html)
+  const checks = [
+    ...viewportChecks(doc, device),
+    ...overflowChecks(doc, device, pageWidth),
+    ...tapTargetChecks(doc, device)
+  ]
+  return { device, screenshotUrl, pageWidth, checks, score: scoreChecks(checks) }
+}
+
+// Touch devices weigh double because that is where responsive problems hurt most
+export const responsivenessScore = (results: DeviceResult[]) => {
+  const weighted = results.map(result => ({ score: result.score, weight: result.device.touch ? 2 : 1 }))
+  const totalWeight = weighted.reduce((sum, item) => sum + item.weight, 0)
+  if (totalWeight === 0) return null
+  return Math.round(weighted.reduce((sum, item) => sum + item.score * item.weight, 0) / totalWeight)
+}
+
+// Full-page screenshots are as wide as the rendered document, which exposes horizontal overflow.
+// The width is in CSS pixels, undefined when the image doesn't load in time.
+export const measureScreenshotWidth = (screenshotUrl: string, device: DeviceProfile, signal?: AbortSignal) =>
+  new Promise<number | undefined>((resolve, reject) => {
+    signal?.throwIfAborted()
+
+    const image = new Image()
+    const cleanup = () => {
+      clearTimeout(timeout)
+      signal?.removeEventListener('abort', onAbort)
+      image.onload = image.onerror = null
+    }
+    const onAbort = () => {
+      cleanup()
+      image.src = ''
+      reject(signal?.reason)
+    }
+    const timeout = setTimeout(() => {
+      cleanup()
+      image.src = ''
+      resolve(undefined)
+    }, MEASURE_TIMEOUT_MS)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+    image.onload = () => {
+      cleanup()
+      resolve(image.naturalWidth ? Math.round(image.naturalWidth / (device.pixelRatio ?? 1)) : undefined)
+    }
+    image.onerror = () => {
+      cleanup()
+      resolve(undefined)
+    }
+    image.src = screenshotUrl
+  })
@@ -0,0 +1,44 @@
+import { SHARE_PATH_PREFIX } from './blink'
+
+export type AppView = 'analyze' | 'history' | 'bulk' | 'benchmarks' | 'monitors'
+
+export const ROUTES = {
+  analyze: '/',
+  history: '/history',
+  bulk: '/bulk',
+  benchmarks: '/benchmarks',
+  monitors: '/monitors',
+  // The analysis settings dialog, opened over the analyze view
+  settings: '/settings',
+  analysis: '/analyses/:id/:category?',
+  compare: '/compare/:a/:b',
+  share: `${SHARE_PATH_PREFIX}:token`
+} as const
+
+// Every path the signed-in app handles; anything else redirects to the analyze view
+export const APP_PATHS = [
+  ROUTES.analyze,
+  ROUTES.history,
+  ROUTES.bulk,
+  ROUTES.benchmarks,
+  ROUTES.monitors,
+  ROUTES.settings,
+  ROUTES.analysis,
+  ROUTES.compare
+]
+
+const VIEW_PATHS: Record<string, AppView> = {
+  [ROUTES.history]: 'history',
+  [ROUTES.bulk]: 'bulk',
+  [ROUTES.benchmarks]: 'benchmarks',
+  [ROUTES.monitors]: 'monitors'
+}
+
+// Analyses, comparisons and settings all render inside the analyze view
+export const viewForPath = (pathname: string): AppView => VIEW_PATHS[pathname] ?? 'analyze'
+
+// Analysis ids and category ids are generated and URL-safe, so they go into paths as they are
+export const analysisPath = (id: string, category?: string) =>
+  category ? `/analyses/${id}/${category}` : `/analyses/${id}`
+
+export const comparePath = (beforeId: string, afterId: string) => `/compare/${beforeId}/${afterId}`
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest'
+import { DEFAULT_SCORING, MAX_CATEGORY_WEIGHT, overallScore, scoreGrade, validateScoring } from './scoring'
+import { emptyCategory } from './categories'
+import { analysisResult, analysisSettings } from '../test/fixtures'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+// SEO at 90 and UX at 60, the only analyzed categories
+const result = (weights?: Record<string, number>) => analysisResult({
+  settings: analysisSettings(['seo', 'ux']),
+  seo: { ...emptyCategory('seo'), score: 90 },
+  ux: { ...emptyCategory('ux'), score: 60 },
+  weights
+})
+
+describe('overallScore', () => {
+  it('averages the analyzed categories when the result has no weights', () => {
+    expect(overallScore(result())).toBe(75)
+  })
+
+  it('weighs categories relative to each other, whatever the weights add up to', () => {
+    expect(overallScore(result({ seo: 3, ux: 1 }))).toBe(83)
+    expect(overallScore(result({ seo: 30, ux: 10 }))).toBe(83)
+  })
+
+  it('counts a category without a weight once and falls back to the average when every weight is 0', () => {
+    expect(overallScore(result({ seo: 2 }))).toBe(80)
+    expect(overallScore(result({ seo: 0, ux: 0 }))).toBe(75)
+  })
+
+  it('is 0 when no category was analyzed', () => {
+    expect(overallScore(analysisResult({ settings: analysisSettings([]) }))).toBe(0)
+  })
+})
+
+describe('validateScoring', () => {
+  it('accepts the defaults and weights that do not add up to any particular total', () => {
+    expect(validateScoring(DEFAULT_SCORING)).toEqual([])
+    expect(validateScoring({ ...DEFAULT_SCORING, weights: { seo: 7, ux: 0.5 } })).toEqual([])
+  })
+
+  it('rejects weights outside the allowed range', () => {
+    expect(validateScoring({ ...DEFAULT_SCORING, weights: { seo: -1 } })).toEqual([`Weights must be between 0 and ${MAX_CATEGORY_WEIGHT}`])
+    expect(validateScoring({ ...DEFAULT_SCORING, weights: { seo: MAX_CATEGORY_WEIGHT + 1 } })).toHaveLength(1)
+  })
+
+  it.each([
+    { good: 60, fair: 60 },
+    { good: 101, fair: 60 },
+    { good: 80, fair: -1 }
+  ])('rejects thresholds good $good and fair $fair', thresholds => {
+    expect(validateScoring({ ...DEFAULT_SCORING, thresholds })).toEqual(['Thresholds must satisfy 0 ≤ fair < good ≤ 100'])
+  })
+
+  it('rejects grades that are not in descending order', () => {
+    const grades = [{ grade: 'A', min: 90 }, { grade: 'B', min: 90 }, { grade: 'F', min: 0 }]
+
+    expect(validateScoring({ ...DEFAULT_SCORING, grades })).toEqual(['Each grade needs a lower minimum than the grade above it'])
+  })
+})
+
+describe('scoreGrade', () => {
+  it.each([
+    [100, 'A'],
+    [90, 'A'],
+    [89, 'B'],
+    [80, 'B'],
+    [79, 'C'],
+    [60, 'D'],
+    [59, 'F'],
+    [0, 'F']
+  ])('grades %i as %s', (score, grade) => {
+    expect(scoreGrade(score, DEFAULT_SCORING.grades)).toBe(grade)
+  })
+
+  it('falls back to the lowest grade when no band starts at 0', () => {
+    expect(scoreGrade(10, [{ grade: 'Pass', min: 50 }, { grade: 'Fail', min: 20 }])).toBe('Fail')
+  })
+})
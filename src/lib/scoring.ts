@@ -0,0 +1,138 @@
+import { blink } from './blink'
+import { categoryScore, resultCategoryIds } from './categories'
+import type { AnalysisResult } from '../types/analysis'
+
+export type ScoreBand = 'good' | 'fair' | 'poor'
+
+export interface ScoreThresholds {
+  // Lowest score that counts as good; scores from fair up to good are fair, below fair are poor
+  good: number
+  fair: number
+}
+
+export interface GradeBand {
+  grade: string
+  min: number
+}
+
+export interface ScoringConfig {
+  // Relative weight per category id; categories without an entry weigh 1
+  weights: Record<string, number>
+  thresholds: ScoreThresholds
+  // Highest band first
+  grades: GradeBand[]
+}
+
+export interface ScoringConfigRecord {
+  // One scoring row per workspace, keyed by the workspace id
+  id: string
+  weights: string
+  thresholds: string
+  grades: string
+  updatedAt: string
+}
+
+export const MAX_CATEGORY_WEIGHT = 10
+
+export const DEFAULT_SCORING: ScoringConfig = {
+  weights: {},
+  thresholds: { good: 80, fair: 60 },
+  grades: [
+    { grade: 'A', min: 90 },
+    { grade: 'B', min: 80 },
+    { grade: 'C', min: 70 },
+    { grade: 'D', min: 60 },
+    { grade: 'F', min: 0 }
+  ]
+}
+
+export const weightOf = (weights: Record<string, number>, id: string) => weights[id] ?? 1
+
+// The weights to record on a result covering the given categories
+export const weightsFor = (config: ScoringConfig, categoryIds: string[]) =>
+  Object.fromEntries(categoryIds.map(id => [id, weightOf(config.weights, id)]))
+
+// Uses the weights recorded on the result, so historic scores don't move when the workspace weights change
+export const overallScore = (result: AnalysisResult) => {
+  const ids = resultCategoryIds(result)
+  if (ids.length === 0) return 0
+
+  const weights = result.weights ?? {}
+  const totalWeight = ids.reduce((sum, id) => sum + weightOf(weights, id), 0)
+  if (totalWeight === 0) {
+    return Math.round(ids.reduce((sum, id) => sum + categoryScore(result, id), 0) / ids.length)
+  }
+  return Math.round(ids.reduce((sum, id) => sum + categoryScore(result, id) * weightOf(weights, id), 0) / totalWeight)
+}
+
+export const scoreBand = (score: number, thresholds: ScoreThresholds): ScoreBand => {
+  if (score >= thresholds.good) return 'good'
+  if (score >= thresholds.fair) return 'fair'
+  return 'poor'
+}
+
+export type ScoreBadgeVariant = 'default' | 'secondary' | 'destructive'
+
+const BAND_TEXT_CLASSES: Record<ScoreBand, string> = {
+  good: 'text-green-600',
+  fair: 'text-yellow-600',
+  poor: 'text-red-600'
+}
+
+const BAND_BADGE_VARIANTS: Record<ScoreBand, ScoreBadgeVariant> = {
+  good: 'default',
+  fair: 'secondary',
+  poor: 'destructive'
+}
+
+// How a score is colored in the app and in shared reports
+export const scoreColorClass = (score: number, thresholds: ScoreThresholds) =>
+  BAND_TEXT_CLASSES[scoreBand(score, thresholds)]
+
+export const scoreBadgeVariant = (score: number, thresholds: ScoreThresholds) =>
+  BAND_BADGE_VARIANTS[scoreBand(score, thresholds)]
+
+export const scoreGrade = (score: number, grades: GradeBand[]) =>
+  grades.find(band => score >= band.min)?.grade ?? grades[grades.length - 1]?.grade ?? ''
+
+// Problems that would make the config unusable, empty when it is valid
+export const validateScoring = (config: ScoringConfig) => {
+  const errors: string[] = []
+  const { good, fair } = config.thresholds
+  if (!(fair >= 0 && good <= 100 && fair < good)) {
+    errors.push('Thresholds must satisfy 0 ≤ fair < good ≤ 100')
+  }
+  if (Object.values(config.weights).some(weight => weight < 0 || weight > MAX_CATEGORY_WEIGHT)) {
+    errors.push(`Weights must be between 0 and ${MAX_CATEGORY_WEIGHT}`)
+  }
+  if (config.grades.some((band, index) => index > 0 && band.min >= config.grades[index - 1].min)) {
+    errors.push('Each grade needs a lower minimum than the grade above it')
+  }
+  return errors
+}
+
+const scoringTable = () => blink.db.table<ScoringConfigRecord>('scoringConfigs')
+
+// Also applied to the row the shared report function returns
+export const parseScoringConfig = (record: Pick<ScoringConfigRecord, 'weights' | 'thresholds' | 'grades'> | null): ScoringConfig => {
+  if (!record) return DEFAULT_SCORING
+
+  return {
+    weights: JSON.parse(record.weights || '{}'),
+    thresholds: { ...DEFAULT_SCORING.thresholds, ...JSON.parse(record.thresholds || '{}') },
+    grades: record.grades ? JSON.parse(record.grades) : DEFAULT_SCORING.grades
+  }
+}
+
+export const getScoringConfig = async (workspaceId: string): Promise<ScoringConfig> =>
+  parseScoringConfig(await scoringTable().get(workspaceId))
+
+export const saveScoringConfig = async (workspaceId: string, config: ScoringConfig) => {
+  await scoringTable().upsert({
+    id: workspaceId,
+    weights: JSON.stringify(config.weights),
+    thresholds: JSON.stringify(config.thresholds),
+    grades: JSON.stringify(config.grades),
+    updatedAt: new Date().toISOString()
+  })
+}
@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { auditSeo, type SeoAudit } from './seo-audit'
+
+const HEAD: Record<string, string> = {
+  title: '<title>Acme Widgets – Handmade widgets for every home</title>',
+  description: '<meta name="description" content="Acme makes handmade widgets for kitchens, gardens and offices, shipped free anywhere in the country.">',
+  canonical: '<link rel="canonical" href="/widgets">',
+  openGraph: '<meta property="og:title" content="Acme"><meta property="og:description" content="Widgets"><meta property="og:image" content="/og.png">',
+  twitter: '<meta name="twitter:card" content="summary">',
+  structuredData: '<script type="application/ld+json">{"@type": "Organization"}</script>'
+}
+
+const BODY = '<h1>Widgets</h1><h2>Kitchen</h2><img src="/widget.png" alt="A widget">'
+
+// A page that passes every rule, with head entries replaced, removed ('') or added
+const page = (head: Record<string, string> = {}, body = BODY) =>
+  `<html><head>${Object.values({ ...HEAD, ...head }).join('')}</head><body>${body}</body></html>`
+
+const audit = (html: string) => auditSeo(html, 'https://example.com/widgets')
+
+const ruleIds = ({ issues }: SeoAudit) => issues.map(issue => issue.ruleId)
+
+describe('auditSeo', () => {
+  it('finds nothing on a page that follows every rule', () => {
+    expect(audit(page())).toEqual({ score: 100, issues: [] })
+  })
+
+  it.each([
+    ['title-missing', page({ title: '' })],
+    ['title-length', page({ title: '<title>Widgets</title>' })],
+    ['meta-description-missing', page({ description: '' })],
+    ['meta-description-length', page({ description: '<meta name="description" content="Widgets">' })],
+    ['canonical', page({ canonical: '' })],
+    ['canonical', page({ canonical: '<link rel="canonical" href="/a"><link rel="canonical" href="/b">' })],
+    ['canonical', page({ canonical: '<link rel="canonical" href="https://[invalid">' })],
+    ['hreflang', page({ hreflang: '<link rel="alternate" hreflang="en" href="/en">' })],
+    ['robots-noindex', page({ robots: '<meta name="robots" content="noindex, follow">' })],
+    ['h1-missing', page({}, '<h2>Kitchen</h2>')],
+    ['h1-duplicate', page({}, '<h1>Widgets</h1><h1>More widgets</h1>')],
+    ['heading-hierarchy', page({}, '<h1>Widgets</h1><h3>Kitchen</h3>')],
+    ['img-alt', page({}, '<h1>Widgets</h1><img src="/a.png"><img src="/b.png">')],
+    ['open-graph', page({ openGraph: '<meta property="og:title" content="Acme">' })],
+    ['twitter-card', page({ twitter: '' })],
+    ['structured-data', page({ structuredData: '' })],
+    ['structured-data', page({ structuredData: '<script type="application/ld+json">{"@type": </script>' })]
+  ])('reports %s', (ruleId, html) => {
+    expect(ruleIds(audit(html))).toEqual([ruleId])
+  })
+
+  it('rejects invalid hreflang values', () => {
+    const { issues } = audit(page({
+      hreflang: '<link rel="alternate" hreflang="english" href="/en"><link rel="alternate" hreflang="x-default" href="/">'
+    }))
+
+    expect(issues).toMatchObject([{ ruleId: 'hreflang', type: 'error', message: 'Invalid hreflang value "english"' }])
+  })
+
+  it('matches Open Graph and Twitter tags regardless of case', () => {
+    const { issues } = audit(page({
+      openGraph: '<meta property="OG:Title" content="Acme"><meta property="OG:DESCRIPTION" content="Widgets"><meta property="og:Image" content="/og.png">',
+      twitter: '<meta name="Twitter:Card" content="summary">'
+    }))
+
+    expect(issues).toEqual([])
+  })
+
+  it('deducts each finding by impact and leaves info findings out of the score', () => {
+    // title-missing and h1-missing are high impact, img-alt medium, twitter-card info
+    const result = audit(page({ title: '', twitter: '' }, '<img src="/a.png">'))
+
+    expect(ruleIds(result)).toEqual(['title-missing', 'h1-missing', 'img-alt', 'twitter-card'])
+    expect(result.score).toBe(100 - 15 - 15 - 8)
+  })
+
+  it('does not score below zero', () => {
+    const invalid = '<script type="application/ld+json">{</script>'.repeat(13)
+
+    expect(audit(page({ structuredData: invalid })).score).toBe(0)
+  })
+})
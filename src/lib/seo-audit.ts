@@ -0,0 +1,238 @@
+import type { SeoIssue } from '../types/analysis'
+import { parseHtml, snippetOf } from './html'
+
+interface SeoRuleContext {
+  doc: Document
+  pageUrl: string
+}
+
+interface SeoRule {
+  id: string
+  check: (ctx: SeoRuleContext) => Omit<SeoIssue, 'ruleId'>[]
+}
+
+export interface SeoAudit {
+  score: number
+  issues: SeoIssue[]
+}
+
+const TITLE_MIN_LENGTH = 30
+const TITLE_MAX_LENGTH = 60
+const DESCRIPTION_MIN_LENGTH = 70
+const DESCRIPTION_MAX_LENGTH = 160
+
+// Points deducted from 100 per finding; info findings are advisory only
+const IMPACT_PENALTY: Record<SeoIssue['impact'], number> = {
+  high: 15,
+  medium: 8,
+  low: 3
+}
+
+const metaContent = (doc: Document, selector: string) =>
+  doc.querySelector(selector)?.getAttribute('content')?.trim() ?? ''
+
+const seoRules: SeoRule[] = [
+  {
+    id: 'title-missing',
+    check: ({ doc }) => doc.querySelector('title')?.textContent?.trim()
+      ? []
+      : [{ type: 'error', impact: 'high', message: 'Page has no <title> element' }]
+  },
+  {
+    id: 'title-length',
+    check: ({ doc }) => {
+      const title = doc.querySelector('title')
+      const length = title?.textContent?.trim().length ?? 0
+      if (!length || (length >= TITLE_MIN_LENGTH && length <= TITLE_MAX_LENGTH)) return []
+      return [{
+        type: 'warning',
+        impact: 'medium',
+        message: `Title is ${length} characters; aim for ${TITLE_MIN_LENGTH}–${TITLE_MAX_LENGTH}`,
+        evidence: snippetOf(title)
+      }]
+    }
+  },
+  {
+    id: 'meta-description-missing',
+    check: ({ doc }) => metaContent(doc, 'meta[name="description" i]')
+      ? []
+      : [{ type: 'error', impact: 'high', message: 'Page has no meta description' }]
+  },
+  {
+    id: 'meta-description-length',
+    check: ({ doc }) => {
+      const meta = doc.querySelector('meta[name="description" i]')
+      const length = meta?.getAttribute('content')?.trim().length ?? 0
+      if (!length || (length >= DESCRIPTION_MIN_LENGTH && length <= DESCRIPTION_MAX_LENGTH)) return []
+      return [{
+        type: 'warning',
+        impact: 'low',
+        message: `Meta description is ${length} characters; aim for ${DESCRIPTION_MIN_LENGTH}–${DESCRIPTION_MAX_LENGTH}`,
+        evidence: snippetOf(meta)
+      }]
+    }
+  },
+  {
+    id: 'canonical',
+    check: ({ doc, pageUrl }) => {
+      const links = Array.from(doc.querySelectorAll('link[rel~="canonical" i]'))
+      if (links.length === 0) {
+        return [{ type: 'warning', impact: 'medium', message: 'No canonical URL declared' }]
+      }
+      if (links.length > 1) {
+        return [{
+          type: 'error',
+          impact: 'high',
+          message: `${links.length} canonical links found; search engines may ignore all of them`,
+          evidence: snippetOf(links[1])
+        }]
+      }
+      const href = links[0].getAttribute('href') ?? ''
+      try {
+        new URL(href, pageUrl)
+        return []
+      } catch {
+        return [{ type: 'error', impact: 'high', message: 'Canonical URL is not a valid URL', evidence: snippetOf(links[0]) }]
+      }
+    }
+  },
+  {
+    id: 'hreflang',
+    check: ({ doc }) => {
+      const alternates = Array.from(doc.querySelectorAll('link[rel~="alternate" i][hreflang]'))
+      if (alternates.length === 0) return []
+      const findings: Omit<SeoIssue, 'ruleId'>[] = alternates
+        .filter(link => !/^(x-default|[a-z]{2,3}(-[a-z0-9]{2,4})?)$/i.test(link.getAttribute('hreflang') ?? ''))
+        .map(link => ({
+          type: 'error',
+          impact: 'medium',
+          message: `Invalid hreflang value "${link.getAttribute('hreflang')}"`,
+          evidence: snippetOf(link)
+        }))
+      if (!alternates.some(link => link.getAttribute('hreflang')?.toLowerCase() === 'x-default')) {
+        findings.push({ type: 'info', impact: 'low', message: 'hreflang set has no x-default entry' })
+      }
+      return findings
+    }
+  },
+  {
+    id: 'robots-noindex',
+    check: ({ doc }) => {
+      const robots = doc.querySelector('meta[name="robots" i]')
+      const content = robots?.getAttribute('content')?.toLowerCase() ?? ''
+      if (!/\b(noindex|none)\b/.test(content)) return []
+      return [{
+        type: 'error',
+        impact: 'high',
+        message: 'Robots meta tag prevents this page from being indexed',
+        evidence: snippetOf(robots)
+      }]
+    }
+  },
+  {
+    id: 'h1-missing',
+    check: ({ doc }) => doc.querySelector('h1')
+      ? []
+      : [{ type: 'error', impact: 'high', message: 'Page has no <h1> heading' }]
+  },
+  {
+    id: 'h1-duplicate',
+    check: ({ doc }) => {
+      const headings = Array.from(doc.querySelectorAll('h1'))
+      if (headings.length <= 1) return []
+      return [{
+        type: 'warning',
+        impact: 'medium',
+        message: `Page has ${headings.length} <h1> headings; use a single primary heading`,
+        evidence: snippetOf(headings[1])
+      }]
+    }
+  },
+  {
+    id: 'heading-hierarchy',
+    check: ({ doc }) => {
+      const headings = Array.from(doc.querySelectorAll('h1, h2, h3, h4, h5, h6'))
+      let previousLevel = 0
+      for (const heading of headings) {
+        const level = Number(heading.tagName.substring(1))
+        if (previousLevel && level > previousLevel + 1) {
+          return [{
+            type: 'warning',
+            impact: 'low',
+            message: `Heading level skips from h${previousLevel} to h${level}`,
+            evidence: snippetOf(heading)
+          }]
+        }
+        previousLevel = level
+      }
+      return []
+    }
+  },
+  {
+    id: 'img-alt',
+    check: ({ doc }) => {
+      const images = Array.from(doc.querySelectorAll('img:not([alt])'))
+      if (images.length === 0) return []
+      return [{
+        type: 'warning',
+        impact: 'medium',
+        message: `${images.length} image${images.length === 1 ? ' is' : 's are'} missing alt text`,
+        evidence: snippetOf(images[0])
+      }]
+    }
+  },
+  {
+    id: 'open-graph',
+    check: ({ doc }) => {
+      const missing = ['og:title', 'og:description', 'og:image']
+        .filter(property => !metaContent(doc, `meta[property="${property}" i]`))
+      if (missing.length === 0) return []
+      return [{ type: 'warning', impact: 'low', message: `Missing Open Graph tags: ${missing.join(', ')}` }]
+    }
+  },
+  {
+    id: 'twitter-card',
+    check: ({ doc }) => metaContent(doc, 'meta[name="twitter:card" i]')
+      ? []
+      : [{ type: 'info', impact: 'low', message: 'No Twitter card meta tag declared' }]
+  },
+  {
+    id: 'structured-data',
+    check: ({ doc }) => {
+      const scripts = Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))
+      if (scripts.length === 0 && !doc.querySelector('[itemscope]')) {
+        return [{ type: 'info', impact: 'low', message: 'No structured data (JSON-LD or microdata) found' }]
+      }
+      return scripts
+        .filter(script => {
+          try {
+            JSON.parse(script.textContent ?? '')
+            return false
+          } catch {
+            return true
+          }
+        })
+        .map(script => ({
+          type: 'error',
+          impact: 'medium',
+          message: 'JSON-LD block contains invalid JSON',
+          evidence: snippetOf(script)
+        }))
+    }
+  }
+]
+
+export const auditSeo = (html: string, pageUrl: string): SeoAudit => {
+  const doc = parseHtml(html)
+  const issues = seoRules.flatMap(rule =>
+    rule.check({ doc, pageUrl }).map(issue => ({ ruleId: rule.id, ...issue }))
+  )
+  const penalty = issues
+    .filter(issue => issue.type !== 'info')
+    .reduce((acc, issue) => acc + IMPACT_PENALTY[issue.impact], 0)
+
+  return {
+    score: Math.max(0, 100 - penalty),
+    issues
+  }
+}
@@ -0,0 +1,161 @@
+import { categoryLabel, categoryScore, resultCategoryIds } from './categories'
+import { overallScore, scoreGrade, type GradeBand } from './scoring'
+import { collectFindings, type Finding, type FindingPriority } from './findings'
+import { hostnameOf } from './url'
+import { toCsv } from './csv'
+import type { AnalysisResult } from '../types/analysis'
+
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'sarif'
+
+export interface ReportSerializer {
+  label: string
+  extension: string
+  mimeType: string
+  serialize: (result: AnalysisResult) => string
+}
+
+const toJson = (result: AnalysisResult) => JSON.stringify({
+  url: result.url,
+  timestamp: new Date(result.timestamp).toISOString(),
+  scores: {
+    ...Object.fromEntries(resultCategoryIds(result).map(id => [id, categoryScore(result, id)])),
+    overall: overallScore(result)
+  },
+  analysis: result
+}, null, 2)
+
+const CSV_COLUMNS = ['category', 'kind', 'priority', 'severity', 'impact', 'rule_id', 'selector', 'message', 'help']
+
+const toFindingsCsv = (result: AnalysisResult) => {
+  const rows = collectFindings(result).map(finding => [
+    categoryLabel(result, finding.category),
+    finding.kind,
+    finding.priority,
+    finding.severity,
+    finding.impact,
+    finding.ruleId,
+    finding.selector,
+    finding.text,
+    finding.help
+  ])
+  return toCsv([CSV_COLUMNS, ...rows])
+}
+
+const markdownInline = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')
+
+const markdownFinding = (finding: Finding) => {
+  const rule = finding.ruleId ? ` \`${finding.ruleId}\`` : ''
+  const selector = finding.selector ? ` at \`${finding.selector.replace(/`/g, "'")}\`` : ''
+  const help = finding.help ? ` — ${markdownInline(finding.help)}` : ''
+  return `- [ ] **${finding.priority}**${rule} ${markdownInline(finding.text)}${selector}${help}`
+}
+
+const toMarkdown = (result: AnalysisResult) => {
+  const findings = collectFindings(result)
+  const lines = [
+    `# Website analysis: ${hostnameOf(result.url)}`,
+    '',
+    `URL: ${result.url}  `,
+    `Analyzed: ${new Date(result.timestamp).toISOString()}  `,
+    `Overall score: **${overallScore(result)}/100**`,
+    '',
+    '| Category | Score |',
+    '| --- | --- |',
+    ...resultCategoryIds(result).map(id => `| ${markdownInline(categoryLabel(result, id))} | ${categoryScore(result, id)} |`)
+  ]
+
+  for (const key of resultCategoryIds(result)) {
+    const categoryFindings = findings.filter(finding => finding.category === key)
+    const audited = categoryFindings.filter(finding => finding.kind !== 'recommendation')
+    const recommendations = categoryFindings.filter(finding => finding.kind === 'recommendation')
+
+    lines.push('', `## ${categoryLabel(result, key)} (${categoryScore(result, key)}/100)`)
+    if (audited.length > 0) {
+      lines.push('', `### ${key === 'accessibility' ? 'Violations' : 'Issues'}`, '', ...audited.map(markdownFinding))
+    }
+    if (recommendations.length > 0) {
+      lines.push('', '### Recommendations', '', ...recommendations.map(markdownFinding))
+    }
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+const SARIF_LEVELS: Record<FindingPriority, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note'
+}
+
+// Only audited SEO issues and accessibility violations are reported; AI recommendations aren't rule results
+const toSarif = (result: AnalysisResult) => {
+  const findings = collectFindings(result).filter(finding => finding.kind !== 'recommendation')
+  const ruleIdOf = (finding: Finding) => `${finding.category}/${finding.ruleId ?? 'finding'}`
+  const rules = [...new Map(findings.map(finding => [ruleIdOf(finding), finding])).entries()].map(([id, finding]) => ({
+    id,
+    name: finding.ruleId ?? finding.category,
+    shortDescription: { text: finding.text },
+    ...(finding.help && { help: { text: finding.help } }),
+    properties: {
+      category: categoryLabel(result, finding.category),
+      tags: [finding.category, ...(finding.wcag ?? []).map(criterion => `wcag${criterion}`)]
+    }
+  }))
+
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'AI Website Analyzer',
+          rules
+        }
+      },
+      results: findings.map(finding => ({
+        ruleId: ruleIdOf(finding),
+        ruleIndex: rules.findIndex(rule => rule.id === ruleIdOf(finding)),
+        level: SARIF_LEVELS[finding.priority],
+        message: { text: finding.text },
+        locations: [{
+          physicalLocation: { artifactLocation: { uri: result.url } },
+          ...(finding.selector && {
+            logicalLocations: [{ fullyQualifiedName: finding.selector, kind: 'element' }]
+          })
+        }],
+        properties: {
+          priority: finding.priority,
+          ...(finding.severity && { severity: finding.severity }),
+          ...(finding.impact && { impact: finding.impact })
+        }
+      })),
+      invocations: [{
+        executionSuccessful: true,
+        endTimeUtc: new Date(result.timestamp).toISOString()
+      }]
+    }]
+  }, null, 2)
+}
+
+export const serializers: Record<ExportFormat, ReportSerializer> = {
+  json: { label: 'Raw data (JSON)', extension: 'json', mimeType: 'application/json', serialize: toJson },
+  csv: { label: 'Findings (CSV)', extension: 'csv', mimeType: 'text/csv', serialize: toFindingsCsv },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown', serialize: toMarkdown },
+  sarif: { label: 'Code scanning (SARIF)', extension: 'sarif', mimeType: 'application/sarif+json', serialize: toSarif }
+}
+
+// One row per analysis with its overall and category scores, for exporting several analyses at once
+export const analysesSummaryCsv = (results: AnalysisResult[], grades: GradeBand[]) => {
+  const ids = [...new Set(results.flatMap(resultCategoryIds))]
+  const labels = ids.map(id => categoryLabel(results.find(result => resultCategoryIds(result).includes(id))!, id))
+  const rows = results.map(result => [
+    result.url,
+    new Date(result.timestamp).toISOString(),
+    overallScore(result),
+    scoreGrade(overallScore(result), grades),
+    ...ids.map(id => resultCategoryIds(result).includes(id) ? categoryScore(result, id) : undefined),
+    result.id
+  ])
+  return toCsv([['url', 'analyzed_at', 'overall', 'grade', ...labels, 'analysis_id'], ...rows])
+}
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createShare, openSharedReport } from './shares'
+import { pbkdf2 } from './hash'
+import { blink } from '../test/blink'
+import { DEFAULT_BRANDING } from './report-branding'
+import { DEFAULT_SCORING } from './scoring'
+import { emptyCategory } from './categories'
+import { analysisResult } from '../test/fixtures'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+const respondWith = (body: unknown, status = 200) => {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status }))
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('openSharedReport', () => {
+  it('asks the edge function to check the link and passes its verdict on', async () => {
+    const fetchMock = respondWith({ status: 'wrong-password' })
+
+    await expect(openSharedReport('token_1', 'guess')).resolves.toEqual({ status: 'wrong-password' })
+    expect(fetchMock).toHaveBeenCalledWith('https://12345678--open-shared-report.functions.blink.new', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: 'token_1', password: 'guess' })
+    })
+  })
+
+  it('rebuilds the report from the columns the function returns', async () => {
+    const { id, url, timestamp, ...analysisData } = analysisResult({ seo: { ...emptyCategory('seo'), score: 64 } })
+    respondWith({
+      status: 'ok',
+      analysis: {
+        id,
+        url,
+        timestamp,
+        performanceScore: 0,
+        seoScore: 64,
+        accessibilityScore: 0,
+        designScore: 0,
+        uxScore: 0,
+        analysisData: JSON.stringify(analysisData)
+      },
+      scoring: null,
+      branding: { ...DEFAULT_BRANDING, agencyName: 'Acme', primaryColor: 'red' }
+    })
+
+    const report = await openSharedReport('token_1')
+
+    expect(report).toMatchObject({
+      status: 'ok',
+      result: { id: 'analysis_1', seo: { score: 64 } },
+      scoring: DEFAULT_SCORING,
+      branding: { agencyName: 'Acme', primaryColor: DEFAULT_BRANDING.primaryColor }
+    })
+  })
+
+  it('fails when the function errors so the view can show the link as unavailable', async () => {
+    respondWith({ error: 'Failed to open shared report' }, 500)
+
+    await expect(openSharedReport('token_1')).rejects.toThrow('Shared report function returned 500')
+  })
+})
+
+describe('createShare', () => {
+  it('stores a salted PBKDF2 hash the edge function can check, and never returns it', async () => {
+    const table = { create: vi.fn(async () => {}) }
+    blink.db.table.mockReturnValue(table)
+
+    const share = await createShare('analysis_1', 'workspace_1', { password: 'secret' }, 'user_1')
+    const [[{ passwordHash }]] = table.create.mock.calls as unknown as [[{ passwordHash: string }]]
+    const [scheme, iterations, salt, key] = passwordHash.split('$')
+
+    expect(share).toMatchObject({ hasPassword: true })
+    expect(share).not.toHaveProperty('passwordHash')
+    expect(scheme).toBe('pbkdf2')
+    expect(key).toBe(await pbkdf2('secret', salt, Number(iterations)))
+  })
+})
@@ -0,0 +1,165 @@
+import { blink, BLINK_PROJECT_ID, SHARE_PATH_PREFIX } from './blink'
+import { parseAnalysisRecord, type StoredAnalysis } from './analysis-store'
+import { pbkdf2 } from './hash'
+import { parseBranding, type ReportBranding } from './report-branding'
+import { parseScoringConfig, type ScoringConfig, type ScoringConfigRecord } from './scoring'
+import type { AnalysisResult } from '../types/analysis'
+
+// A public, read-only link to one analysis
+export interface AnalysisShare {
+  // Also the token in the link, so it is random rather than time-based
+  id: string
+  analysisId: string
+  workspaceId: string
+  createdBy: string
+  hasPassword: boolean
+  expiresAt: string | null
+  revokedAt: string | null
+  views: number
+  lastViewedAt: string | null
+  createdAt: string
+}
+
+export interface ShareOptions {
+  password?: string
+  expiresAt?: string | null
+}
+
+export type ShareStatus = 'active' | 'expired' | 'revoked'
+
+// What a visitor gets for a link; everything but 'ok' is shown instead of the report
+export type SharedReport =
+  | { status: 'ok'; result: AnalysisResult; scoring: ScoringConfig; branding: ReportBranding }
+  | { status: 'password-required' | 'wrong-password' | 'locked' | 'not-found' | 'expired' | 'revoked' }
+
+interface AnalysisShareRecord {
+  id: string
+  analysisId: string
+  userId: string
+  createdBy: string
+  passwordHash: string | null
+  // Wrong passwords in a row; the edge function locks the link for a while once there are too many
+  failedAttempts: number
+  lockedUntil: string | null
+  expiresAt: string | null
+  revokedAt: string | null
+  views: number
+  lastViewedAt: string | null
+  createdAt: string
+}
+
+// A share row as the owner lists it; the password hash itself never leaves the database
+type ListedShareRecord = Omit<AnalysisShareRecord, 'passwordHash' | 'failedAttempts' | 'lockedUntil'> & {
+  hasPassword: number | boolean
+}
+
+// What functions/open-shared-report returns: only the report, never the share record
+type SharedReportResponse =
+  | {
+    status: 'ok'
+    analysis: StoredAnalysis
+    scoring: Pick<ScoringConfigRecord, 'weights' | 'thresholds' | 'grades'> | null
+    branding: ReportBranding | null
+  }
+  | { status: Exclude<SharedReport['status'], 'ok'> }
+
+const TOKEN_BYTES = 24
+const SALT_BYTES = 16
+const PASSWORD_ITERATIONS = 600_000
+
+// Visitors have no account, so links are checked and counted by an edge function holding the project key
+const SHARED_REPORT_ENDPOINT = `https://${BLINK_PROJECT_ID.slice(-8)}--open-shared-report.functions.blink.new`
+
+const sharesTable = () => blink.db.table<AnalysisShareRecord>('analysisShares')
+
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, '0')).join('')
+
+// Stored as pbkdf2$<iterations>$<salt>$<key> so the edge function can check a visitor's password with
+// the same parameters, and links keep working if the iteration count is raised later
+const hashPassword = async (password: string) => {
+  const salt = randomHex(SALT_BYTES)
+  return `pbkdf2$${PASSWORD_ITERATIONS}$${salt}$${await pbkdf2(password, salt, PASSWORD_ITERATIONS)}`
+}
+
+const parseShare = (record: ListedShareRecord): AnalysisShare => ({
+  id: record.id,
+  analysisId: record.analysisId,
+  workspaceId: record.userId,
+  createdBy: record.createdBy,
+  hasPassword: Boolean(Number(record.hasPassword)),
+  expiresAt: record.expiresAt,
+  revokedAt: record.revokedAt,
+  views: Number(record.views) || 0,
+  lastViewedAt: record.lastViewedAt,
+  createdAt: record.createdAt
+})
+
+export const shareStatus = (share: Pick<AnalysisShare, 'expiresAt' | 'revokedAt'>, now = Date.now()): ShareStatus => {
+  if (share.revokedAt) return 'revoked'
+  if (share.expiresAt && new Date(share.expiresAt).getTime() <= now) return 'expired'
+  return 'active'
+}
+
+export const shareUrl = (share: AnalysisShare) => `${window.location.origin}${SHARE_PATH_PREFIX}${share.id}`
+
+export const createShare = async (
+  analysisId: string,
+  workspaceId: string,
+  { password, expiresAt = null }: ShareOptions,
+  createdBy: string
+): Promise<AnalysisShare> => {
+  const id = randomHex(TOKEN_BYTES)
+  const record: AnalysisShareRecord = {
+    id,
+    analysisId,
+    userId: workspaceId,
+    createdBy,
+    passwordHash: password ? await hashPassword(password) : null,
+    failedAttempts: 0,
+    lockedUntil: null,
+    expiresAt,
+    revokedAt: null,
+    views: 0,
+    lastViewedAt: null,
+    createdAt: new Date().toISOString()
+  }
+  await sharesTable().create(record)
+  const { passwordHash, failedAttempts, lockedUntil, ...listed } = record
+  return parseShare({ ...listed, hasPassword: passwordHash !== null })
+}
+
+export const listShares = async (analysisId: string) => {
+  const { rows } = await blink.db.sql<ListedShareRecord>(
+    `SELECT id, analysis_id, user_id, created_by, password_hash IS NOT NULL AS has_password, expires_at, revoked_at,
+       views, last_viewed_at, created_at
+     FROM analysis_shares WHERE analysis_id = ? ORDER BY created_at DESC`,
+    [analysisId]
+  )
+  return rows.map(parseShare)
+}
+
+// Revoked links stay listed with their view counts; visitors see that the link was revoked
+export const revokeShare = async (id: string) => {
+  await sharesTable().update(id, { revokedAt: new Date().toISOString() })
+}
+
+// The function checks the token, expiry, revocation and password, and counts a view only when it returns the report
+export const openSharedReport = async (token: string, password?: string): Promise<SharedReport> => {
+  const response = await fetch(SHARED_REPORT_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token, password })
+  })
+  if (!response.ok) throw new Error(`Shared report function returned ${response.status}`)
+
+  const report: SharedReportResponse = await response.json()
+  if (report.status !== 'ok') return { status: report.status }
+
+  return {
+    status: 'ok',
+    result: parseAnalysisRecord(report.analysis),
+    scoring: parseScoringConfig(report.scoring),
+    branding: parseBranding(report.branding)
+  }
+}
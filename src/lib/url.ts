@@ -0,0 +1,31 @@
+// Accepts bare hostnames like "example.com" and returns null for anything unparseable
+export const normalizeUrl = (input: string): string | null => {
+  const trimmed = input.trim()
+  if (!trimmed) return null
+
+  const candidate = trimmed.startsWith('http://') || trimmed.startsWith('https://')
+    ? trimmed
+    : `https://${trimmed}`
+  try {
+    new URL(candidate)
+    return candidate
+  } catch {
+    return null
+  }
+}
+
+// Identity of a page for de-duplication: no fragment, no trailing slash on the path
+export const pageKey = (url: string) => {
+  const parsed = new URL(url)
+  parsed.hash = ''
+  if (parsed.pathname.length > 1) parsed.pathname = parsed.pathname.replace(/\/+$/, '')
+  return parsed.toString()
+}
+
+export const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return url
+  }
+}
@@ -0,0 +1,98 @@
+import { blink } from './blink'
+import { isRecord } from './analysis-validation'
+import type { DesignAnnotation } from '../types/analysis'
+
+export interface VisualFinding {
+  label: string
+  detail: string
+  box: DesignAnnotation['box']
+  recommendation: string
+}
+
+const MAX_ANNOTATIONS = 8
+
+const clamp = (value: unknown) => Math.min(1, Math.max(0, Number(value) || 0))
+
+// The model answers in prose-wrapped JSON often enough that the object is cut out before parsing
+const extractJson = (text: string) => {
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  if (start === -1 || end <= start) throw new Error('Vision response contained no JSON object')
+  return JSON.parse(text.slice(start, end + 1))
+}
+
+const parseFinding = (raw: Record<string, unknown>): VisualFinding | null => {
+  const box = raw.box
+  if (typeof raw.label !== 'string' || typeof raw.recommendation !== 'string' || !isRecord(box)) return null
+
+  const x = clamp(box.x)
+  const y = clamp(box.y)
+  const width = Math.min(clamp(box.width), 1 - x)
+  const height = Math.min(clamp(box.height), 1 - y)
+  if (width === 0 || height === 0) return null
+
+  return {
+    label: raw.label,
+    detail: typeof raw.detail === 'string' ? raw.detail : '',
+    box: { x, y, width, height },
+    recommendation: raw.recommendation
+  }
+}
+
+// Image input is only accepted through generateText, so the JSON shape is described in the prompt
+export const annotateScreenshot = async (
+  screenshotUrl: string,
+  pageUrl: string,
+  signal?: AbortSignal
+): Promise<VisualFinding[]> => {
+  const { text } = await blink.ai.generateText({
+    signal,
+    messages: [{
+      role: 'user',
+      content: [
+        {
+          type: 'text',
+          text: `
+            This is a full-page screenshot of ${pageUrl}. Review its visual design and point out up to ${MAX_ANNOTATIONS}
+            specific problems such as low contrast calls to action, cramped spacing, inconsistent typography,
+            weak visual hierarchy or misaligned elements.
+
+            Reply with JSON only, in this shape:
+            {"annotations": [{"label": "short title", "detail": "what is wrong", "recommendation": "how to fix it",
+            "box": {"x": 0.1, "y": 0.05, "width": 0.3, "height": 0.04}}]}
+
+            Box values are fractions (0-1) of the image width and height, measured from the top-left corner,
+            and must tightly enclose the element the finding refers to.
+          `
+        },
+        { type: 'image', image: screenshotUrl }
+      ]
+    }]
+  })
+
+  const parsed = extractJson(text)
+  const annotations: unknown[] = Array.isArray(parsed.annotations) ? parsed.annotations : []
+  return annotations
+    .filter(isRecord)
+    .map(parseFinding)
+    .filter((finding): finding is VisualFinding => finding !== null)
+    .slice(0, MAX_ANNOTATIONS)
+}
+
+// Each visual finding's fix is appended to the design recommendations so hovering can link the two
+export const mergeVisualFindings = (recommendations: string[], findings: VisualFinding[]) => {
+  const merged = [...recommendations]
+  const annotations: DesignAnnotation[] = findings.map(finding => {
+    let recommendationIndex = merged.indexOf(finding.recommendation)
+    if (recommendationIndex === -1) {
+      recommendationIndex = merged.push(finding.recommendation) - 1
+    }
+    return {
+      label: finding.label,
+      detail: finding.detail,
+      box: finding.box,
+      recommendationIndex
+    }
+  })
+  return { recommendations: merged, annotations }
+}
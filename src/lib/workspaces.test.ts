@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { BlinkUser } from '@blinkdotnew/sdk'
+import { canEdit, canManage, inviteMember, listWorkspaces, type Workspace, type WorkspaceMember } from './workspaces'
+import { blink } from '../test/blink'
+
+vi.mock('./blink', () => import('../test/blink'))
+
+const tables = {
+  workspaces: { get: vi.fn(), list: vi.fn(), upsert: vi.fn() },
+  workspaceMembers: { list: vi.fn(), create: vi.fn(), upsert: vi.fn() }
+}
+
+const user = { id: 'user_1', email: 'Owner@Example.com' } as BlinkUser
+
+const workspace: Workspace = { id: 'workspace_1', name: 'Agency', personal: false, createdAt: '2025-01-01T00:00:00.000Z' }
+
+const member = (workspaceId: string, role: WorkspaceMember['role']): WorkspaceMember => ({
+  id: `member_${workspaceId}`,
+  workspaceId,
+  memberUserId: user.id,
+  email: 'owner@example.com',
+  role,
+  status: 'active',
+  invitedBy: user.id,
+  createdAt: workspace.createdAt
+})
+
+beforeEach(() => {
+  vi.resetAllMocks()
+  blink.db.table.mockImplementation((name: keyof typeof tables) => tables[name])
+  vi.stubGlobal('window', { location: { origin: 'https://app.example.com' } })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('workspace roles', () => {
+  it('lets editors change data and only owners manage the workspace', () => {
+    expect([canEdit('owner'), canEdit('editor'), canEdit('viewer')]).toEqual([true, true, false])
+    expect([canManage('owner'), canManage('editor'), canManage('viewer')]).toEqual([true, false, false])
+  })
+})
+
+describe('listWorkspaces', () => {
+  it('creates the personal workspace on first use', async () => {
+    tables.workspaces.get.mockResolvedValue(null)
+    tables.workspaceMembers.list.mockResolvedValue([])
+    tables.workspaces.list.mockResolvedValue([])
+
+    await listWorkspaces(user)
+
+    expect(tables.workspaces.upsert).toHaveBeenCalledWith(expect.objectContaining({ id: 'user_1', personal: 1 }))
+    expect(tables.workspaceMembers.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      workspaceId: 'user_1',
+      email: 'owner@example.com',
+      role: 'owner'
+    }))
+  })
+
+  it('lists the personal workspace first, then the rest by name, with the member role', async () => {
+    tables.workspaces.get.mockResolvedValue({ id: user.id })
+    tables.workspaceMembers.list.mockResolvedValue([
+      member('workspace_2', 'viewer'),
+      member('user_1', 'owner'),
+      member('workspace_1', 'editor')
+    ])
+    tables.workspaces.list.mockResolvedValue([
+      { id: 'workspace_2', name: 'Zeta', personal: 0, createdAt: workspace.createdAt },
+      { id: 'workspace_1', name: 'Agency', personal: 0, createdAt: workspace.createdAt },
+      { id: 'user_1', name: 'Personal', personal: 1, createdAt: workspace.createdAt }
+    ])
+
+    const workspaces = await listWorkspaces(user)
+
+    expect(tables.workspaces.upsert).not.toHaveBeenCalled()
+    expect(workspaces.map(({ name, personal, role }) => ({ name, personal, role }))).toEqual([
+      { name: 'Personal', personal: true, role: 'owner' },
+      { name: 'Agency', personal: false, role: 'editor' },
+      { name: 'Zeta', personal: false, role: 'viewer' }
+    ])
+  })
+})
+
+describe('inviteMember', () => {
+  it('records the invitation under the normalized email and emails the invitee', async () => {
+    tables.workspaceMembers.list.mockResolvedValue([])
+
+    const { member: invited, emailed } = await inviteMember(workspace, ' Client@Example.com ', 'viewer', user)
+
+    expect(emailed).toBe(true)
+    expect(invited).toMatchObject({ workspaceId: 'workspace_1', email: 'client@example.com', role: 'viewer', status: 'invited' })
+    expect(tables.workspaceMembers.create).toHaveBeenCalledWith(invited)
+    expect(blink.notifications.email).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'client@example.com',
+      text: expect.stringContaining('https://app.example.com')
+    }))
+  })
+
+  it('refuses to invite an email that is already a member or invited', async () => {
+    tables.workspaceMembers.list.mockResolvedValue([member('workspace_1', 'editor')])
+
+    await expect(inviteMember(workspace, 'owner@example.com', 'viewer', user))
+      .rejects.toThrow('owner@example.com is already a member or invited')
+    expect(tables.workspaceMembers.create).not.toHaveBeenCalled()
+  })
+
+  it('keeps the invitation when the email cannot be sent', async () => {
+    tables.workspaceMembers.list.mockResolvedValue([])
+    blink.notifications.email.mockRejectedValue(new Error('Mail server down'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const { emailed } = await inviteMember(workspace, 'client@example.com', 'editor', user)
+
+    expect(emailed).toBe(false)
+    expect(tables.workspaceMembers.create).toHaveBeenCalledOnce()
+  })
+})
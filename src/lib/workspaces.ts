@@ -0,0 +1,197 @@
+import type { BlinkUser } from '@blinkdotnew/sdk'
+import { blink } from './blink'
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+export interface Workspace {
+  id: string
+  name: string
+  // Personal workspaces can't be shared, renamed or deleted
+  personal: boolean
+  createdAt: string
+}
+
+// A workspace as seen by one member
+export interface WorkspaceMembership extends Workspace {
+  role: WorkspaceRole
+}
+
+export interface WorkspaceMember {
+  id: string
+  workspaceId: string
+  // Null until an invitation is accepted
+  memberUserId: string | null
+  email: string
+  role: WorkspaceRole
+  status: 'invited' | 'active'
+  invitedBy: string
+  createdAt: string
+}
+
+// A pending invitation together with the workspace it is for
+export interface WorkspaceInvitation {
+  member: WorkspaceMember
+  workspace: Workspace
+}
+
+interface WorkspaceRecord {
+  id: string
+  name: string
+  personal: number
+  createdAt: string
+}
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+}
+
+// Editors run analyses and change workspace data; only owners manage members and the workspace itself
+export const canEdit = (role: WorkspaceRole) => role !== 'viewer'
+
+export const canManage = (role: WorkspaceRole) => role === 'owner'
+
+const workspacesTable = () => blink.db.table<WorkspaceRecord>('workspaces')
+const membersTable = () => blink.db.table<WorkspaceMember>('workspaceMembers')
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+const parseWorkspace = (record: WorkspaceRecord): Workspace => ({
+  id: record.id,
+  name: record.name,
+  personal: Number(record.personal) > 0,
+  createdAt: record.createdAt
+})
+
+// The personal workspace reuses the user id, so everything saved before workspaces existed lands in it
+const ensurePersonalWorkspace = async (user: BlinkUser) => {
+  const existing = await workspacesTable().get(user.id)
+  if (existing) return
+
+  const createdAt = new Date().toISOString()
+  await workspacesTable().upsert({ id: user.id, name: 'Personal', personal: 1, createdAt })
+  await membersTable().upsert({
+    id: `member_${user.id}_${user.id}`,
+    workspaceId: user.id,
+    memberUserId: user.id,
+    email: normalizeEmail(user.email),
+    role: 'owner',
+    status: 'active',
+    invitedBy: user.id,
+    createdAt
+  })
+}
+
+// Personal workspace first, then shared workspaces by name
+export const listWorkspaces = async (user: BlinkUser): Promise<WorkspaceMembership[]> => {
+  await ensurePersonalWorkspace(user)
+
+  const memberships = await membersTable().list({ where: { memberUserId: user.id, status: 'active' } })
+  const workspaces = await workspacesTable().list({
+    where: { id: { in: memberships.map(membership => membership.workspaceId) } }
+  })
+  return workspaces
+    .map(record => ({
+      ...parseWorkspace(record),
+      role: memberships.find(membership => membership.workspaceId === record.id)!.role
+    }))
+    .sort((a, b) => Number(b.personal) - Number(a.personal) || a.name.localeCompare(b.name))
+}
+
+export const createWorkspace = async (name: string, user: BlinkUser): Promise<WorkspaceMembership> => {
+  const workspace: Workspace = {
+    id: `workspace_${crypto.randomUUID()}`,
+    name: name.trim(),
+    personal: false,
+    createdAt: new Date().toISOString()
+  }
+  await workspacesTable().create({ ...workspace, personal: 0 })
+  await membersTable().create({
+    id: `member_${workspace.id}_${user.id}`,
+    workspaceId: workspace.id,
+    memberUserId: user.id,
+    email: normalizeEmail(user.email),
+    role: 'owner',
+    status: 'active',
+    invitedBy: user.id,
+    createdAt: workspace.createdAt
+  })
+  return { ...workspace, role: 'owner' }
+}
+
+export const renameWorkspace = async (workspaceId: string, name: string) => {
+  await workspacesTable().update(workspaceId, { name: name.trim() })
+}
+
+// Members and invitations go with the workspace; its analyses and settings are left in place
+export const deleteWorkspace = async (workspaceId: string) => {
+  await membersTable().deleteMany({ where: { workspaceId } })
+  await workspacesTable().delete(workspaceId)
+}
+
+export const listMembers = async (workspaceId: string) =>
+  membersTable().list({ where: { workspaceId }, orderBy: { createdAt: 'asc' } })
+
+// Records the invitation and emails the invitee; the invitation stays valid if the email can't be sent
+export const inviteMember = async (
+  workspace: Workspace,
+  email: string,
+  role: WorkspaceRole,
+  inviter: BlinkUser
+): Promise<{ member: WorkspaceMember; emailed: boolean }> => {
+  const invitee = normalizeEmail(email)
+  const existing = await membersTable().list({ where: { workspaceId: workspace.id, email: invitee }, limit: 1 })
+  if (existing.length > 0) throw new Error(`${invitee} is already a member or invited`)
+
+  const member: WorkspaceMember = {
+    id: `member_${crypto.randomUUID()}`,
+    workspaceId: workspace.id,
+    memberUserId: null,
+    email: invitee,
+    role,
+    status: 'invited',
+    invitedBy: inviter.id,
+    createdAt: new Date().toISOString()
+  }
+  await membersTable().create(member)
+
+  try {
+    await blink.notifications.email({
+      to: invitee,
+      subject: `${inviter.email} invited you to ${workspace.name}`,
+      text: `${inviter.email} invited you to join the "${workspace.name}" workspace as ${ROLE_LABELS[role].toLowerCase()}. ` +
+        `Sign in to AI Website Analyzer with this email address to accept: ${window.location.origin}`
+    })
+    return { member, emailed: true }
+  } catch (error) {
+    console.error('Failed to send invitation email:', error)
+    return { member, emailed: false }
+  }
+}
+
+export const listInvitations = async (user: BlinkUser): Promise<WorkspaceInvitation[]> => {
+  const invitations = await membersTable().list({ where: { email: normalizeEmail(user.email), status: 'invited' } })
+  if (invitations.length === 0) return []
+
+  const workspaces = await workspacesTable().list({
+    where: { id: { in: invitations.map(invitation => invitation.workspaceId) } }
+  })
+  return invitations.flatMap(member => {
+    const workspace = workspaces.find(record => record.id === member.workspaceId)
+    return workspace ? [{ member, workspace: parseWorkspace(workspace) }] : []
+  })
+}
+
+export const acceptInvitation = async (member: WorkspaceMember, user: BlinkUser) => {
+  await membersTable().update(member.id, { memberUserId: user.id, status: 'active' })
+}
+
+export const updateMemberRole = async (memberId: string, role: WorkspaceRole) => {
+  await membersTable().update(memberId, { role })
+}
+
+// Also used to decline an invitation or revoke one
+export const removeMember = async (memberId: string) => {
+  await membersTable().delete(memberId)
+}
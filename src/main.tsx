@@ -1,12 +1,24 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
+import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom'
 import { Toaster } from 'react-hot-toast'
 import App from './App'
+import { SharedReportView } from './components/SharedReportView'
+import { APP_PATHS, ROUTES } from './lib/routes'
 import './index.css'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <Toaster position="top-right" />
-    <App />
+    <BrowserRouter>
+      <Routes>
+        <Route path={ROUTES.share} element={<SharedReportView />} />
+        {/* App stays mounted across its routes and reads the location itself */}
+        <Route element={<App />}>
+          {APP_PATHS.map(path => <Route key={path} path={path} />)}
+        </Route>
+        <Route path="*" element={<Navigate to={ROUTES.analyze} replace />} />
+      </Routes>
+    </BrowserRouter>
   </React.StrictMode>,
 ) 
\ No newline at end of file
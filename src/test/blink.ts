@@ -0,0 +1,14 @@
+import { vi } from 'vitest'
+
+// Stands in for src/lib/blink.ts in tests: `vi.mock('./blink', () => import('../test/blink'))`.
+// Tests give the SDK calls they exercise an implementation, e.g. `vi.mocked(blink.db.table).mockReturnValue(table)`.
+
+export const SHARE_PATH_PREFIX = '/share/'
+
+export const BLINK_PROJECT_ID = 'project-12345678'
+
+export const blink = {
+  db: { table: vi.fn(), sql: vi.fn() },
+  data: { fetch: vi.fn() },
+  notifications: { email: vi.fn() }
+}
@@ -0,0 +1,18 @@
+import { emptyCategory } from '../lib/categories'
+import { DEFAULT_ANALYSIS_SETTINGS } from '../lib/analysis-settings'
+import type { AnalysisResult, AnalysisSettings } from '../types/analysis'
+
+// An analysis with every built-in category empty; tests override what they assert on
+export const analysisResult = (overrides: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  id: 'analysis_1',
+  url: 'https://example.com',
+  timestamp: Date.UTC(2025, 0, 1),
+  performance: emptyCategory('performance'),
+  seo: emptyCategory('seo'),
+  accessibility: emptyCategory('accessibility'),
+  design: emptyCategory('design'),
+  ux: emptyCategory('ux'),
+  ...overrides
+})
+
+export const analysisSettings = (categories: string[]): AnalysisSettings => ({ ...DEFAULT_ANALYSIS_SETTINGS, categories })
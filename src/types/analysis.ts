@@ -0,0 +1,189 @@
+export type CategoryKey = 'performance' | 'seo' | 'accessibility' | 'design' | 'ux'
+
+// Paint timings are in seconds, blocking/response timings in milliseconds
+export interface PerformanceMetrics {
+  loadTime: number
+  firstContentfulPaint: number
+  largestContentfulPaint: number
+  cumulativeLayoutShift: number
+  totalBlockingTime?: number
+  timeToFirstByte?: number
+  interactionToNextPaint?: number
+}
+
+export interface ResourceTiming {
+  url: string
+  resourceType: string
+  startTime: number
+  endTime: number
+  transferSize: number
+}
+
+export interface SeoIssue {
+  ruleId?: string
+  type: 'error' | 'warning' | 'info'
+  message: string
+  impact: 'high' | 'medium' | 'low'
+  evidence?: string
+}
+
+export interface AccessibilityViolation {
+  ruleId?: string
+  wcag?: string[]
+  severity: 'critical' | 'serious' | 'moderate' | 'minor'
+  description: string
+  element: string
+  selector?: string
+  html?: string
+  help?: string
+}
+
+export interface SubMetricDefinition {
+  key: string
+  label: string
+  // Shown after the value; unset means a 0–100 score
+  unit?: string
+  // Timings and layout shift improve as they go down
+  lowerIsBetter?: boolean
+  // Reported only by a metrics provider, so the model is never asked to estimate it
+  measuredOnly?: boolean
+}
+
+// A user-defined category's result carries a copy of its definition so it still renders after the category changes
+export interface CustomCategoryResult {
+  label: string
+  icon: string
+  subMetrics: SubMetricDefinition[]
+  score: number
+  metrics: Record<string, number>
+  recommendations: string[]
+}
+
+export type Audience = 'developer' | 'marketing'
+
+export interface AnalysisSettings {
+  // Built-in category keys and custom category ids
+  categories: string[]
+  // Characters of scraped markdown sent to the model
+  contentDepth: number
+  model: string
+  audience: Audience
+  deviceIds: string[]
+  // How long a result is reused while the page content is unchanged; 0 turns caching off
+  cacheTtlHours: number
+}
+
+export interface DeviceProfile {
+  id: string
+  label: string
+  width: number
+  height: number
+  touch: boolean
+  // Device pixel ratio the screenshot is captured at; 1 when absent
+  pixelRatio?: number
+}
+
+export interface DeviceCheck {
+  type: 'horizontal-overflow' | 'tap-target' | 'viewport-meta'
+  message: string
+  selector?: string
+}
+
+export interface DeviceResult {
+  device: DeviceProfile
+  screenshotUrl?: string
+  // Rendered document width from the full-page screenshot, when it could be measured
+  pageWidth?: number
+  checks: DeviceCheck[]
+  score: number
+}
+
+// Region of the screenshot a design finding refers to; box coordinates are fractions of the image size
+export interface DesignAnnotation {
+  label: string
+  detail: string
+  box: { x: number; y: number; width: number; height: number }
+  recommendationIndex: number
+}
+
+export interface AnalysisResult {
+  id: string
+  url: string
+  timestamp: number
+  screenshotUrl?: string
+  // Absent on analyses saved before settings existed, which always covered every category
+  settings?: AnalysisSettings
+  // Category weights the overall score was computed with; absent means every category counts equally
+  weights?: Record<string, number>
+  // Problems found in the AI response and fixed by validation, e.g. clamped scores or missing fields
+  validationWarnings?: string[]
+  // Requested categories whose AI analysis failed; they are left out of scores and tabs
+  failedCategories?: string[]
+  // Set when the page content was unchanged and an earlier analysis was reused instead of rerun
+  cachedFrom?: { analysisId: string; timestamp: number }
+  siteReport?: SiteReport
+  performance: {
+    score: number
+    metrics: PerformanceMetrics
+    source?: 'measured' | 'estimated'
+    provider?: string
+    waterfall?: ResourceTiming[]
+    recommendations: string[]
+  }
+  seo: {
+    score: number
+    issues: SeoIssue[]
+    recommendations: string[]
+  }
+  accessibility: {
+    score: number
+    violations: AccessibilityViolation[]
+    recommendations: string[]
+  }
+  design: {
+    score: number
+    analysis: {
+      colorContrast: number
+      typography: number
+      layout: number
+      responsiveness: number
+    }
+    annotations?: DesignAnnotation[]
+    devices?: DeviceResult[]
+    recommendations: string[]
+  }
+  ux: {
+    score: number
+    metrics: {
+      navigationClarity: number
+      contentReadability: number
+      mobileUsability: number
+      interactionDesign: number
+    }
+    recommendations: string[]
+  }
+  custom?: Record<string, CustomCategoryResult>
+}
+
+export interface SitePageSummary {
+  analysisId?: string
+  url: string
+  title: string
+  depth: number
+  inboundLinks: number
+  // Only the categories analyzed on this page, custom ones included
+  scores?: Record<string, number>
+  error?: string
+}
+
+export interface SiteIssue {
+  type: 'duplicate-title' | 'orphan-page' | 'broken-link'
+  message: string
+  urls: string[]
+}
+
+export interface SiteReport {
+  pages: SitePageSummary[]
+  worstPages: Record<string, Array<{ url: string; score: number }>>
+  sitewideIssues: SiteIssue[]
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_METRICS_PROVIDER?: 'pagespeed' | 'fixture'
+  readonly VITE_PAGESPEED_API_KEY?: string
+}